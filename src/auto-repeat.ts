@@ -0,0 +1,108 @@
+import type { PSNavButton, PSNavButtonEvent, RepeatOptions, RepeatTiming } from './types';
+
+// ─── Hub-owned auto-repeat ──────────────────────────────────────────────────
+//
+// Kernel autorepeat (evdev value 2) only exists on some drivers — hid-sony
+// over USB repeats, hid-generic over Bluetooth does not — so InputMapper drops
+// it and each service that asks for repeats gets them from an AutoRepeater
+// instead: after `delayMs` of holding, the press is re-sent every
+// `intervalMs`, shrinking by `acceleration` per repeat down to `minIntervalMs`.
+// Repeats carry `repeat: true`, so they can be told apart from new presses.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_TIMING: Required<RepeatTiming> = {
+  delayMs: 400,
+  intervalMs: 100,
+  acceleration: 1,
+  minIntervalMs: 30,
+};
+
+/** Buttons that repeat unless a service says otherwise */
+const DEFAULT_REPEAT_BUTTONS: readonly PSNavButton[] = [
+  'dpad_up', 'dpad_down', 'dpad_left', 'dpad_right',
+  'stick_up', 'stick_down', 'stick_left', 'stick_right',
+];
+
+type ResolvedRepeat = Partial<Record<PSNavButton, Required<RepeatTiming>>>;
+
+function positive(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function resolveTiming(timing: RepeatTiming, base: Required<RepeatTiming>): Required<RepeatTiming> {
+  return {
+    delayMs: positive(timing.delayMs, base.delayMs),
+    intervalMs: positive(timing.intervalMs, base.intervalMs),
+    acceleration: Math.min(1, positive(timing.acceleration, base.acceleration)),
+    minIntervalMs: positive(timing.minIntervalMs, base.minIntervalMs),
+  };
+}
+
+/** Per-button timing from a service's options; buttons without an entry do not repeat */
+export function resolveRepeatOptions(options: RepeatOptions): ResolvedRepeat {
+  const base = resolveTiming(options, DEFAULT_TIMING);
+  const resolved: ResolvedRepeat = {};
+  for (const button of DEFAULT_REPEAT_BUTTONS) resolved[button] = base;
+
+  for (const [button, setting] of Object.entries(options.buttons ?? {}) as [PSNavButton, RepeatTiming | boolean][]) {
+    if (setting === false) delete resolved[button];
+    else if (setting === true) resolved[button] = base;
+    else if (setting && typeof setting === 'object') resolved[button] = resolveTiming(setting, base);
+  }
+  return resolved;
+}
+
+interface HeldRepeat {
+  timer: NodeJS.Timeout;
+  interval: number;
+}
+
+/**
+ * Auto-repeat for one service. Feed it the button events the service is sent;
+ * it calls `emit` with each repeat until the button is released or stop() is
+ * called (e.g. the service lost focus).
+ */
+export class AutoRepeater {
+  private held = new Map<string, HeldRepeat>();
+
+  constructor(
+    private readonly timing: ResolvedRepeat,
+    private readonly emit: (evt: PSNavButtonEvent) => void,
+  ) {}
+
+  feed(evt: PSNavButtonEvent): void {
+    const key = `${evt.controllerId}\0${evt.button}`;
+    const timing = this.timing[evt.button];
+    if (!evt.pressed) {
+      this.clear(key);
+      return;
+    }
+    if (!timing || this.held.has(key)) return;
+
+    const repeat = () => {
+      const now = Date.now();
+      this.emit({ ...evt, timestamp: now, dispatchedAt: now, repeat: true });
+      const state = this.held.get(key)!;
+      state.interval = Math.max(timing.minIntervalMs, state.interval * timing.acceleration);
+      state.timer = setTimeout(repeat, state.interval);
+    };
+    this.held.set(key, {
+      timer: setTimeout(repeat, timing.delayMs),
+      interval: timing.intervalMs / timing.acceleration,
+    });
+  }
+
+  /** Stop repeating every held button, or only one controller's */
+  stop(controllerId?: string): void {
+    for (const key of [...this.held.keys()]) {
+      if (controllerId === undefined || key.startsWith(`${controllerId}\0`)) this.clear(key);
+    }
+  }
+
+  private clear(key: string): void {
+    const state = this.held.get(key);
+    if (!state) return;
+    clearTimeout(state.timer);
+    this.held.delete(key);
+  }
+}
@@ -0,0 +1,202 @@
+import type { PSNavAxis, PSNavAxisEvent, PSNavStickEvent, AxisSettings, StickYAxis } from './types';
+
+// ─── Per-service deadzones and response curves ──────────────────────────────
+//
+// InputMapper applies a fixed axial deadzone to its 'nav' axis events. A
+// service that passes `axes` settings to `register` instead gets its own
+// nav:axis stream, computed here from the mapper's pre-deadzone 'analog'
+// values:
+//
+//   deadzone  'axial'         each axis snaps to center inside the deadzone
+//                             (square deadzone, like the default)
+//             'radial'        the stick snaps to center while its distance
+//                             from center is inside the deadzone (round)
+//             'scaled-radial' radial, and the remaining travel is rescaled so
+//                             output starts at 0 right at the deadzone edge
+//             'none'
+//   curve     'linear' | 'exponential' (t^exponent) | 'lut' (lookup table,
+//             output 0..1 sampled evenly over input 0..1)
+//
+// Radial modes apply the curve to the stick's magnitude, so diagonals keep
+// their direction. l2_analog gets a threshold deadzone (rescaled for
+// 'scaled-radial') and the same curve.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Matches the mapper's default 118..138 deadzone around 128 */
+const DEFAULT_DEADZONE_SIZE = 10 / 127;
+const DEFAULT_EXPONENT = 2;
+
+export type ResolvedSettings = Required<Omit<AxisSettings, 'lut'>> & { lut: number[] };
+
+/**
+ * Validate settings from a client. Invalid fields fall back to defaults and
+ * are reported as warnings.
+ */
+export function resolveAxisSettings(settings: AxisSettings): { settings: ResolvedSettings; warnings: string[] } {
+  const warnings: string[] = [];
+  const resolved: ResolvedSettings = {
+    deadzone: 'axial',
+    deadzoneSize: DEFAULT_DEADZONE_SIZE,
+    curve: 'linear',
+    exponent: DEFAULT_EXPONENT,
+    lut: [],
+  };
+
+  if (settings.deadzone !== undefined) {
+    if (['axial', 'radial', 'scaled-radial', 'none'].includes(settings.deadzone)) resolved.deadzone = settings.deadzone;
+    else warnings.push(`unknown deadzone "${settings.deadzone}"`);
+  }
+  if (settings.deadzoneSize !== undefined) {
+    if (typeof settings.deadzoneSize === 'number' && settings.deadzoneSize >= 0 && settings.deadzoneSize < 1) {
+      resolved.deadzoneSize = settings.deadzoneSize;
+    } else {
+      warnings.push('deadzoneSize must be a number in [0, 1)');
+    }
+  }
+  if (settings.curve !== undefined) {
+    if (['linear', 'exponential', 'lut'].includes(settings.curve)) resolved.curve = settings.curve;
+    else warnings.push(`unknown curve "${settings.curve}"`);
+  }
+  if (settings.exponent !== undefined) {
+    if (typeof settings.exponent === 'number' && settings.exponent > 0) resolved.exponent = settings.exponent;
+    else warnings.push('exponent must be a positive number');
+  }
+  if (resolved.curve === 'lut') {
+    const lut = settings.lut;
+    if (Array.isArray(lut) && lut.length >= 2 && lut.every((v) => typeof v === 'number' && v >= 0 && v <= 1)) {
+      resolved.lut = [...lut];
+    } else {
+      warnings.push('curve "lut" needs a lut of at least 2 numbers in [0, 1] — using linear');
+      resolved.curve = 'linear';
+    }
+  }
+
+  return { settings: resolved, warnings };
+}
+
+function applyCurve(settings: ResolvedSettings, t: number): number {
+  switch (settings.curve) {
+    case 'exponential':
+      return Math.pow(t, settings.exponent);
+    case 'lut': {
+      const { lut } = settings;
+      const pos = t * (lut.length - 1);
+      const i = Math.min(lut.length - 2, Math.floor(pos));
+      return lut[i] + (lut[i + 1] - lut[i]) * (pos - i);
+    }
+    default:
+      return t;
+  }
+}
+
+const toUnit = (v: number) => Math.max(-1, Math.min(1, (v - 128) / 127));
+const fromUnit = (u: number) => Math.max(0, Math.min(255, Math.round(128 + u * 127)));
+
+/** Process a stick position (0-255 per axis) into output values (0-255) */
+export function processStick(settings: ResolvedSettings, xIn: number, yIn: number): [number, number] {
+  const x = toUnit(xIn);
+  const y = toUnit(yIn);
+  const dz = settings.deadzoneSize;
+
+  if (settings.deadzone === 'axial') {
+    const axis = (a: number) => (Math.abs(a) <= dz ? 0 : Math.sign(a) * applyCurve(settings, Math.abs(a)));
+    return [fromUnit(axis(x)), fromUnit(axis(y))];
+  }
+
+  const magnitude = Math.min(1, Math.hypot(x, y));
+  if (magnitude === 0 || (settings.deadzone !== 'none' && magnitude <= dz)) return [128, 128];
+
+  const travel = settings.deadzone === 'scaled-radial' ? (magnitude - dz) / (1 - dz) : magnitude;
+  const scale = applyCurve(settings, travel) / Math.hypot(x, y);
+  return [fromUnit(x * scale), fromUnit(y * scale)];
+}
+
+/** Process an L2 analog value (0-255) into an output value (0-255) */
+export function processTrigger(settings: ResolvedSettings, valueIn: number): number {
+  const t = Math.max(0, Math.min(1, valueIn / 255));
+  const dz = settings.deadzone === 'none' ? 0 : settings.deadzoneSize;
+  if (t <= dz) return 0;
+  const travel = settings.deadzone === 'scaled-radial' ? (t - dz) / (1 - dz) : t;
+  return Math.round(applyCurve(settings, travel) * 255);
+}
+
+interface ControllerAxes {
+  input: Record<PSNavAxis, number>;
+  output: Record<PSNavAxis, number>;
+}
+
+/**
+ * One service's view of every controller's axes. Feed it pre-deadzone axis
+ * events; it returns the nav:axis events whose processed value changed.
+ */
+export class AxisProcessor {
+  private controllers = new Map<string, ControllerAxes>();
+
+  constructor(private readonly settings: ResolvedSettings) {}
+
+  process(evt: PSNavAxisEvent): PSNavAxisEvent[] {
+    let state = this.controllers.get(evt.controllerId);
+    if (!state) {
+      state = {
+        input: { stick_x: 128, stick_y: 128, l2_analog: 0 },
+        output: { stick_x: 128, stick_y: 128, l2_analog: 0 },
+      };
+      this.controllers.set(evt.controllerId, state);
+    }
+    state.input[evt.axis] = evt.value;
+
+    const next: Partial<Record<PSNavAxis, number>> = {};
+    if (evt.axis === 'l2_analog') {
+      next.l2_analog = processTrigger(this.settings, evt.value);
+    } else {
+      // A radial deadzone / curve couples the axes — either input moves both outputs
+      [next.stick_x, next.stick_y] = processStick(this.settings, state.input.stick_x, state.input.stick_y);
+    }
+
+    const out: PSNavAxisEvent[] = [];
+    for (const axis of Object.keys(next) as PSNavAxis[]) {
+      const value = next[axis]!;
+      if (state.output[axis] === value) continue;
+      state.output[axis] = value;
+      out.push({ ...evt, axis, value });
+    }
+    return out;
+  }
+}
+
+// ─── Normalised stick vector ────────────────────────────────────────────────
+
+/**
+ * Tracks one socket's axis values per controller and turns each nav:axis it
+ * is sent into a nav:stick vector.
+ */
+export class StickTracker {
+  private controllers = new Map<string, Record<PSNavAxis, number>>();
+
+  constructor(private readonly yAxis: StickYAxis) {}
+
+  update(evt: PSNavAxisEvent): PSNavStickEvent {
+    let axes = this.controllers.get(evt.controllerId);
+    if (!axes) {
+      axes = { stick_x: 128, stick_y: 128, l2_analog: 0 };
+      this.controllers.set(evt.controllerId, axes);
+    }
+    axes[evt.axis] = evt.value;
+
+    const x = toUnit(axes.stick_x);
+    const y = toUnit(axes.stick_y) * (this.yAxis === 'up' ? -1 : 1);
+    const stick: PSNavStickEvent = {
+      kind: 'stick',
+      controllerId: evt.controllerId,
+      x,
+      y,
+      angle: Math.atan2(y, x),
+      magnitude: Math.min(1, Math.hypot(x, y)),
+      l2: Math.max(0, Math.min(1, axes.l2_analog / 255)),
+      timestamp: evt.timestamp,
+      dispatchedAt: evt.dispatchedAt,
+    };
+    if (evt.synthetic) stick.synthetic = true;
+    return stick;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * bench-evdev.ts — Read-loop throughput benchmark against a FIFO-backed fake device
+ *
+ * A child process writes synthetic input_event structs (stick sweeps closed by
+ * SYN_REPORT, like a real Nav) into a named pipe as fast as it can, while an
+ * EvdevReader in this process reads them and an InputMapper maps them. Each
+ * run reports events/sec and the CPU time of the reader process.
+ * `readBatchSize: 1` reproduces the old one-event-per-read loop for comparison.
+ *
+ * Usage:
+ *   npm run bench                       # 200000 events, batch sizes 1 and 64
+ *   npm run bench -- 500000 1 16 64     # event count, then batch sizes
+ *
+ * Run it on the Pi for meaningful numbers (pass IS_32BIT=1 on 32-bit OS).
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync, spawn } from 'child_process';
+import { EvdevReader } from './evdev-reader';
+import { InputMapper } from './input-mapper';
+
+const IS_32BIT = process.env.IS_32BIT === '1';
+const EVENT_SIZE = IS_32BIT ? 16 : 24;
+
+const [countArg, ...batchArgs] = process.argv.slice(2);
+const EVENT_COUNT = parseInt(countArg ?? '200000', 10);
+const BATCH_SIZES = batchArgs.length > 0 ? batchArgs.map((b) => parseInt(b, 10)) : [1, 64];
+
+/**
+ * Writer child: plain JS so it runs under bare node. Writes `count` events as
+ * ABS_X, ABS_Y, SYN_REPORT triples in 4 KiB chunks.
+ */
+const WRITER_SRC = `
+const fs = require('fs');
+const [fifo, countStr, sizeStr] = process.argv.slice(1);
+const count = Number(countStr), size = Number(sizeStr);
+const fd = fs.openSync(fifo, 'w');
+const perChunk = Math.floor(4096 / size);
+const chunk = Buffer.alloc(perChunk * size);
+let written = 0;
+while (written < count) {
+  const n = Math.min(perChunk, count - written);
+  for (let i = 0; i < n; i++) {
+    const seq = written + i, off = i * size, t = size === 24 ? 16 : 8;
+    const kind = seq % 3;
+    chunk.fill(0, off, off + size);
+    chunk.writeUInt16LE(kind === 2 ? 0 : 3, off + t);         // EV_SYN / EV_ABS
+    chunk.writeUInt16LE(kind === 2 ? 0 : kind, off + t + 2);  // SYN_REPORT / ABS_X / ABS_Y
+    chunk.writeInt32LE(kind === 2 ? 0 : 140 + (seq % 100), off + t + 4);
+  }
+  fs.writeSync(fd, chunk, 0, n * size);
+  written += n;
+}
+fs.closeSync(fd);
+`;
+
+interface BenchResult {
+  batchSize: number;
+  events: number;
+  elapsedMs: number;
+  cpuMs: number;
+}
+
+function runOnce(fifo: string, batchSize: number): Promise<BenchResult> {
+  return new Promise((resolve, reject) => {
+    const writer = spawn(process.execPath, ['-e', WRITER_SRC, fifo, String(EVENT_COUNT), String(EVENT_SIZE)], {
+      stdio: 'inherit',
+    });
+    writer.on('error', reject);
+
+    const reader = new InputMapper(
+      new EvdevReader({ devicePath: fifo, controllerId: 'bench', is32bit: IS_32BIT, readBatchSize: batchSize }),
+    );
+    let events = 0;
+    let startTime = 0;
+    let startCpu: NodeJS.CpuUsage = process.cpuUsage();
+
+    reader.on('open', () => {
+      startTime = performance.now();
+      startCpu = process.cpuUsage();
+    });
+    reader.on('raw', () => { events++; });
+    reader.on('error', reject);
+    reader.on('close', () => {
+      const elapsedMs = performance.now() - startTime;
+      const cpu = process.cpuUsage(startCpu);
+      resolve({ batchSize, events, elapsedMs, cpuMs: (cpu.user + cpu.system) / 1000 });
+    });
+
+    // Blocks until the writer opens its end of the pipe
+    reader.start();
+  });
+}
+
+async function main(): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-bench-'));
+  const fifo = path.join(dir, 'event-fake');
+  execFileSync('mkfifo', [fifo]);
+
+  // Keep the per-event logging of the reader out of the measurement
+  const log = console.log;
+  console.log = () => {};
+
+  const results: BenchResult[] = [];
+  try {
+    for (const batchSize of BATCH_SIZES) {
+      results.push(await runOnce(fifo, batchSize));
+    }
+  } finally {
+    console.log = log;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n  ${EVENT_COUNT} events, ${EVENT_SIZE}-byte input_event, ${os.cpus().length} CPU(s)\n`);
+  console.log('  batch   events/sec    wall ms    cpu ms   cpu %');
+  for (const r of results) {
+    const rate = Math.round(r.events / (r.elapsedMs / 1000));
+    const cpuPct = (r.cpuMs / r.elapsedMs) * 100;
+    console.log(
+      `  ${String(r.batchSize).padStart(5)}  ${String(rate).padStart(11)}  ${r.elapsedMs.toFixed(0).padStart(9)}` +
+      `  ${r.cpuMs.toFixed(0).padStart(8)}  ${cpuPct.toFixed(0).padStart(5)}`,
+    );
+    if (r.events !== EVENT_COUNT) {
+      console.log(`         ⚠ read ${r.events} of ${EVENT_COUNT} events`);
+    }
+  }
+  console.log();
+}
+
+main().catch((err) => {
+  console.error('[bench] failed:', err);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { EV_KEY, EV_ABS, PSNavButton, PSNavAxis } from './types';
+import type { MappingProfile } from './mapping-profile';
 
 // ─── PS Navigation Controller evdev code mappings ───────────────────────────
 //
@@ -7,16 +7,31 @@ import { EV_KEY, EV_ABS, PSNavButton, PSNavAxis } from './types';
 // joystick driver). This file defines non-conflicting mappings for both modes.
 //
 // One code is ambiguous: BTN_SOUTH (0x130) = Cross in USB mode, PS in BT mode.
-// This is handled by evdev-reader.ts via auto-detection.
+// It is resolved by input-mapper.ts based on the detected input mode.
+//
+// This is the built-in profile, used when no JSON profile in the profiles
+// directory matches the device (see mapping-profile.ts). To support another
+// driver or controller, add a JSON profile there instead of editing this file.
 //
 // Discover your codes:
 //   sudo apt install evtest
 //   sudo evtest /dev/input/eventX
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Map of { evType -> { evCode -> button name } } — non-conflicting codes only */
-export const BUTTON_MAP: Record<number, Record<number, PSNavButton>> = {
-  [EV_KEY]: {
+const STICK_RANGE: MappingProfile['axes'][number]['range'] = {
+  unknown: [0, 255],
+  usb: [0, 255],
+  bluetooth: [-127, 127],
+};
+
+export const DEFAULT_PROFILE: MappingProfile = {
+  name: 'ps-navigation (built-in)',
+  priority: -Infinity,
+  match: {},
+  source: null,
+
+  /** EV_KEY code → button name — non-conflicting codes only */
+  buttons: {
     // ── Bluetooth / hid-generic joystick mode ───────────────────────────
     // When connected via Bluetooth, the kernel's generic joystick driver
     // maps PS3 HID report buttons sequentially from BTN_TRIGGER (0x120):
@@ -34,8 +49,8 @@ export const BUTTON_MAP: Record<number, Record<number, PSNavButton>> = {
 
     // ── USB / hid-sony driver mode ──────────────────────────────────────
     // When connected via USB, the hid-sony kernel driver provides these.
-    // NOTE: BTN_SOUTH (0x130) = Cross in this mode — handled separately
-    //       in evdev-reader.ts because it conflicts with BT mode (= PS).
+    // NOTE: BTN_SOUTH (0x130) = Cross in this mode — listed under
+    //       `ambiguous` because it conflicts with BT mode (= PS).
     0x131: 'circle',       // BTN_EAST     — Circle
     0x136: 'l1',           // BTN_TL       — L1
     0x138: 'l2',           // BTN_TL2      — L2 (digital)
@@ -48,23 +63,27 @@ export const BUTTON_MAP: Record<number, Record<number, PSNavButton>> = {
     0x222: 'dpad_left',    // BTN_DPAD_LEFT
     0x223: 'dpad_right',   // BTN_DPAD_RIGHT
   },
-};
 
-/** The ambiguous BTN_SOUTH (0x130) code — resolved based on detected input mode */
-export const AMBIGUOUS_BTN_SOUTH = 0x130;
-export const BTN_SOUTH_USB: PSNavButton = 'cross';   // USB / hid-sony
-export const BTN_SOUTH_BT: PSNavButton = 'ps';       // Bluetooth / hid-generic
+  /** The ambiguous BTN_SOUTH (0x130) code — resolved based on detected input mode */
+  ambiguous: {
+    0x130: { usb: 'cross', bluetooth: 'ps', unknown: 'ps' },
+  },
 
-export const AXIS_MAP: Record<number, Record<number, PSNavAxis>> = {
-  [EV_ABS]: {
-    0x00: 'stick_x',       // ABS_X   – left stick horizontal
-    0x01: 'stick_y',       // ABS_Y   – left stick vertical
-    0x02: 'l2_analog',     // ABS_Z   – L2 analog pressure
+  /**
+   * EV_ABS code → axis, with the raw range normalised to 0-255
+   *   USB / hid-sony:   0..255 (center 128)
+   *   BT / hid-generic: -127..127 (center 0)
+   * Until the mode is detected, values are taken as USB.
+   */
+  axes: {
+    0x00: { axis: 'stick_x',   range: STICK_RANGE },   // ABS_X – left stick horizontal
+    0x01: { axis: 'stick_y',   range: STICK_RANGE },   // ABS_Y – left stick vertical
+    0x02: { axis: 'l2_analog', range: STICK_RANGE },   // ABS_Z – L2 analog pressure
   },
-};
 
-// D-pad as axis (hat) — hid-sony driver exposes D-pad as ABS_HAT0X / ABS_HAT0Y
-export const DPAD_AXIS_MAP: Record<number, { neg: PSNavButton; pos: PSNavButton }> = {
-  0x10: { neg: 'dpad_left', pos: 'dpad_right' },  // ABS_HAT0X
-  0x11: { neg: 'dpad_up',   pos: 'dpad_down' },   // ABS_HAT0Y
+  // D-pad as axis (hat) — hid-sony driver exposes D-pad as ABS_HAT0X / ABS_HAT0Y
+  hats: {
+    0x10: { neg: 'dpad_left', pos: 'dpad_right' },  // ABS_HAT0X
+    0x11: { neg: 'dpad_up',   pos: 'dpad_down' },   // ABS_HAT0Y
+  },
 };
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import {
+  PSNAV_AXES,
+  PSNavAxis,
+  InputMode,
+  AxisCalibration,
+  CalibrationProfile,
+  CalibrationProgress,
+  CalibrationStep,
+} from './types';
+
+// ─── Per-controller stick / L2 calibration ──────────────────────────────────
+//
+// Worn controllers drift past the nominal raw range and never reach full
+// scale. A calibration records each axis' real min, max and rest center in
+// raw device units, and InputMapper maps raw → 0-255 with it (before the
+// deadzone) instead of the mapping profile's nominal range:
+//
+//   sticks:    min..center → 0..128,  center..max → 128..255
+//   l2_analog: center (released)..max → 0..255
+//
+// Calibrations are stored as JSON, one file per controller (keyed by MAC),
+// and only applied in the input mode they were recorded in, since USB and
+// Bluetooth report different raw units.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Map a raw axis value to 0-255 using a calibration */
+export function applyCalibration(axis: PSNavAxis, cal: AxisCalibration, raw: number): number {
+  const value = Math.max(cal.min, Math.min(cal.max, raw));
+  if (axis === 'l2_analog') {
+    return Math.round(((value - cal.center) / (cal.max - cal.center)) * 255);
+  }
+  if (value <= cal.center) {
+    return Math.round(((value - cal.min) / (cal.center - cal.min)) * 128);
+  }
+  return Math.round(128 + ((value - cal.center) / (cal.max - cal.center)) * 127);
+}
+
+// ─── Storage ────────────────────────────────────────────────────────────────
+
+/** Thrown for a calibration file that does not pass the schema check */
+export class CalibrationError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid calibration ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'CalibrationError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const INPUT_MODES: InputMode[] = ['unknown', 'usb', 'bluetooth'];
+
+/**
+ * Check a parsed calibration file, so a hand-edited or truncated one cannot
+ * divide by zero in applyCalibration. Collects every problem before throwing
+ * a CalibrationError.
+ */
+export function parseCalibration(json: unknown, source: string): CalibrationProfile {
+  if (!isObject(json)) throw new CalibrationError(source, ['a calibration must be a JSON object']);
+
+  const problems: string[] = [];
+  if (typeof json.controllerId !== 'string' || !json.controllerId) problems.push('"controllerId" must be a non-empty string');
+  if (!INPUT_MODES.includes(json.inputMode as InputMode)) problems.push(`"inputMode" must be one of ${INPUT_MODES.join(', ')}`);
+  if (typeof json.createdAt !== 'number' || !Number.isFinite(json.createdAt)) problems.push('"createdAt" must be a number');
+
+  const axes: CalibrationProfile['axes'] = {};
+  if (!isObject(json.axes)) {
+    problems.push('"axes" must be an object of axis → { min, max, center }');
+  } else {
+    for (const [axis, value] of Object.entries(json.axes)) {
+      if (!PSNAV_AXES.includes(axis as PSNavAxis)) {
+        problems.push(`axes: unknown axis "${axis}" (expected one of ${PSNAV_AXES.join(', ')})`);
+        continue;
+      }
+      const { min, max, center } = isObject(value) ? value : {};
+      if (![min, max, center].every((n) => typeof n === 'number' && Number.isFinite(n))) {
+        problems.push(`axes.${axis}: min, max and center must be numbers`);
+        continue;
+      }
+      const cal = { min, max, center } as AxisCalibration;
+      // L2 rests at the bottom of its range; a stick rests strictly inside it
+      const valid = axis === 'l2_analog'
+        ? cal.min <= cal.center && cal.center < cal.max
+        : cal.min < cal.center && cal.center < cal.max;
+      if (!valid) {
+        problems.push(`axes.${axis}: expected min ${axis === 'l2_analog' ? '<=' : '<'} center < max, got ${cal.min} / ${cal.center} / ${cal.max}`);
+        continue;
+      }
+      axes[axis as PSNavAxis] = cal;
+    }
+  }
+
+  if (problems.length > 0) throw new CalibrationError(source, problems);
+  return { controllerId: json.controllerId as string, inputMode: json.inputMode as InputMode, axes, createdAt: json.createdAt as number };
+}
+
+/** Loads and saves calibration profiles, one JSON file per controller */
+export class CalibrationStore {
+  private cache = new Map<string, CalibrationProfile | null>();
+
+  constructor(public readonly dir: string) {}
+
+  private fileFor(controllerId: string): string {
+    return path.join(this.dir, `${controllerId.replace(/[^0-9a-z]+/gi, '_')}.json`);
+  }
+
+  /** Saved calibration of a controller, or null if it was never calibrated */
+  get(controllerId: string): CalibrationProfile | null {
+    if (this.cache.has(controllerId)) return this.cache.get(controllerId)!;
+
+    let profile: CalibrationProfile | null = null;
+    const file = this.fileFor(controllerId);
+    try {
+      profile = parseCalibration(JSON.parse(fs.readFileSync(file, 'utf-8')), file);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[calibration] Ignoring calibration of ${controllerId}: ${(err as Error).message}`);
+      }
+    }
+    this.cache.set(controllerId, profile);
+    return profile;
+  }
+
+  save(profile: CalibrationProfile): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.fileFor(profile.controllerId), JSON.stringify(profile, null, 2) + '\n');
+    this.cache.set(profile.controllerId, profile);
+    console.log(`[calibration] Saved calibration of ${profile.controllerId} to ${this.fileFor(profile.controllerId)}`);
+  }
+}
+
+// ─── Guided calibration flow ────────────────────────────────────────────────
+
+const CENTER_STEP_MS = 2000;
+const RANGE_STEP_MS = 8000;
+const PROGRESS_INTERVAL_MS = 250;
+
+/** A usable calibration must cover at least this share of the nominal range */
+const MIN_RANGE_COVERAGE = 0.5;
+
+const STEP_MESSAGES: Record<CalibrationStep, string> = {
+  center: 'Let go of the stick and L2 and keep the controller still',
+  range: 'Rotate the stick along all edges and fully press L2 a few times',
+};
+
+export interface CalibrationSessionOptions {
+  controllerId: string;
+  inputMode: InputMode;
+  /** Nominal raw [min, max] per axis from the mapping profile */
+  nominal: Partial<Record<PSNavAxis, [number, number]>>;
+  /** Last raw value seen per axis — evdev only reports changes, so an axis at rest may send nothing */
+  initial: Partial<Record<PSNavAxis, number>>;
+}
+
+export declare interface CalibrationSession {
+  on(event: 'progress', listener: (progress: CalibrationProgress) => void): this;
+  on(event: 'done', listener: (profile: CalibrationProfile) => void): this;
+  on(event: 'failed', listener: (reason: string) => void): this;
+}
+
+/**
+ * Two timed steps: 'center' samples the rest position, 'range' records the
+ * extremes. Feed it the raw value of every axis event while it runs.
+ */
+export class CalibrationSession extends EventEmitter {
+  readonly controllerId: string;
+  private opts: CalibrationSessionOptions;
+  private step: CalibrationStep = 'center';
+  private startedAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private finished = false;
+
+  private centerSamples: Partial<Record<PSNavAxis, number[]>> = {};
+  private seen: Partial<Record<PSNavAxis, { min: number; max: number }>> = {};
+
+  constructor(opts: CalibrationSessionOptions) {
+    super();
+    this.opts = opts;
+    this.controllerId = opts.controllerId;
+  }
+
+  start(): void {
+    this.startedAt = Date.now();
+    this.timer = setInterval(() => this.tick(), PROGRESS_INTERVAL_MS);
+    this.reportProgress();
+  }
+
+  cancel(reason = 'cancelled'): void {
+    if (this.finished) return;
+    this.finish();
+    this.emit('failed', reason);
+  }
+
+  feed(axis: PSNavAxis, raw: number): void {
+    if (this.finished) return;
+    if (this.step === 'center') {
+      (this.centerSamples[axis] ??= []).push(raw);
+    } else {
+      const seen = this.seen[axis];
+      this.seen[axis] = seen ? { min: Math.min(seen.min, raw), max: Math.max(seen.max, raw) } : { min: raw, max: raw };
+    }
+  }
+
+  private tick(): void {
+    const elapsed = Date.now() - this.startedAt;
+    if (this.step === 'center' && elapsed >= CENTER_STEP_MS) {
+      this.step = 'range';
+      // Seed the range with the rest position so axes nobody touched still fail cleanly
+      for (const axis of PSNAV_AXES) {
+        const center = this.centerOf(axis);
+        if (center !== null) this.seen[axis] = { min: center, max: center };
+      }
+    } else if (this.step === 'range' && elapsed >= CENTER_STEP_MS + RANGE_STEP_MS) {
+      this.complete();
+      return;
+    }
+    this.reportProgress();
+  }
+
+  private reportProgress(): void {
+    const elapsed = Date.now() - this.startedAt;
+    this.emit('progress', {
+      controllerId: this.controllerId,
+      step: this.step,
+      message: STEP_MESSAGES[this.step],
+      progress: Math.min(1, elapsed / (CENTER_STEP_MS + RANGE_STEP_MS)),
+    });
+  }
+
+  /** Rest position: median of the samples, else the last value seen before the flow */
+  private centerOf(axis: PSNavAxis): number | null {
+    const samples = this.centerSamples[axis];
+    if (samples && samples.length > 0) {
+      const sorted = [...samples].sort((a, b) => a - b);
+      return sorted[Math.floor(sorted.length / 2)];
+    }
+    return this.opts.initial[axis] ?? null;
+  }
+
+  private complete(): void {
+    this.finish();
+
+    const axes: CalibrationProfile['axes'] = {};
+    const problems: string[] = [];
+
+    for (const axis of PSNAV_AXES) {
+      const nominal = this.opts.nominal[axis];
+      if (!nominal) continue;
+      const span = nominal[1] - nominal[0];
+
+      const seen = this.seen[axis];
+      // An untouched L2 rests at the bottom of its range
+      const center = axis === 'l2_analog' ? (seen?.min ?? null) : this.centerOf(axis);
+      if (!seen || center === null) {
+        problems.push(`${axis}: no movement recorded`);
+        continue;
+      }
+      if (seen.max - seen.min < span * MIN_RANGE_COVERAGE) {
+        problems.push(`${axis}: only ${Math.round(((seen.max - seen.min) / span) * 100)}% of the range was covered`);
+        continue;
+      }
+      if (axis !== 'l2_analog' && (center <= seen.min || center >= seen.max)) {
+        problems.push(`${axis}: rest position ${center} is at the edge of the recorded range`);
+        continue;
+      }
+      axes[axis] = { min: seen.min, max: seen.max, center };
+    }
+
+    if (problems.length > 0) {
+      this.emit('failed', problems.join('; '));
+      return;
+    }
+
+    this.emit('done', {
+      controllerId: this.controllerId,
+      inputMode: this.opts.inputMode,
+      axes,
+      createdAt: Date.now(),
+    });
+  }
+
+  private finish(): void {
+    this.finished = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
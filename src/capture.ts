@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CaptureHeader, DeviceInfo, InputMode, InputModeDetection, RawInputEvent } from './types';
+
+// ─── Input captures ─────────────────────────────────────────────────────────
+//
+// A capture is what a controller's input source produced, before any mapping:
+// an NDJSON file whose first line is a CaptureHeader (controller, device and
+// its sysfs identity) and every other line one raw event with its kernel
+// timestamp:
+//
+//   {"kind":"psnav-capture","version":1,"controllerId":"aa:bb:…","device":"/dev/input/event5",…}
+//   {"timeSec":1707840000,"timeUsec":123456,"type":3,"code":0,"value":200}
+//   {"timeSec":1707840000,"timeUsec":123456,"type":0,"code":0,"value":0}
+//
+// Captures are replayed by ReplaySource through the same mapping pipeline, so
+// a recorded session behaves exactly like the controller did.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Capture {
+  header: CaptureHeader;
+  events: RawInputEvent[];
+}
+
+/** File name for a new capture of a controller: <controllerId>-<time>.ndjson */
+export function captureFileName(dir: string, controllerId: string, at = new Date()): string {
+  const id = controllerId.replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^_+|_+$/g, '') || 'controller';
+  const time = at.toISOString().replace(/[:.]/g, '-');
+  return path.join(dir, `${id}-${time}.ndjson`);
+}
+
+/**
+ * Writes one controller's raw events to a capture file. The file is created
+ * up front, so the constructor throws if it exists or cannot be created.
+ */
+export class CaptureRecorder {
+  private stream: fs.WriteStream;
+  private count = 0;
+
+  constructor(public readonly file: string, header: Omit<CaptureHeader, 'kind' | 'version'>) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const fd = fs.openSync(file, 'wx');
+    this.stream = fs.createWriteStream(file, { fd });
+    this.stream.on('error', (err) => console.error(`[capture] Cannot write ${file}: ${err.message}`));
+    const full: CaptureHeader = { kind: 'psnav-capture', version: 1, ...header };
+    this.stream.write(JSON.stringify(full) + '\n');
+  }
+
+  /** Number of raw events written so far */
+  get events(): number {
+    return this.count;
+  }
+
+  write(raw: RawInputEvent): void {
+    const { timeSec, timeUsec, type, code, value } = raw;
+    this.stream.write(JSON.stringify({ timeSec, timeUsec, type, code, value }) + '\n');
+    this.count++;
+  }
+
+  close(): void {
+    this.stream.end();
+  }
+}
+
+function isRawEvent(value: unknown): value is RawInputEvent {
+  if (typeof value !== 'object' || value === null) return false;
+  const event = value as Record<string, unknown>;
+  return ['timeSec', 'timeUsec', 'type', 'code', 'value'].every((k) => Number.isFinite(event[k]));
+}
+
+const DEVICE_INFO_FIELDS: (keyof DeviceInfo)[] = ['name', 'vendor', 'product', 'bustype', 'driver', 'uniq', 'phys', 'absCapabilities'];
+const INPUT_MODES: InputMode[] = ['unknown', 'usb', 'bluetooth'];
+
+function isDeviceInfo(value: unknown): value is DeviceInfo {
+  if (typeof value !== 'object' || value === null) return false;
+  const info = value as Record<string, unknown>;
+  return DEVICE_INFO_FIELDS.every((k) => typeof info[k] === 'string');
+}
+
+function isInputModeDetection(value: unknown): value is InputModeDetection {
+  if (typeof value !== 'object' || value === null) return false;
+  const detection = value as Record<string, unknown>;
+  return INPUT_MODES.includes(detection.mode as InputMode) && typeof detection.reason === 'string';
+}
+
+/** Read and validate a capture file; throws with the file and line on bad input */
+export function loadCapture(file: string): Capture {
+  const lines = fs.readFileSync(file, 'utf-8').split('\n');
+  const fail = (line: number, message: string): never => {
+    throw new Error(`${file}:${line}: ${message}`);
+  };
+  const parse = (line: number): unknown => {
+    try {
+      return JSON.parse(lines[line - 1]);
+    } catch (err) {
+      return fail(line, `not JSON (${(err as Error).message})`);
+    }
+  };
+
+  const header = parse(1) as Partial<CaptureHeader>;
+  if (header?.kind !== 'psnav-capture') fail(1, 'not a capture file (no psnav-capture header)');
+  if (header.version !== 1) fail(1, `unsupported capture version ${JSON.stringify(header.version)}`);
+  if (typeof header.controllerId !== 'string' || !header.controllerId) fail(1, 'header has no controllerId');
+  // Both reach the mapper as the replayed source's identity
+  if (header.deviceInfo !== null && !isDeviceInfo(header.deviceInfo)) {
+    fail(1, `header deviceInfo must be null or have string fields ${DEVICE_INFO_FIELDS.join(', ')}`);
+  }
+  if (header.inputMode !== null && !isInputModeDetection(header.inputMode)) {
+    fail(1, `header inputMode must be null or { mode, reason } with mode one of ${INPUT_MODES.join(', ')}`);
+  }
+
+  const events: RawInputEvent[] = [];
+  for (let line = 2; line <= lines.length; line++) {
+    if (!lines[line - 1].trim()) continue;
+    const event = parse(line);
+    if (!isRawEvent(event)) fail(line, 'expected a raw event { timeSec, timeUsec, type, code, value }');
+    events.push(event as RawInputEvent);
+  }
+  return { header: header as CaptureHeader, events };
+}
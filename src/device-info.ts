@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DeviceInfo, InputModeDetection } from './types';
+
+// ─── sysfs device identity ──────────────────────────────────────────────────
+//
+// Every /dev/input/eventX has a sysfs node at /sys/class/input/eventX whose
+// `device` link points at the inputN device (name, uniq, phys, id/*). That
+// device's parent is the HID device, whose `driver` link names the kernel
+// driver that bound it: `sony` (hid-sony) or `hid-generic`.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const INPUT_SYSFS = '/sys/class/input';
+
+const BUS_USB = '0003';
+const BUS_BLUETOOTH = '0005';
+const ABS_HAT0X = 0x10;
+
+/** Read a sysfs attribute relative to /sys/class/input/eventX/device ('' if missing) */
+function readAttr(eventName: string, attr: string): string {
+  try {
+    return fs.readFileSync(path.join(INPUT_SYSFS, eventName, 'device', attr), 'utf-8').trim();
+  } catch {
+    return '';
+  }
+}
+
+/** Name of the kernel driver bound to the HID device behind an eventX node */
+function readDriver(eventName: string): string {
+  try {
+    return path.basename(fs.readlinkSync(path.join(INPUT_SYSFS, eventName, 'device', 'device', 'driver')));
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Read the identity of an input device from sysfs. Works for any path whose
+ * basename is an eventX node; fields are '' when sysfs has no answer (e.g.
+ * for a FIFO or a mock device).
+ */
+export function readDeviceInfo(devicePath: string): DeviceInfo {
+  const eventName = path.basename(devicePath);
+  return {
+    name: readAttr(eventName, 'name'),
+    vendor: readAttr(eventName, 'id/vendor').toLowerCase(),
+    product: readAttr(eventName, 'id/product').toLowerCase(),
+    bustype: readAttr(eventName, 'id/bustype').toLowerCase(),
+    driver: readDriver(eventName),
+    uniq: readAttr(eventName, 'uniq'),
+    phys: readAttr(eventName, 'phys'),
+    absCapabilities: readAttr(eventName, 'capabilities/abs'),
+  };
+}
+
+/** Is an EV_ABS code set in the sysfs capabilities bitmask? */
+export function hasAbsCapability(info: DeviceInfo, code: number): boolean {
+  const words = info.absCapabilities.split(/\s+/).filter(Boolean).reverse();   // least significant first
+  const bitsPerWord = words.length > 0 ? words[0].length * 4 : 64;
+  const word = words[Math.floor(code / bitsPerWord)];
+  if (!word) return false;
+  return (BigInt(`0x${word}`) >> BigInt(code % bitsPerWord)) & 1n ? true : false;
+}
+
+/**
+ * Decide the input mode (which code layout the kernel driver produces) from
+ * sysfs when the device is opened, strongest signal first:
+ *   1. the HID driver: `sony` (hid-sony, USB layout) or `hid-generic` (BT layout)
+ *   2. the bus type: USB (0x03) or Bluetooth (0x05)
+ *   3. the ABS capabilities: only hid-sony exposes the D-pad as ABS_HAT0X
+ * The axis ranges (absinfo min/max) would be the natural fourth signal, but
+ * they are only available through the EVIOCGABS ioctl, not sysfs.
+ * Returns mode 'unknown' if sysfs has no answer (e.g. a FIFO or replay).
+ */
+export function detectInputMode(info: DeviceInfo): InputModeDetection {
+  if (info.driver === 'sony') return { mode: 'usb', reason: 'sysfs: hid-sony driver' };
+  if (info.driver === 'hid-generic') return { mode: 'bluetooth', reason: 'sysfs: hid-generic driver' };
+  if (info.bustype === BUS_USB) return { mode: 'usb', reason: 'sysfs: USB bus' };
+  if (info.bustype === BUS_BLUETOOTH) return { mode: 'bluetooth', reason: 'sysfs: Bluetooth bus' };
+  if (hasAbsCapability(info, ABS_HAT0X)) return { mode: 'usb', reason: 'sysfs: D-pad hat axes (hid-sony)' };
+  return { mode: 'unknown', reason: 'not in sysfs — detected from the first input' };
+}
@@ -1,18 +1,8 @@
 import * as fs from 'fs';
 import { EventEmitter } from 'events';
-import {
-  RawInputEvent,
-  PSNavEvent,
-  PSNavButtonEvent,
-  PSNavAxisEvent,
-  EV_SYN,
-  EV_KEY,
-  EV_ABS,
-} from './types';
-import {
-  BUTTON_MAP, AXIS_MAP, DPAD_AXIS_MAP,
-  AMBIGUOUS_BTN_SOUTH, BTN_SOUTH_USB, BTN_SOUTH_BT,
-} from './button-map';
+import { RawInputEvent, DeviceInfo } from './types';
+import { readDeviceInfo } from './device-info';
+import type { InputSource } from './input-source';
 
 // ─── Linux input_event struct ───────────────────────────────────────────────
 // On 64-bit (Raspberry Pi OS 64-bit / aarch64):
@@ -30,51 +20,56 @@ import {
 const EVENT_SIZE_64 = 24;
 const EVENT_SIZE_32 = 16;
 
+// A stick sweep produces several events per 10ms report; reading up to 64 at
+// once drains a burst in one syscall instead of one libuv round trip each.
+const DEFAULT_READ_BATCH_SIZE = 64;
+
 export interface EvdevReaderOptions {
   /** Path to the input device, e.g. /dev/input/event5 */
   devicePath: string;
+  /** Stable controller identity (default: devicePath) */
+  controllerId?: string;
   /** Set true if running 32-bit OS (default: false = 64-bit) */
   is32bit?: boolean;
+  /** Max events read per read() call (default: 64) */
+  readBatchSize?: number;
 }
 
 export declare interface EvdevReader {
   on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
-  on(event: 'nav', listener: (nav: PSNavEvent) => void): this;
   on(event: 'open', listener: () => void): this;
   on(event: 'close', listener: (reason: string) => void): this;
   on(event: 'error', listener: (err: Error) => void): this;
 }
 
-export class EvdevReader extends EventEmitter {
+/** Input source reading input_event structs from an evdev device (or a FIFO) */
+export class EvdevReader extends EventEmitter implements InputSource {
   private fd: number | null = null;
   private reading = false;
-  private devicePath: string;
+  public readonly devicePath: string;
+  public readonly controllerId: string;
   private eventSize: number;
   private buf: Buffer;
-
-  // Track D-pad hat axis state for proper press/release
-  private dpadState: Record<number, number> = {};
-
-  // Track last emitted stick values to suppress redundant deadzone events
-  private lastStickValue: Record<string, number> = {};
-
-  // Auto-detected input mode: USB (hid-sony) vs Bluetooth (hid-generic joystick)
-  // USB axes: 0-255 (center 128)   |  BT axes: -127..127 (center 0)
-  // USB buttons: 0x130+ (hid-sony) |  BT buttons: 0x120+ (generic joystick)
-  private inputMode: 'unknown' | 'usb' | 'bluetooth' = 'unknown';
-
-  // ─── Stick deadzone ─────────────────────────────────────────────────────
-  // Values within [DEADZONE_MIN, DEADZONE_MAX] are clamped to DEADZONE_CENTER.
-  // Events are only emitted when the clamped value actually changes.
-  private static readonly DEADZONE_MIN = 118;
-  private static readonly DEADZONE_MAX = 138;
-  private static readonly DEADZONE_CENTER = 128;
+  // Bytes of a partial input_event left at the start of buf by the last read
+  // (evdev only returns whole events, but FIFOs and replays may split them)
+  private carry = 0;
+  // sysfs identity, read when the device is opened
+  private info: DeviceInfo | null = null;
 
   constructor(opts: EvdevReaderOptions) {
     super();
     this.devicePath = opts.devicePath;
+    this.controllerId = opts.controllerId ?? opts.devicePath;
     this.eventSize = opts.is32bit ? EVENT_SIZE_32 : EVENT_SIZE_64;
-    this.buf = Buffer.alloc(this.eventSize);
+    this.buf = Buffer.alloc(this.eventSize * Math.max(1, opts.readBatchSize ?? DEFAULT_READ_BATCH_SIZE));
+  }
+
+  get device(): string {
+    return this.devicePath;
+  }
+
+  get deviceInfo(): DeviceInfo | null {
+    return this.info;
   }
 
   /** Open the device and start the read loop */
@@ -92,8 +87,10 @@ export class EvdevReader extends EventEmitter {
     }
 
     this.reading = true;
+    this.carry = 0;
+    this.info = readDeviceInfo(this.devicePath);
+    console.log(`[evdev] Opened ${this.devicePath} [${this.controllerId}] (event size: ${this.eventSize} bytes)`);
     this.emit('open');
-    console.log(`[evdev] Opened ${this.devicePath} (event size: ${this.eventSize} bytes)`);
     this.readLoop();
   }
 
@@ -114,8 +111,9 @@ export class EvdevReader extends EventEmitter {
   private readLoop(): void {
     if (!this.reading || this.fd === null) return;
 
-    fs.read(this.fd, this.buf, 0, this.eventSize, null, (err, bytesRead) => {
-      if (err) {
+    const offset = this.carry;
+    fs.read(this.fd, this.buf, offset, this.buf.length - offset, null, (err, bytesRead) => {
+      if (err || bytesRead === 0) {
         if (this.reading) {
           this.reading = false;
           // Close the fd to prevent leak
@@ -123,17 +121,21 @@ export class EvdevReader extends EventEmitter {
             try { fs.closeSync(this.fd); } catch { /* ignore */ }
             this.fd = null;
           }
-          this.emit('error', err);
-          this.emit('close', err.message);
+          if (err) this.emit('error', err);
+          this.emit('close', err ? err.message : 'end of stream');
         }
         return;
       }
 
-      if (bytesRead === this.eventSize) {
-        const raw = this.parseEvent(this.buf);
+      // Parse every complete struct; keep a trailing partial one for next time
+      const available = offset + bytesRead;
+      const complete = available - (available % this.eventSize);
+      for (let pos = 0; pos < complete && this.reading; pos += this.eventSize) {
+        const raw = this.parseEvent(this.buf, pos);
         this.emit('raw', raw);
-        this.mapAndEmit(raw);
       }
+      this.carry = available - complete;
+      if (this.carry > 0) this.buf.copy(this.buf, 0, complete, available);
 
       // Schedule next read (non-blocking via setImmediate)
       setImmediate(() => this.readLoop());
@@ -142,165 +144,23 @@ export class EvdevReader extends EventEmitter {
 
   // ─── Parse raw bytes into RawInputEvent ─────────────────────────────────
 
-  private parseEvent(buf: Buffer): RawInputEvent {
+  private parseEvent(buf: Buffer, pos: number): RawInputEvent {
     if (this.eventSize === EVENT_SIZE_64) {
       // 64-bit: timeval is two 64-bit ints (little-endian)
-      const timeSec = Number(buf.readBigUInt64LE(0));
-      const timeUsec = Number(buf.readBigUInt64LE(8));
-      const type = buf.readUInt16LE(16);
-      const code = buf.readUInt16LE(18);
-      const value = buf.readInt32LE(20);
+      const timeSec = Number(buf.readBigUInt64LE(pos));
+      const timeUsec = Number(buf.readBigUInt64LE(pos + 8));
+      const type = buf.readUInt16LE(pos + 16);
+      const code = buf.readUInt16LE(pos + 18);
+      const value = buf.readInt32LE(pos + 20);
       return { timeSec, timeUsec, type, code, value };
     } else {
       // 32-bit: timeval is two 32-bit ints
-      const timeSec = buf.readUInt32LE(0);
-      const timeUsec = buf.readUInt32LE(4);
-      const type = buf.readUInt16LE(8);
-      const code = buf.readUInt16LE(10);
-      const value = buf.readInt32LE(12);
+      const timeSec = buf.readUInt32LE(pos);
+      const timeUsec = buf.readUInt32LE(pos + 4);
+      const type = buf.readUInt16LE(pos + 8);
+      const code = buf.readUInt16LE(pos + 10);
+      const value = buf.readInt32LE(pos + 12);
       return { timeSec, timeUsec, type, code, value };
     }
   }
-
-  // ─── Map raw event to PS Navigation event ───────────────────────────────
-
-  private mapAndEmit(raw: RawInputEvent): void {
-    const now = Date.now();
-
-    // Skip sync events
-    if (raw.type === EV_SYN) return;
-
-    // ── Auto-detect input mode ──
-    // Bluetooth axes range -127..127 (negative values impossible in USB 0..255)
-    // Button codes in 0x121..0x12e are unique to BT; 0x131..0x13d to USB.
-    if (this.inputMode === 'unknown') {
-      if (raw.type === EV_ABS && raw.value < 0) {
-        this.inputMode = 'bluetooth';
-        console.log('[evdev] Auto-detected Bluetooth mode (negative axis value)');
-      } else if (raw.type === EV_ABS && raw.value > 127) {
-        this.inputMode = 'usb';
-        console.log('[evdev] Auto-detected USB mode (axis value > 127)');
-      } else if (raw.type === EV_KEY && raw.code >= 0x121 && raw.code <= 0x12e) {
-        this.inputMode = 'bluetooth';
-        console.log('[evdev] Auto-detected Bluetooth mode (BT-only button code)');
-      } else if (raw.type === EV_KEY && raw.code >= 0x131 && raw.code <= 0x13d) {
-        this.inputMode = 'usb';
-        console.log('[evdev] Auto-detected USB mode (USB-only button code)');
-      }
-    }
-
-    // ── Button events ──
-    if (raw.type === EV_KEY) {
-      // Handle the ambiguous BTN_SOUTH (0x130): Cross in USB, PS in Bluetooth
-      if (raw.code === AMBIGUOUS_BTN_SOUTH) {
-        const button = this.inputMode === 'usb' ? BTN_SOUTH_USB : BTN_SOUTH_BT;
-        const evt: PSNavButtonEvent = {
-          kind: 'button',
-          button,
-          pressed: raw.value !== 0,
-          timestamp: now,
-        };
-        this.emit('nav', evt);
-        return;
-      }
-
-      const buttonMap = BUTTON_MAP[EV_KEY];
-      if (buttonMap && raw.code in buttonMap) {
-        const evt: PSNavButtonEvent = {
-          kind: 'button',
-          button: buttonMap[raw.code],
-          pressed: raw.value !== 0,  // 1 = pressed, 0 = released, 2 = repeat
-          timestamp: now,
-        };
-        this.emit('nav', evt);
-        return;
-      }
-    }
-
-    // ── Axis events ──
-    if (raw.type === EV_ABS) {
-      // Check D-pad hat axes first (USB/hid-sony only)
-      if (raw.code in DPAD_AXIS_MAP) {
-        this.handleDpadAxis(raw, now);
-        return;
-      }
-
-      const axisMap = AXIS_MAP[EV_ABS];
-      if (axisMap && raw.code in axisMap) {
-        const axis = axisMap[raw.code];
-
-        // Normalize axis value to 0-255 range
-        // USB / hid-sony:  0..255 (center 128)  — no conversion needed
-        // BT / hid-generic: -127..127 (center 0) — normalize to 0..255
-        let value = raw.value;
-        if (this.inputMode === 'bluetooth') {
-          value = Math.round(((value + 127) / 254) * 255);
-        }
-        value = Math.max(0, Math.min(255, value));
-
-        // Apply deadzone: clamp values in [118, 138] to 128
-        const clamped =
-          (value >= EvdevReader.DEADZONE_MIN && value <= EvdevReader.DEADZONE_MAX)
-            ? EvdevReader.DEADZONE_CENTER
-            : value;
-
-        // Only emit when the clamped value actually changes
-        if (this.lastStickValue[axis] === clamped) return;
-        this.lastStickValue[axis] = clamped;
-
-        const evt: PSNavAxisEvent = {
-          kind: 'axis',
-          axis,
-          value: clamped,
-          timestamp: now,
-        };
-        this.emit('nav', evt);
-        return;
-      }
-    }
-  }
-
-  // ─── Handle D-pad hat axes (ABS_HAT0X / ABS_HAT0Y) ─────────────────────
-
-  private handleDpadAxis(raw: RawInputEvent, now: number): void {
-    const mapping = DPAD_AXIS_MAP[raw.code];
-    if (!mapping) return;
-
-    const prev = this.dpadState[raw.code] ?? 0;
-    this.dpadState[raw.code] = raw.value;
-
-    // Release previous direction
-    if (prev < 0) {
-      this.emit('nav', {
-        kind: 'button',
-        button: mapping.neg,
-        pressed: false,
-        timestamp: now,
-      } as PSNavButtonEvent);
-    } else if (prev > 0) {
-      this.emit('nav', {
-        kind: 'button',
-        button: mapping.pos,
-        pressed: false,
-        timestamp: now,
-      } as PSNavButtonEvent);
-    }
-
-    // Press new direction
-    if (raw.value < 0) {
-      this.emit('nav', {
-        kind: 'button',
-        button: mapping.neg,
-        pressed: true,
-        timestamp: now,
-      } as PSNavButtonEvent);
-    } else if (raw.value > 0) {
-      this.emit('nav', {
-        kind: 'button',
-        button: mapping.pos,
-        pressed: true,
-        timestamp: now,
-      } as PSNavButtonEvent);
-    }
-  }
 }
@@ -0,0 +1,155 @@
+import {
+  PSNAV_AXES,
+  PSNAV_BUTTONS,
+  PSNAV_GESTURE_TYPES,
+  PSNAV_STICK_BUTTONS,
+  NavFilter,
+  PSNavAxis,
+  PSNavAxisEvent,
+  PSNavButton,
+  PSNavFrameEvent,
+  PSNavGestureType,
+} from './types';
+
+// ─── Per-socket event filter ────────────────────────────────────────────────
+//
+// A socket can narrow what it is sent with subscribe:filter — some buttons,
+// some axes, some raw event types, some gestures — and cap how often each
+// axis is sent. A capped axis is combined on the server: changes inside the
+// interval replace each other and only the latest value goes out when the
+// interval is up, so a slow client never works through a backlog.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ResolvedFilter {
+  /** null: no filter on that kind */
+  buttons: Set<PSNavButton> | null;
+  axes: Set<PSNavAxis> | null;
+  raw: Set<number> | null;
+  gestures: Set<PSNavGestureType> | null;
+  /** Minimum ms between two nav:axis updates of an axis; absent axes are not capped */
+  axisIntervalMs: Partial<Record<PSNavAxis, number>>;
+}
+
+function resolveList<T>(
+  value: unknown,
+  known: readonly T[] | null,
+  name: string,
+  warnings: string[],
+): Set<T> | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) {
+    warnings.push(`${name} must be a list — not filtering ${name}`);
+    return null;
+  }
+  const result = new Set<T>();
+  for (const item of value) {
+    if (known ? known.includes(item) : typeof item === 'number') result.add(item as T);
+    else warnings.push(`unknown ${name} entry ${JSON.stringify(item)}`);
+  }
+  return result;
+}
+
+function validRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Validate a filter from a client. Unknown entries are dropped and reported
+ * as warnings.
+ */
+export function resolveNavFilter(filter: NavFilter): { filter: ResolvedFilter; warnings: string[] } {
+  const warnings: string[] = [];
+  const resolved: ResolvedFilter = {
+    buttons: resolveList(filter.buttons, [...PSNAV_BUTTONS, ...PSNAV_STICK_BUTTONS], 'buttons', warnings),
+    axes: resolveList(filter.axes, PSNAV_AXES, 'axes', warnings),
+    raw: resolveList(filter.raw, null, 'raw', warnings),
+    gestures: resolveList(filter.gestures, PSNAV_GESTURE_TYPES, 'gestures', warnings),
+    axisIntervalMs: {},
+  };
+
+  const rate = filter.axisRateHz;
+  if (validRate(rate)) {
+    for (const axis of PSNAV_AXES) resolved.axisIntervalMs[axis] = 1000 / rate;
+  } else if (typeof rate === 'object' && rate !== null) {
+    for (const [axis, hz] of Object.entries(rate)) {
+      if (!PSNAV_AXES.includes(axis as PSNavAxis)) warnings.push(`axisRateHz: unknown axis "${axis}"`);
+      else if (!validRate(hz)) warnings.push(`axisRateHz.${axis} must be a positive number`);
+      else resolved.axisIntervalMs[axis as PSNavAxis] = 1000 / hz;
+    }
+  } else if (rate !== undefined) {
+    warnings.push('axisRateHz must be a positive number or an object of axis → Hz');
+  }
+
+  return { filter: resolved, warnings };
+}
+
+/** A frame with only the changes the filter lets through, or null if none are left */
+export function filterFrame(filter: ResolvedFilter, frame: PSNavFrameEvent): PSNavFrameEvent | null {
+  const changes = frame.changes.filter((c) =>
+    c.kind === 'button' ? !filter.buttons || filter.buttons.has(c.button) : !filter.axes || filter.axes.has(c.axis),
+  );
+  if (changes.length === 0) return null;
+  return changes.length === frame.changes.length ? frame : { ...frame, changes };
+}
+
+interface ThrottledAxis {
+  lastSentAt: number;
+  pending: PSNavAxisEvent | null;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Rate cap for one socket's nav:axis updates, per controller and axis.
+ * push() sends right away if the axis' interval has passed, otherwise keeps
+ * the value (replacing any kept before) and sends it when the interval is up.
+ */
+export class AxisThrottle {
+  private axes = new Map<string, ThrottledAxis>();
+
+  constructor(
+    private readonly intervalMs: Partial<Record<PSNavAxis, number>>,
+    private readonly send: (evt: PSNavAxisEvent) => void,
+  ) {}
+
+  push(evt: PSNavAxisEvent): void {
+    const interval = this.intervalMs[evt.axis];
+    if (interval === undefined) {
+      this.send(evt);
+      return;
+    }
+
+    const key = `${evt.controllerId}\0${evt.axis}`;
+    let state = this.axes.get(key);
+    if (!state) {
+      state = { lastSentAt: -Infinity, pending: null, timer: null };
+      this.axes.set(key, state);
+    }
+
+    const now = Date.now();
+    if (!state.timer && now - state.lastSentAt >= interval) {
+      state.lastSentAt = now;
+      this.send(evt);
+      return;
+    }
+
+    state.pending = evt;
+    if (state.timer) return;
+    const held = state;
+    held.timer = setTimeout(() => {
+      held.timer = null;
+      held.lastSentAt = Date.now();
+      const latest = held.pending!;
+      held.pending = null;
+      this.send(latest);
+    }, held.lastSentAt + interval - now);
+  }
+
+  /** Drop pending values — of every controller (socket gone, filter replaced) or only one's (focus lost) */
+  stop(controllerId?: string): void {
+    for (const [key, state] of [...this.axes]) {
+      if (controllerId !== undefined && !key.startsWith(`${controllerId}\0`)) continue;
+      if (state.timer) clearTimeout(state.timer);
+      this.axes.delete(key);
+    }
+  }
+}
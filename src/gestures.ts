@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import {
+  PSNAV_BUTTONS,
+  PSNAV_STICK_BUTTONS,
+  PSNavButton,
+  PSNavEvent,
+  PSNavGestureEvent,
+  FlickDirection,
+} from './types';
+
+// ─── Gesture recognition ────────────────────────────────────────────────────
+//
+// One engine per controller, fed the nav events that are forwarded to
+// services (after the deadzone, without the PS press):
+//
+//   tap         press + release shorter than the long-press threshold
+//   double-tap  a second tap of the same button within the double-tap window
+//               (replaces that second tap — the first is still reported)
+//   long-press  held for the long-press threshold; fires while still held
+//   chord       a button pressed while others are held, e.g. L1+cross. Every
+//               button in a chord is consumed: no tap / long-press follows
+//   flick       the stick leaving center and reaching the flick distance
+//               within the flick time
+//
+// Synthetic releases (resync after dropped events) never produce gestures.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface GestureThresholds {
+  longPressMs: number;
+  doubleTapMs: number;
+  flickMs: number;
+  /** Stick distance from center (0..1) a flick must reach */
+  flickDistance: number;
+}
+
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  longPressMs: 500,
+  doubleTapMs: 300,
+  flickMs: 150,
+  flickDistance: 0.8,
+};
+
+const DIRECTIONS_8: FlickDirection[] = [
+  'right', 'down-right', 'down', 'down-left', 'left', 'up-left', 'up', 'up-right',
+];
+const DIRECTIONS_4: FlickDirection[] = ['right', 'down', 'left', 'up'];
+
+/** Direction of a stick angle (atan2(y, x), +y toward you) in 4 or 8 sectors */
+export function flickDirection(angle: number, directions: 4 | 8): FlickDirection {
+  const names = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const sector = Math.round(angle / ((2 * Math.PI) / names.length));
+  return names[((sector % names.length) + names.length) % names.length];
+}
+
+interface HeldButton {
+  pressedAt: number;
+  timer: NodeJS.Timeout | null;
+  /** Already part of a chord or long-press — its release is not a tap */
+  consumed: boolean;
+}
+
+export declare interface GestureEngine {
+  on(event: 'gesture', listener: (gesture: PSNavGestureEvent) => void): this;
+}
+
+export class GestureEngine extends EventEmitter {
+  readonly controllerId: string;
+  private thresholds: GestureThresholds;
+  private held = new Map<PSNavButton, HeldButton>();
+  /** Release time of each button's last tap, for double-tap */
+  private lastTap = new Map<PSNavButton, number>();
+
+  private stick = { x: 128, y: 128 };
+  private leftCenterAt: number | null = null;
+  private flickDone = false;
+
+  constructor(controllerId: string, thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS) {
+    super();
+    this.controllerId = controllerId;
+    this.thresholds = thresholds;
+  }
+
+  feed(evt: PSNavEvent): void {
+    if (evt.kind === 'button') {
+      if (evt.pressed) this.onPress(evt.button, evt.timestamp);
+      else this.onRelease(evt.button, evt.timestamp, evt.synthetic === true);
+    } else if (evt.axis !== 'l2_analog') {
+      this.onStick(evt.axis === 'stick_x' ? 'x' : 'y', evt.value, evt.timestamp, evt.synthetic === true);
+    }
+  }
+
+  /** Forget held buttons and pending timers (controller gone) */
+  reset(): void {
+    for (const held of this.held.values()) {
+      if (held.timer) clearTimeout(held.timer);
+    }
+    this.held.clear();
+    this.lastTap.clear();
+    this.stick = { x: 128, y: 128 };
+    this.leftCenterAt = null;
+    this.flickDone = false;
+  }
+
+  // ─── Buttons ────────────────────────────────────────────────────────────
+
+  private onPress(button: PSNavButton, timestamp: number): void {
+    if (this.held.has(button)) return;
+
+    if (this.held.size > 0) {
+      for (const other of this.held.values()) this.consume(other);
+      this.held.set(button, { pressedAt: timestamp, timer: null, consumed: true });
+      const buttons = [...PSNAV_BUTTONS, ...PSNAV_STICK_BUTTONS].filter((b) => this.held.has(b));
+      this.emitGesture('chord', buttons, 0, timestamp);
+      return;
+    }
+
+    const held: HeldButton = { pressedAt: timestamp, timer: null, consumed: false };
+    held.timer = setTimeout(() => {
+      held.timer = null;
+      held.consumed = true;
+      const { longPressMs } = this.thresholds;
+      this.emitGesture('long-press', [button], longPressMs, timestamp + longPressMs);
+    }, this.thresholds.longPressMs);
+    this.held.set(button, held);
+  }
+
+  private onRelease(button: PSNavButton, timestamp: number, synthetic: boolean): void {
+    const held = this.held.get(button);
+    if (!held) return;
+    this.held.delete(button);
+    if (held.timer) clearTimeout(held.timer);
+
+    if (synthetic || held.consumed) {
+      this.lastTap.delete(button);
+      return;
+    }
+
+    const duration = timestamp - held.pressedAt;
+    const lastTap = this.lastTap.get(button);
+    if (lastTap !== undefined && held.pressedAt - lastTap <= this.thresholds.doubleTapMs) {
+      this.lastTap.delete(button);
+      this.emitGesture('double-tap', [button], duration, timestamp);
+    } else {
+      this.lastTap.set(button, timestamp);
+      this.emitGesture('tap', [button], duration, timestamp);
+    }
+  }
+
+  private consume(held: HeldButton): void {
+    if (held.timer) clearTimeout(held.timer);
+    held.timer = null;
+    held.consumed = true;
+  }
+
+  // ─── Stick ──────────────────────────────────────────────────────────────
+
+  private onStick(axis: 'x' | 'y', value: number, timestamp: number, synthetic: boolean): void {
+    this.stick[axis] = value;
+    const x = (this.stick.x - 128) / 127;
+    const y = (this.stick.y - 128) / 127;
+    const distance = Math.min(1, Math.hypot(x, y));
+
+    // Back at rest (the deadzone snaps to exactly 128) — the next move may flick
+    if (distance === 0) {
+      this.leftCenterAt = null;
+      this.flickDone = false;
+      return;
+    }
+    if (synthetic) return;
+    if (this.leftCenterAt === null) this.leftCenterAt = timestamp;
+    if (this.flickDone || distance < this.thresholds.flickDistance) return;
+
+    // Either a flick or a slow push — only one chance per excursion
+    this.flickDone = true;
+    const duration = timestamp - this.leftCenterAt;
+    if (duration > this.thresholds.flickMs) return;
+
+    const angle = Math.atan2(y, x);
+    this.emitGesture('flick', [], duration, timestamp, angle);
+  }
+
+  private emitGesture(
+    gesture: PSNavGestureEvent['gesture'],
+    buttons: PSNavButton[],
+    duration: number,
+    timestamp: number,
+    angle?: number,
+  ): void {
+    const evt: PSNavGestureEvent = {
+      kind: 'gesture',
+      controllerId: this.controllerId,
+      gesture,
+      buttons,
+      duration,
+      timestamp,
+      dispatchedAt: Date.now(),
+    };
+    if (angle !== undefined) {
+      evt.angle = angle;
+      evt.direction = flickDirection(angle, 8);
+    }
+    this.emit('gesture', evt);
+  }
+}
@@ -0,0 +1,511 @@
+import { EventEmitter } from 'events';
+import {
+  RawInputEvent,
+  PSNavEvent,
+  PSNavButtonEvent,
+  PSNavAxisEvent,
+  PSNavFrameEvent,
+  PSNavButton,
+  PSNavAxis,
+  InputModeDetection,
+  DeviceInfo,
+  CalibrationProfile,
+  EV_SYN,
+  SYN_REPORT,
+  SYN_DROPPED,
+  EV_KEY,
+  EV_ABS,
+  PSNAV_AXIS_REST,
+} from './types';
+import { DEFAULT_PROFILE } from './button-map';
+import { MappingProfile, ProfileStore } from './mapping-profile';
+import { detectInputMode } from './device-info';
+import { CalibrationStore, applyCalibration } from './calibration';
+import { StickButtons, StickButtonOptions } from './stick-buttons';
+import { InputSource, kernelTime } from './input-source';
+
+// ─── Raw input → PS Navigation events ───────────────────────────────────────
+//
+// The mapping pipeline every input source feeds: raw evdev events in, mapped
+// 'nav' events, pre-deadzone 'analog' axes and per-report 'frame's out. It
+// owns everything that depends on the controller rather than on where the
+// bytes come from — input mode, mapping profile, calibration, deadzone,
+// virtual stick buttons and the SYN_DROPPED resync.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Event time fields shared by every mapped event and frame */
+type EventStamp = Pick<PSNavEvent, 'timestamp' | 'dispatchedAt'>;
+
+export interface InputMapperOptions {
+  /** Mapping profiles to pick from when the source opens (default: built-in profile only) */
+  profiles?: ProfileStore;
+  /** Saved calibrations, looked up by controllerId when the source opens */
+  calibrations?: CalibrationStore;
+  /** Emit virtual stick_up/down/left/right buttons (default: null = off) */
+  stickButtons?: StickButtonOptions | null;
+}
+
+export declare interface InputMapper {
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'nav', listener: (nav: PSNavEvent) => void): this;
+  on(event: 'analog', listener: (axis: PSNavAxisEvent) => void): this;
+  on(event: 'frame', listener: (frame: PSNavFrameEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'mode', listener: (detection: InputModeDetection) => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+export class InputMapper extends EventEmitter {
+  public readonly controllerId: string;
+
+  // Track D-pad hat axis state for proper press/release
+  private dpadState: Record<number, number> = {};
+
+  // Track last emitted stick values to suppress redundant deadzone events
+  private lastStickValue: Record<string, number> = {};
+
+  // Full mapped controller state + changes since the last SYN_REPORT,
+  // emitted together as a 'frame' when the report completes
+  private buttonState: Record<PSNavButton, boolean> = {
+    cross: false, circle: false,
+    l1: false, l2: false, l3: false,
+    dpad_up: false, dpad_down: false, dpad_left: false, dpad_right: false,
+    ps: false,
+    stick_up: false, stick_down: false, stick_left: false, stick_right: false,
+  };
+  private axisState: Record<PSNavAxis, number> = { ...PSNAV_AXIS_REST };
+  private pendingChanges: PSNavEvent[] = [];
+
+  // SYN_DROPPED handling: while set, events are discarded until the next
+  // SYN_REPORT, after which the state is resynchronised
+  private dropping = false;
+  private droppedFrameCount = 0;
+
+  // Input mode: USB (hid-sony) vs Bluetooth (hid-generic joystick)
+  // USB axes: 0-255 (center 128)   |  BT axes: -127..127 (center 0)
+  // USB buttons: 0x130+ (hid-sony) |  BT buttons: 0x120+ (generic joystick)
+  // Detected from the source's device identity (sysfs for evdev) when it
+  // opens; the value heuristics in mapAndEmit() are only a fallback when
+  // that has no answer.
+  private detection: InputModeDetection = { mode: 'unknown', reason: 'device not opened' };
+
+  // Mapping profile selected from the device identity when the source opens
+  private profiles: ProfileStore | null;
+  private deviceInfo: DeviceInfo | null = null;
+  private profile: MappingProfile = DEFAULT_PROFILE;
+
+  // Per-controller calibration (raw range + center), applied before the deadzone
+  private calibrations: CalibrationStore | null;
+  private calibration: CalibrationProfile | null = null;
+
+  // Last raw value per mapped axis (calibration needs the rest position even
+  // if the axis has not moved since)
+  private rawAxisValue: Partial<Record<PSNavAxis, number>> = {};
+
+  // Virtual stick direction buttons, thresholded on the pre-deadzone stick
+  private stickButtons: StickButtons | null;
+  private analogStick = { stick_x: 128, stick_y: 128 };
+
+  // ─── Stick deadzone ─────────────────────────────────────────────────────
+  // Values within [DEADZONE_MIN, DEADZONE_MAX] are clamped to DEADZONE_CENTER.
+  // Events are only emitted when the clamped value actually changes.
+  private static readonly DEADZONE_MIN = 118;
+  private static readonly DEADZONE_MAX = 138;
+  private static readonly DEADZONE_CENTER = 128;
+
+  constructor(public readonly source: InputSource, opts: InputMapperOptions = {}) {
+    super();
+    this.controllerId = source.controllerId;
+    this.profiles = opts.profiles ?? null;
+    this.calibrations = opts.calibrations ?? null;
+    this.stickButtons = opts.stickButtons ? new StickButtons(opts.stickButtons) : null;
+
+    source.on('open', () => this.onOpen());
+    source.on('raw', (raw) => {
+      this.emit('raw', raw);
+      this.mapAndEmit(raw);
+    });
+    source.on('error', (err) => this.emit('error', err));
+    source.on('close', (reason) => {
+      this.profiles?.off('change', this.onProfilesChanged);
+      this.emit('close', reason);
+    });
+  }
+
+  /** Start the source */
+  start(): void {
+    this.source.start();
+  }
+
+  /** Stop the source */
+  stop(): void {
+    this.source.stop();
+  }
+
+  /** Device path or name of the source */
+  get device(): string {
+    return this.source.device;
+  }
+
+  /** Current input mode and how it was detected */
+  get inputMode(): InputModeDetection {
+    return { ...this.detection };
+  }
+
+  /** Name of the mapping profile in use */
+  get profileName(): string {
+    return this.profile.name;
+  }
+
+  /** Calibration in use, or null if the nominal profile range is used */
+  get activeCalibration(): CalibrationProfile | null {
+    return this.calibration?.inputMode === this.detection.mode ? this.calibration : null;
+  }
+
+  /** Replace the calibration (e.g. after a calibration flow finished) */
+  setCalibration(calibration: CalibrationProfile | null): void {
+    this.calibration = calibration;
+  }
+
+  /** Axis an EV_ABS code maps to under the current profile, or null */
+  axisForCode(code: number): PSNavAxis | null {
+    return this.profile.axes[code]?.axis ?? null;
+  }
+
+  /** Nominal raw [min, max] of every mapped axis in the current input mode */
+  nominalRanges(): Partial<Record<PSNavAxis, [number, number]>> {
+    const result: Partial<Record<PSNavAxis, [number, number]>> = {};
+    for (const { axis, range } of Object.values(this.profile.axes)) {
+      result[axis] = range[this.detection.mode];
+    }
+    return result;
+  }
+
+  /** Last raw value seen per axis */
+  rawAxisValues(): Partial<Record<PSNavAxis, number>> {
+    return { ...this.rawAxisValue };
+  }
+
+  /** Number of SYN_DROPPED buffer overruns since the mapper was created */
+  get droppedFrames(): number {
+    return this.droppedFrameCount;
+  }
+
+  private onOpen(): void {
+    this.deviceInfo = this.source.deviceInfo;
+    this.detection = this.source.inputMode
+      ?? (this.deviceInfo ? detectInputMode(this.deviceInfo) : { mode: 'unknown', reason: 'no device identity — detected from the first input' });
+    this.selectProfile();
+    this.calibration = this.calibrations?.get(this.controllerId) ?? null;
+    this.profiles?.on('change', this.onProfilesChanged);
+    console.log(`[evdev] ${this.controllerId}: profile ${this.profile.name}, mode ${this.detection.mode} (${this.detection.reason})`);
+    this.emit('open');
+  }
+
+  // ─── Map raw event to PS Navigation event ───────────────────────────────
+
+  private mapAndEmit(raw: RawInputEvent): void {
+    const stamp: EventStamp = { timestamp: kernelTime(raw), dispatchedAt: Date.now() };
+
+    // SYN_DROPPED: the kernel buffer overflowed — discard everything up to
+    // and including the next SYN_REPORT, then resynchronise
+    if (raw.type === EV_SYN && raw.code === SYN_DROPPED) {
+      this.dropping = true;
+      this.droppedFrameCount++;
+      console.warn(`[evdev] SYN_DROPPED on ${this.source.device} [${this.controllerId}] — ${this.droppedFrameCount} dropped frame(s) total`);
+      return;
+    }
+
+    if (this.dropping) {
+      if (raw.type === EV_SYN && raw.code === SYN_REPORT) {
+        this.dropping = false;
+        this.resync(stamp, 'dropped events');
+        this.flushFrame(stamp);
+      }
+      return;
+    }
+
+    // SYN_REPORT closes a frame; other sync events are skipped
+    if (raw.type === EV_SYN) {
+      if (raw.code === SYN_REPORT) this.flushFrame(stamp);
+      return;
+    }
+
+    // ── Fallback input mode heuristic (sysfs had no answer) ──
+    // Bluetooth axes range -127..127 (negative values impossible in USB 0..255)
+    // Button codes in 0x121..0x12e are unique to BT; 0x131..0x13d to USB.
+    if (this.detection.mode === 'unknown') {
+      if (raw.type === EV_ABS && raw.value < 0) {
+        this.setDetection({ mode: 'bluetooth', reason: 'heuristic: negative axis value' });
+      } else if (raw.type === EV_ABS && raw.value > 127) {
+        this.setDetection({ mode: 'usb', reason: 'heuristic: axis value > 127' });
+      } else if (raw.type === EV_KEY && raw.code >= 0x121 && raw.code <= 0x12e) {
+        this.setDetection({ mode: 'bluetooth', reason: 'heuristic: BT-only button code' });
+      } else if (raw.type === EV_KEY && raw.code >= 0x131 && raw.code <= 0x13d) {
+        this.setDetection({ mode: 'usb', reason: 'heuristic: USB-only button code' });
+      }
+    }
+
+    const { buttons, ambiguous, axes, hats } = this.profile;
+
+    // ── Button events ──
+    if (raw.type === EV_KEY) {
+      // Kernel autorepeat (value 2) is driver-dependent — the hub repeats
+      // held buttons itself for services that ask (see auto-repeat.ts)
+      if (raw.value === 2) return;
+
+      // Codes whose meaning depends on the input mode, e.g. BTN_SOUTH (0x130):
+      // Cross in USB, PS in Bluetooth
+      if (raw.code in ambiguous) {
+        const button = ambiguous[raw.code][this.detection.mode];
+        const evt: PSNavButtonEvent = {
+          kind: 'button',
+          controllerId: this.controllerId,
+          button,
+          pressed: raw.value !== 0,
+          ...stamp,
+        };
+        this.emitNav(evt);
+        return;
+      }
+
+      if (raw.code in buttons) {
+        const evt: PSNavButtonEvent = {
+          kind: 'button',
+          controllerId: this.controllerId,
+          button: buttons[raw.code],
+          pressed: raw.value !== 0,  // 1 = pressed, 0 = released
+          ...stamp,
+        };
+        this.emitNav(evt);
+        return;
+      }
+    }
+
+    // ── Axis events ──
+    if (raw.type === EV_ABS) {
+      // Check D-pad hat axes first (USB/hid-sony only)
+      if (raw.code in hats) {
+        this.handleDpadAxis(raw, stamp);
+        return;
+      }
+
+      if (raw.code in axes) {
+        const { axis, range } = axes[raw.code];
+
+        this.rawAxisValue[axis] = raw.value;
+
+        // Normalize to 0-255 with the controller's calibration if it has one,
+        // otherwise with the profile's nominal raw range for the current mode
+        // e.g. USB / hid-sony 0..255 (unchanged), BT / hid-generic -127..127
+        const cal = this.activeCalibration?.axes[axis];
+        let value: number;
+        if (cal) {
+          value = applyCalibration(axis, cal, raw.value);
+        } else {
+          const [min, max] = range[this.detection.mode];
+          value = Math.round(((raw.value - min) / (max - min)) * 255);
+        }
+        value = Math.max(0, Math.min(255, value));
+
+        // Pre-deadzone values, for services with their own axis processing
+        const analog: PSNavAxisEvent = {
+          kind: 'axis',
+          controllerId: this.controllerId,
+          axis,
+          value,
+          ...stamp,
+        };
+        this.emit('analog', analog);
+
+        // Apply deadzone: clamp values in [118, 138] to 128
+        const clamped =
+          (value >= InputMapper.DEADZONE_MIN && value <= InputMapper.DEADZONE_MAX)
+            ? InputMapper.DEADZONE_CENTER
+            : value;
+
+        // Only emit when the clamped value actually changes
+        if (this.lastStickValue[axis] !== clamped) {
+          this.lastStickValue[axis] = clamped;
+          const evt: PSNavAxisEvent = {
+            kind: 'axis',
+            controllerId: this.controllerId,
+            axis,
+            value: clamped,
+            ...stamp,
+          };
+          this.emitNav(evt);
+        }
+
+        if (axis !== 'l2_analog') this.updateStickButtons(axis, value, stamp);
+        return;
+      }
+    }
+  }
+
+  // ─── Handle D-pad hat axes (ABS_HAT0X / ABS_HAT0Y) ─────────────────────
+
+  private handleDpadAxis(raw: RawInputEvent, stamp: EventStamp): void {
+    const mapping = this.profile.hats[raw.code];
+    if (!mapping) return;
+
+    const prev = this.dpadState[raw.code] ?? 0;
+    this.dpadState[raw.code] = raw.value;
+
+    // Release previous direction
+    if (prev < 0) {
+      this.emitNav({
+        kind: 'button',
+        controllerId: this.controllerId,
+        button: mapping.neg,
+        pressed: false,
+        ...stamp,
+      } as PSNavButtonEvent);
+    } else if (prev > 0) {
+      this.emitNav({
+        kind: 'button',
+        controllerId: this.controllerId,
+        button: mapping.pos,
+        pressed: false,
+        ...stamp,
+      } as PSNavButtonEvent);
+    }
+
+    // Press new direction
+    if (raw.value < 0) {
+      this.emitNav({
+        kind: 'button',
+        controllerId: this.controllerId,
+        button: mapping.neg,
+        pressed: true,
+        ...stamp,
+      } as PSNavButtonEvent);
+    } else if (raw.value > 0) {
+      this.emitNav({
+        kind: 'button',
+        controllerId: this.controllerId,
+        button: mapping.pos,
+        pressed: true,
+        ...stamp,
+      } as PSNavButtonEvent);
+    }
+  }
+
+  private setDetection(detection: InputModeDetection): void {
+    this.detection = detection;
+    console.log(`[evdev] ${this.controllerId}: ${detection.mode} mode (${detection.reason})`);
+    this.emit('mode', { ...detection });
+  }
+
+  // ─── Mapping profile selection ──────────────────────────────────────────
+
+  private selectProfile(): void {
+    if (!this.profiles || !this.deviceInfo) return;
+    this.profile = this.profiles.select(this.deviceInfo);
+  }
+
+  /** Profiles were reloaded — switch if a different one now fits this device */
+  private onProfilesChanged = (): void => {
+    const previous = this.profile;
+    this.selectProfile();
+    if (this.profile === previous) return;
+
+    console.log(`[evdev] ${this.controllerId}: mapping profile "${previous.name}" → "${this.profile.name}"`);
+    // Held inputs were mapped with the old profile — release them so nothing sticks
+    const now = Date.now();
+    this.resync({ timestamp: now, dispatchedAt: now }, 'mapping profile changed');
+    this.flushFrame({ timestamp: now, dispatchedAt: now });
+  };
+
+  // ─── Resync after SYN_DROPPED ───────────────────────────────────────────
+  //
+  // The kernel expects clients to re-read the device state with the
+  // EVIOCGKEY / EVIOCGABS ioctls, which Node cannot issue. Instead we fall
+  // back to the rest state: every held button gets a synthetic release and
+  // every axis returns to its rest value. Inputs that are really still held
+  // are reported again by the device on their next change — a lost press is
+  // much less harmful than a button or stick stuck on.
+
+  private resync(stamp: EventStamp, reason: string): void {
+    this.dpadState = {};
+    this.stickButtons?.reset();
+    this.analogStick = { stick_x: 128, stick_y: 128 };
+
+    for (const button of Object.keys(this.buttonState) as PSNavButton[]) {
+      if (!this.buttonState[button]) continue;
+      this.emitNav({
+        kind: 'button',
+        controllerId: this.controllerId,
+        button,
+        pressed: false,
+        ...stamp,
+        synthetic: true,
+      });
+    }
+
+    for (const axis of Object.keys(this.axisState) as PSNavAxis[]) {
+      const rest = PSNAV_AXIS_REST[axis];
+      this.lastStickValue[axis] = rest;
+      const analog: PSNavAxisEvent = {
+        kind: 'axis',
+        controllerId: this.controllerId,
+        axis,
+        value: rest,
+        ...stamp,
+        synthetic: true,
+      };
+      this.emit('analog', analog);
+      if (this.axisState[axis] === rest) continue;
+      this.emitNav({
+        kind: 'axis',
+        controllerId: this.controllerId,
+        axis,
+        value: rest,
+        ...stamp,
+        synthetic: true,
+      });
+    }
+
+    console.log(`[evdev] Resynchronised ${this.controllerId} (${reason})`);
+  }
+
+  // ─── Virtual stick buttons ──────────────────────────────────────────────
+
+  private updateStickButtons(axis: 'stick_x' | 'stick_y', value: number, stamp: EventStamp): void {
+    if (!this.stickButtons) return;
+    this.analogStick[axis] = value;
+    const changes = this.stickButtons.update(this.analogStick.stick_x, this.analogStick.stick_y);
+    for (const { button, pressed } of changes) {
+      this.emitNav({ kind: 'button', controllerId: this.controllerId, button, pressed, ...stamp });
+    }
+  }
+
+  // ─── Frame assembly ─────────────────────────────────────────────────────
+
+  /** Update the tracked state, queue the change for the frame and emit it */
+  private emitNav(evt: PSNavEvent): void {
+    if (evt.kind === 'button') {
+      this.buttonState[evt.button] = evt.pressed;
+    } else {
+      this.axisState[evt.axis] = evt.value;
+    }
+    this.pendingChanges.push(evt);
+    this.emit('nav', evt);
+  }
+
+  /** Emit everything collected since the last SYN_REPORT as one frame */
+  private flushFrame(stamp: EventStamp): void {
+    if (this.pendingChanges.length === 0) return;
+    const frame: PSNavFrameEvent = {
+      kind: 'frame',
+      controllerId: this.controllerId,
+      buttons: { ...this.buttonState },
+      axes: { ...this.axisState },
+      changes: this.pendingChanges,
+      ...stamp,
+    };
+    this.pendingChanges = [];
+    this.emit('frame', frame);
+  }
+}
@@ -0,0 +1,49 @@
+import type { DeviceInfo, InputModeDetection, RawInputEvent } from './types';
+
+// ─── Input sources ──────────────────────────────────────────────────────────
+//
+// Where a controller's raw evdev events come from: the device itself
+// (EvdevReader), a recorded capture (ReplaySource), the mock (MockSource,
+// ScenarioSource) or the browser pad (VirtualSource).
+// A source only produces raw input_event values; every source is fed through
+// the same InputMapper, so mapping profiles, calibration, deadzones, stick
+// buttons and the PS button logic behave the same whatever the input is.
+//
+// Selected with INPUT_SOURCE (see server.ts).
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface InputSource {
+  /** Where the events come from: a device path, or a name for development sources */
+  readonly device: string;
+  /** Stable controller identity the mapper stamps on every event */
+  readonly controllerId: string;
+  /** Device identity for profile selection and mode detection, valid once 'open' fired */
+  readonly deviceInfo: DeviceInfo | null;
+  /** Set by sources that know the code layout they produce — skips detection */
+  readonly inputMode?: InputModeDetection;
+
+  /** Open the source; emits 'open' and then 'raw' events, or 'error' + 'close' if it cannot */
+  start(): void;
+  /** Stop producing events; emits 'close' */
+  stop(): void;
+
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Kernel event time in ms since epoch (fractional, µs precision). evdev stamps
+ * events with CLOCK_REALTIME unless a client switched the device clock, so
+ * this is directly comparable with Date.now().
+ */
+export function kernelTime(raw: RawInputEvent): number {
+  return raw.timeSec * 1000 + raw.timeUsec / 1000;
+}
+
+/** Kernel-style event time fields for an event happening at `ms` (default: now) */
+export function eventTime(ms = Date.now()): Pick<RawInputEvent, 'timeSec' | 'timeUsec'> {
+  const timeSec = Math.floor(ms / 1000);
+  return { timeSec, timeUsec: Math.floor((ms - timeSec * 1000) * 1000) };
+}
@@ -0,0 +1,57 @@
+import type { LatencyHistogram, LatencyReport } from './types';
+
+// ─── Input-to-handler latency histograms ────────────────────────────────────
+//
+// Clients that opt in sync their clock with the hub (clock:sync), measure
+// `serverNow - event.timestamp` when their handlers run and send the samples
+// in batches (latency:report). The hub bins them per socket so the status
+// endpoint can show the latency distribution of every client.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Upper bucket bounds in ms; a final open-ended bucket collects the rest */
+export const LATENCY_BUCKETS_MS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+/** Reports larger than this are truncated (protects against misbehaving clients) */
+const MAX_SAMPLES_PER_REPORT = 10000;
+
+export function createLatencyHistogram(): LatencyHistogram {
+  return {
+    count: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity,
+    buckets: [...LATENCY_BUCKETS_MS, null].map((leMs) => ({ leMs, count: 0 })),
+    clockOffset: 0,
+    rtt: 0,
+    updatedAt: 0,
+  };
+}
+
+/** Merge a client's report into its histogram */
+export function recordLatencyReport(hist: LatencyHistogram, report: LatencyReport): void {
+  if (!report || !Array.isArray(report.samples)) return;
+
+  for (const sample of report.samples.slice(0, MAX_SAMPLES_PER_REPORT)) {
+    if (typeof sample !== 'number' || !Number.isFinite(sample)) continue;
+    hist.count++;
+    hist.sum += sample;
+    hist.min = Math.min(hist.min, sample);
+    hist.max = Math.max(hist.max, sample);
+    const bucket = hist.buckets.find((b) => b.leMs === null || sample <= b.leMs)!;
+    bucket.count++;
+  }
+
+  if (Number.isFinite(report.clockOffset)) hist.clockOffset = report.clockOffset;
+  if (Number.isFinite(report.rtt)) hist.rtt = report.rtt;
+  hist.updatedAt = Date.now();
+}
+
+/** JSON-friendly summary for the status endpoint */
+export function summarizeLatency(hist: LatencyHistogram): LatencyHistogram & { mean: number | null } {
+  return {
+    ...hist,
+    min: hist.count > 0 ? hist.min : 0,
+    max: hist.count > 0 ? hist.max : 0,
+    mean: hist.count > 0 ? hist.sum / hist.count : null,
+  };
+}
@@ -0,0 +1,357 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import {
+  PSNAV_BUTTONS,
+  PSNAV_AXES,
+  PSNavButton,
+  PSNavAxis,
+  InputMode,
+  DeviceInfo,
+} from './types';
+import { DEFAULT_PROFILE } from './button-map';
+
+// ─── Controller mapping profiles ────────────────────────────────────────────
+//
+// A profile maps evdev codes of one kind of device to PS Navigation buttons
+// and axes. Profiles are JSON files in the profiles directory (PROFILES_DIR):
+//
+//   {
+//     "name": "nav-clone",
+//     "priority": 10,
+//     "match":   { "vendor": "0e8f", "product": "3075" },
+//     "buttons": { "0x130": "cross", "0x131": "circle" },
+//     "axes":    { "0x00": { "axis": "stick_x", "range": [0, 255] } },
+//     "hats":    { "0x10": { "neg": "dpad_left", "pos": "dpad_right" } },
+//     "ambiguous": { "0x13c": { "usb": "ps", "bluetooth": "l3" } }
+//   }
+//
+// Codes are hex ("0x130") or decimal strings. An axis `range` is either one
+// [min, max] pair or one per input mode ({ "usb": [...], "bluetooth": [...] }).
+// `match` fields (all optional, all given must match): `name` is a
+// case-insensitive substring of the device name, `vendor` / `product` are the
+// 4-digit hex USB IDs, `driver` is the HID driver (e.g. "sony", "hid-generic").
+//
+// When a device is opened, the matching profile with the highest priority
+// wins (ties: the one with more match fields). If none matches, the built-in
+// DEFAULT_PROFILE from button-map.ts is used.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ProfileMatch {
+  name?: string;
+  vendor?: string;
+  product?: string;
+  driver?: string;
+}
+
+export interface AxisMapping {
+  axis: PSNavAxis;
+  /** Raw [min, max] per input mode; normalised to 0..255 */
+  range: Record<InputMode, [number, number]>;
+}
+
+export interface HatMapping {
+  neg: PSNavButton;
+  pos: PSNavButton;
+}
+
+/** A code whose meaning depends on the detected input mode */
+export type AmbiguousMapping = Record<InputMode, PSNavButton>;
+
+/** A validated mapping profile, with codes parsed to numbers */
+export interface MappingProfile {
+  name: string;
+  priority: number;
+  match: ProfileMatch;
+  /** EV_KEY code → button */
+  buttons: Record<number, PSNavButton>;
+  /** EV_ABS code → axis */
+  axes: Record<number, AxisMapping>;
+  /** EV_ABS hat code → button pair */
+  hats: Record<number, HatMapping>;
+  /** EV_KEY code → button per input mode */
+  ambiguous: Record<number, AmbiguousMapping>;
+  /** File the profile was loaded from, null for the built-in default */
+  source: string | null;
+}
+
+/** Thrown for a profile that does not pass the schema check */
+export class ProfileError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid mapping profile ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ProfileError';
+  }
+}
+
+// ─── Schema check ───────────────────────────────────────────────────────────
+
+const TOP_LEVEL_KEYS = ['$schema', 'description', 'name', 'priority', 'match', 'buttons', 'axes', 'hats', 'ambiguous'];
+const MATCH_KEYS: Array<keyof ProfileMatch> = ['name', 'vendor', 'product', 'driver'];
+const HEX_ID = /^[0-9a-f]{4}$/i;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseCode(key: string): number | null {
+  if (/^0x[0-9a-f]+$/i.test(key)) return parseInt(key, 16);
+  if (/^\d+$/.test(key)) return parseInt(key, 10);
+  return null;
+}
+
+function isButton(value: unknown): value is PSNavButton {
+  return typeof value === 'string' && (PSNAV_BUTTONS as readonly string[]).includes(value);
+}
+
+function isAxis(value: unknown): value is PSNavAxis {
+  return typeof value === 'string' && (PSNAV_AXES as readonly string[]).includes(value);
+}
+
+function isRange(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 &&
+    value.every((v) => typeof v === 'number' && Number.isFinite(v)) && value[0] < value[1];
+}
+
+/**
+ * Check a parsed JSON profile against the schema and convert it to a
+ * MappingProfile. Collects every problem before throwing a ProfileError.
+ */
+export function parseProfile(json: unknown, source: string): MappingProfile {
+  const problems: string[] = [];
+  const profile: MappingProfile = {
+    name: '', priority: 0, match: {}, buttons: {}, axes: {}, hats: {}, ambiguous: {}, source,
+  };
+
+  if (!isObject(json)) {
+    throw new ProfileError(source, ['profile must be a JSON object']);
+  }
+
+  for (const key of Object.keys(json)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) problems.push(`unknown key "${key}"`);
+  }
+
+  if (typeof json.name === 'string' && json.name.trim()) {
+    profile.name = json.name.trim();
+  } else {
+    problems.push('"name" must be a non-empty string');
+  }
+
+  if (json.priority !== undefined) {
+    if (typeof json.priority === 'number' && Number.isFinite(json.priority)) {
+      profile.priority = json.priority;
+    } else {
+      problems.push('"priority" must be a number');
+    }
+  }
+
+  // ── match ──
+  if (!isObject(json.match)) {
+    problems.push('"match" must be an object with at least one of: name, vendor, product, driver');
+  } else {
+    for (const [key, value] of Object.entries(json.match)) {
+      if (!MATCH_KEYS.includes(key as keyof ProfileMatch)) {
+        problems.push(`match: unknown key "${key}"`);
+      } else if (typeof value !== 'string' || !value) {
+        problems.push(`match.${key} must be a non-empty string`);
+      } else if ((key === 'vendor' || key === 'product') && !HEX_ID.test(value)) {
+        problems.push(`match.${key} must be 4 hex digits (got "${value}")`);
+      } else {
+        profile.match[key as keyof ProfileMatch] = value.toLowerCase();
+      }
+    }
+    if (Object.keys(json.match).length === 0) {
+      problems.push('"match" needs at least one of: name, vendor, product, driver');
+    }
+  }
+
+  // ── code tables ──
+  const table = (field: string, check: (code: number, value: unknown, where: string) => void) => {
+    const value = json[field];
+    if (value === undefined) return;
+    if (!isObject(value)) {
+      problems.push(`"${field}" must be an object of code → mapping`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const code = parseCode(key);
+      if (code === null) {
+        problems.push(`${field}: "${key}" is not a hex (0x..) or decimal event code`);
+        continue;
+      }
+      check(code, entry, `${field}.${key}`);
+    }
+  };
+
+  table('buttons', (code, value, where) => {
+    if (isButton(value)) profile.buttons[code] = value;
+    else problems.push(`${where}: unknown button ${JSON.stringify(value)} (expected one of ${PSNAV_BUTTONS.join(', ')})`);
+  });
+
+  table('axes', (code, value, where) => {
+    if (!isObject(value) || !isAxis(value.axis)) {
+      problems.push(`${where}: expected { "axis": ${PSNAV_AXES.map((a) => `"${a}"`).join(' | ')}, "range"?: ... }`);
+      return;
+    }
+    const range = value.range ?? [0, 255];
+    if (isRange(range)) {
+      profile.axes[code] = { axis: value.axis, range: { unknown: range, usb: range, bluetooth: range } };
+    } else if (isObject(range) && isRange(range.usb ?? [0, 255]) && isRange(range.bluetooth ?? [0, 255]) &&
+      Object.keys(range).every((k) => k === 'usb' || k === 'bluetooth')) {
+      const usb = (range.usb ?? [0, 255]) as [number, number];
+      const bluetooth = (range.bluetooth ?? [0, 255]) as [number, number];
+      // Until the mode is known, values are treated like USB (as before profiles existed)
+      profile.axes[code] = { axis: value.axis, range: { unknown: usb, usb, bluetooth } };
+    } else {
+      problems.push(`${where}.range must be [min, max] with min < max, or { "usb"?: [min, max], "bluetooth"?: [min, max] }`);
+    }
+  });
+
+  table('hats', (code, value, where) => {
+    if (isObject(value) && isButton(value.neg) && isButton(value.pos)) {
+      profile.hats[code] = { neg: value.neg, pos: value.pos };
+    } else {
+      problems.push(`${where}: expected { "neg": <button>, "pos": <button> }`);
+    }
+  });
+
+  table('ambiguous', (code, value, where) => {
+    if (isObject(value) && isButton(value.usb) && isButton(value.bluetooth) &&
+      (value.unknown === undefined || isButton(value.unknown))) {
+      profile.ambiguous[code] = {
+        usb: value.usb,
+        bluetooth: value.bluetooth,
+        unknown: isButton(value.unknown) ? value.unknown : value.bluetooth,
+      };
+    } else {
+      problems.push(`${where}: expected { "usb": <button>, "bluetooth": <button>, "unknown"?: <button> }`);
+    }
+  });
+
+  for (const code of Object.keys(profile.ambiguous)) {
+    if (code in profile.buttons) problems.push(`code 0x${Number(code).toString(16)} is in both "buttons" and "ambiguous"`);
+  }
+
+  if (problems.length > 0) throw new ProfileError(source, problems);
+  return profile;
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/** Does the profile's match block fit the device? (the default profile never matches) */
+export function profileMatches(profile: MappingProfile, info: DeviceInfo): boolean {
+  const { match } = profile;
+  const fields = MATCH_KEYS.filter((k) => match[k] !== undefined);
+  if (fields.length === 0) return false;
+  if (match.name !== undefined && !info.name.toLowerCase().includes(match.name)) return false;
+  if (match.vendor !== undefined && info.vendor !== match.vendor) return false;
+  if (match.product !== undefined && info.product !== match.product) return false;
+  if (match.driver !== undefined && info.driver.toLowerCase() !== match.driver) return false;
+  return true;
+}
+
+function specificity(profile: MappingProfile): number {
+  return MATCH_KEYS.filter((k) => profile.match[k] !== undefined).length;
+}
+
+// ─── Profile store (load + hot reload) ──────────────────────────────────────
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+export declare interface ProfileStore {
+  on(event: 'change', listener: () => void): this;
+}
+
+/**
+ * Loads every *.json profile from a directory and reloads them when the
+ * directory changes. A file that fails the schema check is rejected with a
+ * logged ProfileError; if an earlier version of it was valid, that version
+ * stays in use. Emits 'change' after every reload.
+ */
+export class ProfileStore extends EventEmitter {
+  private profiles = new Map<string, MappingProfile>();   // by file name
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(public readonly dir: string) {
+    super();
+  }
+
+  /** All loaded profiles (not including the built-in default) */
+  get all(): MappingProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  /** (Re)load every profile in the directory */
+  load(): void {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir).filter((f) => f.endsWith('.json')).sort();
+    } catch {
+      if (this.profiles.size > 0) console.warn(`[profiles] ${this.dir} is gone — using the built-in profile only`);
+      this.profiles.clear();
+      return;
+    }
+
+    const next = new Map<string, MappingProfile>();
+    for (const file of files) {
+      const source = path.join(this.dir, file);
+      try {
+        next.set(file, parseProfile(JSON.parse(fs.readFileSync(source, 'utf-8')), source));
+      } catch (err) {
+        const message = err instanceof SyntaxError ? `Invalid JSON in mapping profile ${source}: ${err.message}` : (err as Error).message;
+        console.error(`[profiles] ${message}`);
+        const previous = this.profiles.get(file);
+        if (previous) {
+          console.error(`[profiles] Keeping the previously loaded version of ${file}`);
+          next.set(file, previous);
+        }
+      }
+    }
+
+    this.profiles = next;
+    const names = this.all.map((p) => p.name);
+    console.log(`[profiles] Loaded ${names.length} profile(s) from ${this.dir}${names.length ? `: ${names.join(', ')}` : ''}`);
+  }
+
+  /** Watch the directory and reload (debounced) on any change */
+  watch(): void {
+    if (this.watcher) return;
+    try {
+      this.watcher = fs.watch(this.dir, () => {
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.load();
+          this.emit('change');
+        }, RELOAD_DEBOUNCE_MS);
+      });
+    } catch {
+      console.warn(`[profiles] Cannot watch ${this.dir} — profiles will not hot-reload`);
+    }
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
+
+  /** Does any loaded profile match the device? */
+  matches(info: DeviceInfo): boolean {
+    return this.all.some((p) => profileMatches(p, info));
+  }
+
+  /** Pick the best matching profile for a device, or the built-in default */
+  select(info: DeviceInfo): MappingProfile {
+    let best: MappingProfile | null = null;
+    for (const profile of this.all) {
+      if (!profileMatches(profile, info)) continue;
+      if (!best || profile.priority > best.priority ||
+        (profile.priority === best.priority && specificity(profile) > specificity(best))) {
+        best = profile;
+      }
+    }
+    return best ?? DEFAULT_PROFILE;
+  }
+}
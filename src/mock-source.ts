@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import {
+  DeviceInfo,
+  InputModeDetection,
+  PSNavAxis,
+  PSNavButton,
+  RawInputEvent,
+  EV_SYN,
+  EV_KEY,
+  EV_ABS,
+  SYN_REPORT,
+} from './types';
+import { InputSource, eventTime } from './input-source';
+
+// ─── Mock input (development without a controller) ──────────────────────────
+//
+// Produces what hid-sony would report for a Nav over USB: a stick circling
+// every ~6s, a random button tap every 2s and a PS tap every 8s (by default
+// the system bindings switch to the next service). Scripted scenarios
+// (scenario.ts) produce the same layout. Everything goes through the
+// InputMapper like real input does.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One raw event without its time */
+export type RawTriple = [type: number, code: number, value: number];
+
+/** hid-sony key code of each physical button */
+export const BUTTON_CODES: Readonly<Record<PSNavButton, number | null>> = {
+  cross: 0x130,        // BTN_SOUTH
+  circle: 0x131,       // BTN_EAST
+  l1: 0x136,           // BTN_TL
+  l2: 0x138,           // BTN_TL2 (digital; ABS_Z is the analog part)
+  l3: 0x13d,           // BTN_THUMBL
+  ps: 0x13c,           // BTN_MODE
+  dpad_up: 0x220,      // BTN_DPAD_UP
+  dpad_down: 0x221,    // BTN_DPAD_DOWN
+  dpad_left: 0x222,    // BTN_DPAD_LEFT
+  dpad_right: 0x223,   // BTN_DPAD_RIGHT
+  // Virtual, derived from the stick by the hub
+  stick_up: null, stick_down: null, stick_left: null, stick_right: null,
+};
+
+/** EV_ABS code of each axis (ABS_X, ABS_Y, ABS_Z) */
+export const AXIS_CODES: Record<PSNavAxis, number> = { stick_x: 0x00, stick_y: 0x01, l2_analog: 0x02 };
+
+/** Raw events of pressing or releasing a physical button (L2 also moves its analog axis) */
+export function buttonEvents(button: PSNavButton, pressed: boolean): RawTriple[] {
+  const code = BUTTON_CODES[button];
+  if (code === null) return [];
+  const events: RawTriple[] = [[EV_KEY, code, pressed ? 1 : 0]];
+  if (button === 'l2') events.push([EV_ABS, AXIS_CODES.l2_analog, pressed ? 255 : 0]);
+  return events;
+}
+
+/** Identity every mock source reports */
+export const MOCK_DEVICE_INFO: DeviceInfo = {
+  name: 'Mock PS Navigation',
+  vendor: '',
+  product: '',
+  bustype: '',
+  driver: '',
+  uniq: '',
+  phys: '',
+  absCapabilities: '',
+};
+
+export const MOCK_INPUT_MODE: InputModeDetection = { mode: 'usb', reason: 'mock input (hid-sony layout)' };
+
+const STICK_INTERVAL_MS = 50;
+const BUTTON_INTERVAL_MS = 2000;
+const BUTTON_HOLD_MS = 100;
+const PS_INTERVAL_MS = 8000;
+const PS_HOLD_MS = 50;
+
+const MOCK_BUTTONS: PSNavButton[] = [
+  'cross', 'circle', 'l1', 'l2', 'dpad_up', 'dpad_down', 'dpad_left', 'dpad_right',
+];
+
+export declare interface MockSource {
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+export class MockSource extends EventEmitter implements InputSource {
+  public readonly device = 'mock';
+  public readonly inputMode = MOCK_INPUT_MODE;
+  public readonly deviceInfo = MOCK_DEVICE_INFO;
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(public readonly controllerId = 'mock') {
+    super();
+  }
+
+  start(): void {
+    console.log('[mock] Starting mock PS Navigation input (no real device)');
+    this.emit('open');
+
+    this.timers.push(setInterval(() => {
+      const now = Date.now();
+      this.report([
+        [EV_ABS, AXIS_CODES.stick_x, Math.round(128 + 127 * Math.sin(now / 1000))],
+        [EV_ABS, AXIS_CODES.stick_y, Math.round(128 + 127 * Math.cos(now / 1000))],
+      ]);
+    }, STICK_INTERVAL_MS));
+
+    this.timers.push(setInterval(() => {
+      const button = MOCK_BUTTONS[Math.floor(Math.random() * MOCK_BUTTONS.length)];
+      this.report(buttonEvents(button, true));
+      this.later(BUTTON_HOLD_MS, () => this.report(buttonEvents(button, false)));
+    }, BUTTON_INTERVAL_MS));
+
+    this.timers.push(setInterval(() => {
+      console.log('[mock] Simulating PS button tap');
+      this.report(buttonEvents('ps', true));
+      this.later(PS_HOLD_MS, () => this.report(buttonEvents('ps', false)));
+    }, PS_INTERVAL_MS));
+  }
+
+  stop(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers = [];
+    this.emit('close', 'stopped');
+  }
+
+  private later(ms: number, fn: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers = this.timers.filter((t) => t !== timer);
+      fn();
+    }, ms);
+    this.timers.push(timer);
+  }
+
+  /** Emit events followed by SYN_REPORT, all stamped now */
+  private report(events: RawTriple[]): void {
+    const time = eventTime();
+    for (const [type, code, value] of events) this.emit('raw', { ...time, type, code, value });
+    this.emit('raw', { ...time, type: EV_SYN, code: SYN_REPORT, value: 0 });
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  PSNAV_AXES,
+  PSNAV_AXIS_REST,
+  PSNAV_BUTTONS,
+  PSNAV_STICK_BUTTONS,
+  PSNavAxis,
+  PSNavButton,
+  PSNavEvent,
+  PSNavStateEvent,
+} from './types';
+
+// ─── Authoritative controller state ─────────────────────────────────────────
+//
+// What services have been told about each controller: every forwarded button
+// and axis change is applied here. A socket that connects or is activated
+// while the user is already holding something gets it as a nav:state
+// snapshot, and a service losing focus is brought back to rest with synthetic
+// releases — it will not see the real ones.
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ControllerNavState {
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+}
+
+function restState(): ControllerNavState {
+  const buttons = {} as Record<PSNavButton, boolean>;
+  for (const button of [...PSNAV_BUTTONS, ...PSNAV_STICK_BUTTONS]) buttons[button] = false;
+  return { buttons, axes: { ...PSNAV_AXIS_REST } };
+}
+
+export class NavStateTracker {
+  private states = new Map<string, ControllerNavState>();
+
+  apply(evt: PSNavEvent): void {
+    let state = this.states.get(evt.controllerId);
+    if (!state) {
+      state = restState();
+      this.states.set(evt.controllerId, state);
+    }
+    if (evt.kind === 'button') state.buttons[evt.button] = evt.pressed;
+    else state.axes[evt.axis] = evt.value;
+  }
+
+  snapshot(controllerId: string): PSNavStateEvent {
+    const state = this.states.get(controllerId) ?? restState();
+    return {
+      kind: 'state',
+      controllerId,
+      buttons: { ...state.buttons },
+      axes: { ...state.axes },
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Synthetic events that take a receiver from the current state back to
+   * rest: a release per held button, a rest value per moved axis (or per axis
+   * with `allAxes`, for receivers that process axes their own way).
+   */
+  releases(controllerId: string, allAxes = false): PSNavEvent[] {
+    const state = this.states.get(controllerId);
+    if (!state) return [];
+    const now = Date.now();
+    const events: PSNavEvent[] = [];
+
+    for (const button of Object.keys(state.buttons) as PSNavButton[]) {
+      if (!state.buttons[button]) continue;
+      events.push({ kind: 'button', controllerId, button, pressed: false, timestamp: now, dispatchedAt: now, synthetic: true });
+    }
+    for (const axis of PSNAV_AXES) {
+      const rest = PSNAV_AXIS_REST[axis];
+      if (!allAxes && state.axes[axis] === rest) continue;
+      events.push({ kind: 'axis', controllerId, axis, value: rest, timestamp: now, dispatchedAt: now, synthetic: true });
+    }
+    return events;
+  }
+
+  /** Drop a disconnected controller */
+  forget(controllerId: string): void {
+    this.states.delete(controllerId);
+  }
+}
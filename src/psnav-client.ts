@@ -9,10 +9,15 @@
  *
  *   const nav = new PSNavClient('http://192.168.1.50:3050', {
  *     serviceName: 'my-cool-app',   // register as a named service
+ *     controller: 'any',            // optional: take the first free controller
  *   });
  *
  *   nav.on('button', (evt) => console.log(evt.button, evt.pressed));
  *   nav.on('axis',   (evt) => console.log(evt.axis, evt.value));
+ *   nav.on('button', (evt) => console.log('left hand:', evt.button), 'aa:bb:cc:dd:ee:ff');
+ *   nav.on('frame',  (frame) => applyState(frame.buttons, frame.axes));   // needs { frames: true }
+ *   nav.on('stick',  (s) => move(s.x, s.y));                               // needs { stick: true }
+ *   nav.on('gesture', (g) => g.gesture === 'long-press' && openMenu());    // needs { gestures: {} }
  *   nav.on('activated',   () => console.log('I am now the active client!'));
  *   nav.on('deactivated', () => console.log('No longer active'));
  *
@@ -33,7 +38,12 @@ export type PSNavButton =
   | 'dpad_down'
   | 'dpad_left'
   | 'dpad_right'
-  | 'ps';
+  | 'ps'
+  // Virtual — derived from the stick by the hub
+  | 'stick_up'
+  | 'stick_down'
+  | 'stick_left'
+  | 'stick_right';
 
 export type PSNavAxis =
   | 'stick_x'
@@ -42,20 +52,118 @@ export type PSNavAxis =
 
 export interface PSNavButtonEvent {
   kind: 'button';
+  controllerId: string;
   button: PSNavButton;
   pressed: boolean;
-  timestamp: number;
+  timestamp: number;       // kernel event time on the hub, ms since epoch
+  dispatchedAt: number;    // hub time the event was dispatched
+  synthetic?: boolean;     // generated by the hub, e.g. release after a buffer overflow
+  repeat?: boolean;        // hub auto-repeat of a held button (needs the repeat option)
 }
 
 export interface PSNavAxisEvent {
   kind: 'axis';
+  controllerId: string;
   axis: PSNavAxis;
   value: number;
   timestamp: number;
+  dispatchedAt: number;
+  synthetic?: boolean;
 }
 
 export type PSNavEvent = PSNavButtonEvent | PSNavAxisEvent;
 
+/** All changes of one evdev report plus the full state after them; axes use the hub's default deadzone */
+export interface PSNavFrameEvent {
+  kind: 'frame';
+  controllerId: string;
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+  changes: PSNavEvent[];
+  timestamp: number;
+  dispatchedAt: number;
+}
+
+/** Every button and axis of a controller as the hub last forwarded them — sent on connect and on activation */
+export interface PSNavStateEvent {
+  kind: 'state';
+  controllerId: string;
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+  timestamp: number;
+}
+
+/** Combined stick vector, computed by the hub from the (post-deadzone) axis values */
+export interface PSNavStickEvent {
+  kind: 'stick';
+  controllerId: string;
+  x: number;               // -1..1, right is positive
+  y: number;               // -1..1, sign per the yAxis option
+  angle: number;           // atan2(y, x) in radians, -π..π
+  magnitude: number;       // 0..1
+  l2: number;              // l2_analog as 0..1
+  timestamp: number;
+  dispatchedAt: number;
+  synthetic?: boolean;
+}
+
+export interface RepeatTiming {
+  delayMs?: number;          // hold time before the first repeat (default 400)
+  intervalMs?: number;       // time between the first repeats (default 100)
+  acceleration?: number;     // interval factor per repeat, ≤ 1 (default 1)
+  minIntervalMs?: number;    // floor for the accelerated interval (default 30)
+}
+
+/** Auto-repeat settings; by default the D-pad and stick buttons repeat */
+export interface RepeatOptions extends RepeatTiming {
+  /** Per button: true / false to turn repeat on or off, or its own timing */
+  buttons?: Partial<Record<PSNavButton, RepeatTiming | boolean>>;
+}
+
+export type PSNavGestureType = 'tap' | 'double-tap' | 'long-press' | 'chord' | 'flick';
+
+export type FlickDirection =
+  | 'up' | 'down' | 'left' | 'right'
+  | 'up-left' | 'up-right' | 'down-left' | 'down-right';
+
+/** Gesture recognised by the hub */
+export interface PSNavGestureEvent {
+  kind: 'gesture';
+  controllerId: string;
+  gesture: PSNavGestureType;
+  buttons: PSNavButton[];      // tap / double-tap / long-press: the button; chord: every held button
+  direction?: FlickDirection;  // flick only — 4- or 8-way per flickDirections
+  angle?: number;              // flick only — atan2(y, x) in radians, +y toward you
+  duration: number;            // ms held, or how long the flick took
+  timestamp: number;
+  dispatchedAt: number;
+}
+
+export interface GestureOptions {
+  /** Default: all */
+  types?: PSNavGestureType[];
+  /** Default 8 */
+  flickDirections?: 4 | 8;
+}
+
+/** 'down': pulling the stick toward you is +y (like the 0-255 values); 'up': pushing away is +y */
+export type StickYAxis = 'up' | 'down';
+
+export interface StickOptions {
+  /** Default 'down' */
+  yAxis?: StickYAxis;
+}
+
+/** Narrow what the hub sends — an omitted key lets everything of that kind through */
+export interface NavFilter {
+  buttons?: PSNavButton[];
+  axes?: PSNavAxis[];
+  raw?: number[];                    // evdev event types, e.g. 1 (EV_KEY), 3 (EV_ABS)
+  gestures?: PSNavGestureType[];
+  /** Max 'axis' updates per second (all axes or per axis); the latest value wins */
+  axisRateHz?: number | Partial<Record<PSNavAxis, number>>;
+}
+
 export interface RawInputEvent {
   timeSec: number;
   timeUsec: number;
@@ -64,47 +172,199 @@ export interface RawInputEvent {
   value: number;
 }
 
+export interface ControllerInfo {
+  controllerId: string;      // Bluetooth MAC or phys path
+  device: string;            // /dev/input/eventX path on the hub
+}
+
+/** USB (hid-sony code layout) or Bluetooth (hid-generic code layout) */
+export type InputMode = 'unknown' | 'usb' | 'bluetooth';
+
+/** nav:connected payload */
+export interface ConnectedController extends ControllerInfo {
+  inputMode: InputMode;
+  inputModeReason: string;   // e.g. 'sysfs: hid-sony driver'
+}
+
+/** Latest known state of a single controller */
+export interface PSNavControllerState {
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+  /** Latest nav:stick vector (only updated with the stick option) */
+  stick: Pick<PSNavStickEvent, 'x' | 'y' | 'angle' | 'magnitude' | 'l2'>;
+}
+
+/** A controllerId, 'any' (first free controller) or null (no preference) */
+export type ControllerRequest = string | 'any' | null;
+
+/** Per-service stick / L2 processing applied by the hub */
+export interface AxisSettings {
+  /** Default 'axial' (the hub's standard square deadzone) */
+  deadzone?: 'axial' | 'radial' | 'scaled-radial' | 'none';
+  /** Fraction of full deflection, 0..1 (default 10/127) */
+  deadzoneSize?: number;
+  /** Default 'linear' */
+  curve?: 'linear' | 'exponential' | 'lut';
+  /** For curve 'exponential' (default 2) */
+  exponent?: number;
+  /** For curve 'lut': outputs 0..1 sampled evenly over inputs 0..1 */
+  lut?: number[];
+}
+
+/**
+ * 'exclusive': input only while focused (default) · 'observer': input from
+ * every controller, PS presses, battery changes · 'listener': PS presses and
+ * battery changes only. Observers and listeners are never focused.
+ */
+export type ServiceRole = 'exclusive' | 'observer' | 'listener';
+
 export interface RegisteredClient {
   socketId: string;
   serviceName: string;
   registeredAt: number;
+  controller: ControllerRequest;
+  role: ServiceRole;
+  connected: boolean;                // false while away within the reconnect grace period
+}
+
+export interface ControllerFocus {
+  controllerId: string;
+  activeIndex: number;
+  activeServiceName: string | null;
+  stack: FocusHolder[];              // bottom first, the last one is active
+}
+
+export interface FocusHolder {
+  serviceName: string;
+  priority: number;                  // 0: focus given by the user
+  reason: string | null;
+}
+
+export interface FocusRequest {
+  priority?: number;                 // default 1 — granted if >= the current holder's
+  reason?: string;
+  controller?: string;               // default: first controller this service may use
+}
+
+/** Outcome of requestFocus / yieldFocus / activate — denials resolve with ok: false */
+export interface FocusResult {
+  ok: boolean;
+  controllerId: string | null;
+  activeServiceName: string | null;
+  error?: string;
+}
+
+/** Admin: which controller to record (default: all) and the hub's ADMIN_TOKEN */
+export interface CaptureRequest {
+  controllerId?: string;
+  adminToken?: string;
+}
+
+/** Outcome of startCapture / stopCapture, with the capture file per controller */
+export interface CaptureResult {
+  ok: boolean;
+  files?: Record<string, string>;
+  error?: string;
 }
 
 export interface ClientListInfo {
   clients: RegisteredClient[];
-  activeIndex: number;
+  activeIndex: number;               // focus of the first controller
   activeServiceName: string | null;
+  focus: ControllerFocus[];          // per-controller focus
+}
+
+/** A controller's service picker overlay — draw it while open is true */
+export interface SwitcherState {
+  controllerId: string;
+  open: boolean;
+  clients: RegisteredClient[];   // services this controller can switch to
+  highlightedIndex: number;      // into clients, -1 if none
+  activeIndex: number;           // into clients, -1 if none
+}
+
+export interface ActivationInfo {
+  serviceName: string;
+  controllerId: string;
 }
 
 export interface BatteryStatus {
+  controllerId: string | null; // controller the battery belongs to, null if unknown
   level: number | null;      // 0-100 percentage, null if unavailable
   charging: boolean | null;  // true if charging, null if unknown
   source: string | null;     // sysfs power_supply name that was read
   timestamp: number;         // ms since epoch
 }
 
+export interface AxisCalibration {
+  min: number;
+  max: number;
+  center: number;
+}
+
+export interface CalibrationProfile {
+  controllerId: string;
+  inputMode: InputMode;
+  axes: Partial<Record<PSNavAxis, AxisCalibration>>;
+  createdAt: number;
+}
+
+export interface CalibrationProgress {
+  controllerId: string;
+  step: 'center' | 'range';
+  message: string;           // instruction to show the user
+  progress: number;          // 0..1
+}
+
+export interface CalibrationResult {
+  controllerId: string;
+  ok: boolean;
+  error?: string;
+  calibration?: CalibrationProfile;
+}
+
+/** Result of a clock-offset handshake with the hub */
+export interface ClockSync {
+  offset: number;          // hub clock minus local clock, ms
+  rtt: number;             // round trip of the best sample, ms
+}
+
 // ─── Callback types ─────────────────────────────────────────────────────────
 
 type ButtonCallback      = (event: PSNavButtonEvent) => void;
 type AxisCallback        = (event: PSNavAxisEvent) => void;
+type FrameCallback       = (frame: PSNavFrameEvent) => void;
+type StateCallback       = (state: PSNavStateEvent) => void;
+type StickCallback       = (stick: PSNavStickEvent) => void;
+type GestureCallback     = (gesture: PSNavGestureEvent) => void;
 type RawCallback         = (event: RawInputEvent) => void;
-type DeviceCallback      = (info: { device: string; reason?: string }) => void;
-type ServiceCallback     = (info: { serviceName: string }) => void;
+type DeviceCallback      = (info: ControllerInfo & Partial<ConnectedController> & { reason?: string }) => void;
+type ServiceCallback     = (info: ActivationInfo) => void;
 type ClientListCallback  = (info: ClientListInfo) => void;
+type SwitcherCallback    = (state: SwitcherState) => void;
 type BatteryCallback     = (status: BatteryStatus) => void;
+type CalProgressCallback = (progress: CalibrationProgress) => void;
+type CalDoneCallback     = (result: CalibrationResult) => void;
 type ErrorCallback       = (err: Error) => void;
 type VoidCallback        = () => void;
 
 interface CallbackMap {
   button:       Set<ButtonCallback>;
   axis:         Set<AxisCallback>;
+  frame:        Set<FrameCallback>;
+  state:        Set<StateCallback>;
+  stick:        Set<StickCallback>;
+  gesture:      Set<GestureCallback>;
   raw:          Set<RawCallback>;
   connected:    Set<DeviceCallback>;
   disconnected: Set<DeviceCallback>;
   activated:    Set<ServiceCallback>;
   deactivated:  Set<ServiceCallback>;
   clientList:   Set<ClientListCallback>;
+  switcher:     Set<SwitcherCallback>;
   battery:      Set<BatteryCallback>;
+  calibrationProgress: Set<CalProgressCallback>;
+  calibrationDone:     Set<CalDoneCallback>;
   error:        Set<ErrorCallback>;
   open:         Set<VoidCallback>;
   close:        Set<VoidCallback>;
@@ -118,8 +378,36 @@ type CallbackFor<E extends EventName> = CallbackMap[E] extends Set<infer T> ? T
 export interface PSNavClientOptions {
   /** Register as a named service to receive nav events (required for input) */
   serviceName?: string;
+  /** Controller to be driven by: a controllerId, 'any' free controller, or omitted for no preference */
+  controller?: ControllerRequest;
+  /** How the service takes part in routing (default: 'exclusive') */
+  role?: ServiceRole;
+  /**
+   * Service identity sent with every register, so a reconnect within the hub's
+   * grace period keeps this service's place and focus (default: random per
+   * client instance — store and pass one to also keep it across restarts)
+   */
+  token?: string;
+  /** Have the hub process this service's 'axis' events with its own deadzone / response curve */
+  axes?: AxisSettings;
+  /** Receive 'gesture' events recognised by the hub (requires serviceName) */
+  gestures?: GestureOptions;
+  /** Have the hub auto-repeat held buttons as 'button' events with repeat: true (requires serviceName) */
+  repeat?: RepeatOptions;
   /** Subscribe to raw evdev events (default: false) */
   raw?: boolean;
+  /** Subscribe to frame-atomic 'frame' events, one per evdev report (default: false) */
+  frames?: boolean;
+  /** Subscribe to normalised 'stick' vectors, optionally choosing the Y convention (default: false) */
+  stick?: boolean | StickOptions;
+  /** Only receive some buttons / axes / raw types / gestures, and cap axis rates (default: everything) */
+  filter?: NavFilter;
+  /**
+   * Sync clocks with the hub and measure input-to-handler latency of every
+   * button/axis/frame event; samples are reported to the hub's status
+   * endpoint (default: false)
+   */
+  latency?: boolean;
   /** Auto-reconnect on disconnect (default: true) */
   reconnect?: boolean;
   /** socket.io-client connect options passthrough */
@@ -128,56 +416,105 @@ export interface PSNavClientOptions {
 
 // ─── Client ─────────────────────────────────────────────────────────────────
 
+const CLOCK_SYNC_TIMEOUT_MS = 2000;
+const FOCUS_TIMEOUT_MS = 5000;
+const ADMIN_TIMEOUT_MS = 5000;
+// The hub's flow takes ~10s (center + range steps); allow for a slow start
+const CALIBRATION_TIMEOUT_MS = 30000;
+const CLOCK_SYNC_INTERVAL_MS = 60_000;      // clocks drift — re-sync periodically
+const LATENCY_REPORT_INTERVAL_MS = 5000;
+
+function createToken(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
 export class PSNavClient {
   private url: string;
-  private opts: Required<Pick<PSNavClientOptions, 'raw' | 'reconnect'>> & Pick<PSNavClientOptions, 'serviceName' | 'socketOpts'>;
+  private opts: Required<Pick<PSNavClientOptions, 'raw' | 'frames' | 'stick' | 'latency' | 'reconnect'>> & Pick<PSNavClientOptions, 'serviceName' | 'controller' | 'role' | 'axes' | 'gestures' | 'repeat' | 'filter' | 'socketOpts'>;
   private socket: Socket | null = null;
 
   private callbacks: CallbackMap = {
     button:       new Set(),
     axis:         new Set(),
+    frame:        new Set(),
+    state:        new Set(),
+    stick:        new Set(),
+    gesture:      new Set(),
     raw:          new Set(),
     connected:    new Set(),
     disconnected: new Set(),
     activated:    new Set(),
     deactivated:  new Set(),
     clientList:   new Set(),
+    switcher:     new Set(),
     battery:      new Set(),
+    calibrationProgress: new Set(),
+    calibrationDone:     new Set(),
     error:        new Set(),
     open:         new Set(),
     close:        new Set(),
   };
 
+  /**
+   * Callbacks registered with a controller filter: event → callback →
+   * controllerId → the wrapper in `callbacks` that applies the filter. One
+   * callback can follow several events and controllers, each on its own.
+   */
+  private controllerFilters = new Map<EventName, Map<unknown, Map<string, (...args: unknown[]) => void>>>();
+
   // ── Snapshot of latest state ──
-  /** Current button states (true = held) */
-  public buttons: Record<PSNavButton, boolean> = {
-    cross: false, circle: false,
-    l1: false, l2: false, l3: false,
-    dpad_up: false, dpad_down: false, dpad_left: false, dpad_right: false,
-    ps: false,
-  };
+  /** Per-controller state, keyed by controllerId */
+  public controllers: Record<string, PSNavControllerState> = {};
 
-  /** Current axis values (0-255, center ≈ 128) */
-  public axes: Record<PSNavAxis, number> = {
-    stick_x: 128,
-    stick_y: 128,
-    l2_analog: 0,
-  };
+  /** Current button states (true = held) of the controller that sent the latest event */
+  public buttons: Record<PSNavButton, boolean> = createControllerState().buttons;
+
+  /** Current axis values (0-255, center ≈ 128) of the controller that sent the latest event */
+  public axes: Record<PSNavAxis, number> = createControllerState().axes;
 
-  /** Whether this client is currently the active service receiving nav events */
+  /** Whether at least one controller is currently driving this service */
   public isActive = false;
 
+  /** Controllers currently driving this service */
+  public activeControllers: string[] = [];
+
   /** Latest client list from the server */
-  public clientList: ClientListInfo = { clients: [], activeIndex: -1, activeServiceName: null };
+  public clientList: ClientListInfo = { clients: [], activeIndex: -1, activeServiceName: null, focus: [] };
+
+  /** Open service pickers, by controllerId */
+  public switchers: Record<string, SwitcherState> = {};
+
+  /** Hub clock minus local clock in ms (null until the first clock sync) */
+  public clockOffset: number | null = null;
+
+  /** Identity this client registers its service with */
+  public readonly token: string;
+
+  /** Input-to-handler latency of the most recent event in ms (requires `latency: true`) */
+  public lastLatency: number | null = null;
+
+  private clockRtt = 0;
+  private latencySamples: number[] = [];
+  private latencyTimers: ReturnType<typeof setInterval>[] = [];
 
   /** Latest battery status (updated after requestBattery()) */
-  public battery: BatteryStatus = { level: null, charging: null, source: null, timestamp: 0 };
+  public battery: BatteryStatus = { controllerId: null, level: null, charging: null, source: null, timestamp: 0 };
 
   constructor(url: string, opts: PSNavClientOptions = {}) {
     this.url = url;
+    this.token = opts.token ?? createToken();
     this.opts = {
       serviceName: opts.serviceName,
+      controller: opts.controller,
+      role: opts.role,
+      axes: opts.axes,
+      gestures: opts.gestures,
+      repeat: opts.repeat,
       raw: opts.raw ?? false,
+      frames: opts.frames ?? false,
+      stick: opts.stick ?? false,
+      filter: opts.filter,
+      latency: opts.latency ?? false,
       reconnect: opts.reconnect ?? true,
       socketOpts: opts.socketOpts,
     };
@@ -198,17 +535,38 @@ export class PSNavClient {
       console.log('[psnav] connected to', this.url);
       // Register as a named service if configured
       if (this.opts.serviceName) {
-        this.socket!.emit('register', this.opts.serviceName);
+        this.socket!.emit('register', this.opts.serviceName, {
+          controller: this.opts.controller ?? null,
+          role: this.opts.role,
+          token: this.token,
+          axes: this.opts.axes,
+          gestures: this.opts.gestures,
+          repeat: this.opts.repeat,
+        });
       }
       if (this.opts.raw) {
         this.socket!.emit('subscribe:raw', true);
       }
+      if (this.opts.frames) {
+        this.socket!.emit('subscribe:frames', true);
+      }
+      if (this.opts.stick) {
+        this.socket!.emit('subscribe:stick', true, this.opts.stick === true ? {} : this.opts.stick);
+      }
+      if (this.opts.filter) {
+        this.socket!.emit('subscribe:filter', this.opts.filter);
+      }
+      if (this.opts.latency) {
+        this.startLatencyReporting();
+      }
       this.fire('open');
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log(`[psnav] disconnected (reason: ${reason})`);
       this.isActive = false;
+      this.activeControllers = [];
+      this.stopLatencyReporting();
       this.fire('close');
 
       // "io server disconnect" means the server kicked us (e.g. pm2 reload).
@@ -245,38 +603,72 @@ export class PSNavClient {
     // ── Nav events ──
 
     this.socket.on('nav:button', (evt: PSNavButtonEvent) => {
-      this.buttons[evt.button] = evt.pressed;
+      this.measureLatency(evt.timestamp);
+      this.stateFor(evt.controllerId).buttons[evt.button] = evt.pressed;
       this.fire('button', evt);
     });
 
     this.socket.on('nav:axis', (evt: PSNavAxisEvent) => {
-      this.axes[evt.axis] = evt.value;
+      this.measureLatency(evt.timestamp);
+      this.stateFor(evt.controllerId).axes[evt.axis] = evt.value;
       this.fire('axis', evt);
     });
 
+    this.socket.on('nav:frame', (frame: PSNavFrameEvent) => {
+      this.measureLatency(frame.timestamp);
+      const state = this.stateFor(frame.controllerId);
+      Object.assign(state.buttons, frame.buttons);
+      Object.assign(state.axes, frame.axes);
+      this.fire('frame', frame);
+    });
+
+    this.socket.on('nav:state', (snapshot: PSNavStateEvent) => {
+      const state = this.stateFor(snapshot.controllerId);
+      Object.assign(state.buttons, snapshot.buttons);
+      Object.assign(state.axes, snapshot.axes);
+      this.fire('state', snapshot);
+    });
+
+    this.socket.on('nav:stick', (stick: PSNavStickEvent) => {
+      const { x, y, angle, magnitude, l2 } = stick;
+      this.stateFor(stick.controllerId).stick = { x, y, angle, magnitude, l2 };
+      this.fire('stick', stick);
+    });
+
+    this.socket.on('nav:gesture', (gesture: PSNavGestureEvent) => {
+      this.measureLatency(gesture.timestamp);
+      this.fire('gesture', gesture);
+    });
+
     this.socket.on('nav:raw', (evt: RawInputEvent) => {
       this.fire('raw', evt);
     });
 
     // ── Device lifecycle ──
 
-    this.socket.on('nav:connected', (info: { device: string }) => {
+    this.socket.on('nav:connected', (info: ConnectedController) => {
+      this.stateFor(info.controllerId);
       this.fire('connected', info);
     });
 
-    this.socket.on('nav:disconnected', (info: { device: string; reason: string }) => {
+    this.socket.on('nav:disconnected', (info: ControllerInfo & { reason: string }) => {
+      delete this.controllers[info.controllerId];
       this.fire('disconnected', info);
     });
 
     // ── Service manager events ──
 
-    this.socket.on('client:activated', (info: { serviceName: string }) => {
+    this.socket.on('client:activated', (info: ActivationInfo) => {
+      if (!this.activeControllers.includes(info.controllerId)) {
+        this.activeControllers.push(info.controllerId);
+      }
       this.isActive = true;
       this.fire('activated', info);
     });
 
-    this.socket.on('client:deactivated', (info: { serviceName: string }) => {
-      this.isActive = false;
+    this.socket.on('client:deactivated', (info: ActivationInfo) => {
+      this.activeControllers = this.activeControllers.filter((id) => id !== info.controllerId);
+      this.isActive = this.activeControllers.length > 0;
       this.fire('deactivated', info);
     });
 
@@ -285,6 +677,22 @@ export class PSNavClient {
       this.fire('clientList', info);
     });
 
+    this.socket.on('client:switcher', (state: SwitcherState) => {
+      if (state.open) this.switchers[state.controllerId] = state;
+      else delete this.switchers[state.controllerId];
+      this.fire('switcher', state);
+    });
+
+    // ── Calibration ──
+
+    this.socket.on('calibration:progress', (progress: CalibrationProgress) => {
+      this.fire('calibrationProgress', progress);
+    });
+
+    this.socket.on('calibration:done', (result: CalibrationResult) => {
+      this.fire('calibrationDone', result);
+    });
+
     // ── Battery status ──
 
     this.socket.on('battery:status', (status: BatteryStatus) => {
@@ -296,6 +704,7 @@ export class PSNavClient {
   /** Disconnect from the server */
   disconnect(): void {
     if (!this.socket) return;
+    this.stopLatencyReporting();
     this.socket.disconnect();
     this.socket = null;
   }
@@ -305,43 +714,260 @@ export class PSNavClient {
     return this.socket?.connected ?? false;
   }
 
-  /** Request battery status from the server (response arrives via 'battery' event) */
-  requestBattery(): void {
+  /**
+   * Request battery status from the server (response arrives via 'battery' event).
+   * Without a controllerId the server answers once per connected controller.
+   */
+  requestBattery(controllerId?: string): void {
     if (!this.socket?.connected) return;
-    this.socket.emit('battery:request');
+    this.socket.emit('battery:request', controllerId);
+  }
+
+  /**
+   * Estimate the offset between the hub clock and the local clock. Sends
+   * `samples` clock:sync requests and keeps the one with the shortest round
+   * trip (NTP-style: offset = serverTime - (t0 + t1) / 2).
+   */
+  async syncClock(samples = 5): Promise<ClockSync> {
+    if (!this.socket?.connected) throw new Error('Not connected');
+
+    let best: ClockSync | null = null;
+    for (let i = 0; i < samples; i++) {
+      const t0 = Date.now();
+      const serverTime: number = await this.socket.timeout(CLOCK_SYNC_TIMEOUT_MS).emitWithAck('clock:sync', t0);
+      const t1 = Date.now();
+      const sample = { offset: serverTime - (t0 + t1) / 2, rtt: t1 - t0 };
+      if (!best || sample.rtt < best.rtt) best = sample;
+    }
+
+    this.clockOffset = best!.offset;
+    this.clockRtt = best!.rtt;
+    return best!;
+  }
+
+  /**
+   * Run the hub's guided stick / L2 calibration for a controller (default:
+   * the only connected one). Progress arrives via 'calibrationProgress'; the
+   * promise resolves with the same result as the 'calibrationDone' event,
+   * and rejects if the connection drops or the hub does not finish in time.
+   */
+  startCalibration(controllerId?: string): Promise<CalibrationResult> {
+    const socket = this.socket;
+    if (!socket?.connected) return Promise.reject(new Error('Not connected'));
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        this.off('calibrationDone', onDone);
+        socket.off('disconnect', onDisconnect);
+      };
+      const onDone: CalDoneCallback = (result) => {
+        if (controllerId && result.controllerId && result.controllerId !== controllerId) return;
+        settle();
+        resolve(result);
+      };
+      const onDisconnect = () => {
+        settle();
+        reject(new Error('Disconnected during calibration'));
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new Error(`Calibration did not finish within ${CALIBRATION_TIMEOUT_MS / 1000}s`));
+      }, CALIBRATION_TIMEOUT_MS);
+      this.on('calibrationDone', onDone);
+      socket.on('disconnect', onDisconnect);
+      socket.emit('calibration:start', controllerId);
+    });
+  }
+
+  /** Abort a calibration started by this client */
+  cancelCalibration(): void {
+    this.socket?.emit('calibration:cancel');
+  }
+
+  /** Replace the event filter (null: receive everything again); kept across reconnects */
+  setFilter(filter: NavFilter | null): void {
+    this.opts.filter = filter ?? undefined;
+    this.socket?.emit('subscribe:filter', filter);
+  }
+
+  /**
+   * Take a controller's focus on top of the current holder — granted if
+   * `priority` (default 1) is at least the holder's. The user switching
+   * services has priority 0. Call yieldFocus() when done.
+   */
+  requestFocus(request: FocusRequest = {}): Promise<FocusResult> {
+    return this.focusRequest('client:request-focus', request);
+  }
+
+  /** Hand focus back to whoever held it before (default: on every controller) */
+  yieldFocus(controllerId?: string): Promise<FocusResult> {
+    return this.focusRequest('client:yield', controllerId ? { controller: controllerId } : {});
+  }
+
+  /** Switch a controller to a named service, unless a higher-priority request holds it */
+  activate(serviceName: string, controllerId?: string): Promise<FocusResult> {
+    return this.focusRequest('client:activate', controllerId ? { serviceName, controller: controllerId } : { serviceName });
+  }
+
+  private async focusRequest(
+    event: 'client:request-focus' | 'client:yield' | 'client:activate',
+    request: object,
+  ): Promise<FocusResult> {
+    if (!this.socket?.connected) throw new Error('Not connected');
+    return this.socket.timeout(FOCUS_TIMEOUT_MS).emitWithAck(event, request);
+  }
+
+  /** Admin: have the hub record raw controller input to capture files (see README, "Record and replay") */
+  startCapture(request: CaptureRequest = {}): Promise<CaptureResult> {
+    return this.adminRequest('capture:start', request);
+  }
+
+  /** Admin: stop recording and close the capture files */
+  stopCapture(request: CaptureRequest = {}): Promise<CaptureResult> {
+    return this.adminRequest('capture:stop', request);
+  }
+
+  private async adminRequest(event: 'capture:start' | 'capture:stop', request: CaptureRequest): Promise<CaptureResult> {
+    if (!this.socket?.connected) throw new Error('Not connected');
+    return this.socket.timeout(ADMIN_TIMEOUT_MS).emitWithAck(event, request);
+  }
+
+  /** Latest known state of a controller, or undefined if it never reported */
+  getControllerState(controllerId: string): PSNavControllerState | undefined {
+    return this.controllers[controllerId];
   }
 
   // ─── Event subscription ─────────────────────────────────────────────────
 
-  on<E extends EventName>(event: E, callback: CallbackFor<E>): this {
-    (this.callbacks[event] as Set<CallbackFor<E>>).add(callback);
+  /**
+   * Subscribe to an event. With a controllerId, the callback only fires for
+   * events carrying that controllerId (button, axis, frame, state, stick, gesture, switcher, connected, disconnected,
+   * activated, deactivated, battery, calibration); events without a controllerId are not filtered.
+   */
+  on<E extends EventName>(event: E, callback: CallbackFor<E>, controllerId?: string): this {
+    const callbacks = this.callbacks[event] as Set<unknown>;
+    if (controllerId === undefined) {
+      callbacks.add(callback);
+      return this;
+    }
+
+    let byCallback = this.controllerFilters.get(event);
+    if (!byCallback) this.controllerFilters.set(event, (byCallback = new Map()));
+    let wrappers = byCallback.get(callback);
+    if (!wrappers) byCallback.set(callback, (wrappers = new Map()));
+    if (wrappers.has(controllerId)) return this;
+
+    const wrapper = (...args: unknown[]) => {
+      const source = (args[0] as { controllerId?: string | null } | undefined)?.controllerId;
+      if (source == null || source === controllerId) (callback as (...a: unknown[]) => void)(...args);
+    };
+    wrappers.set(controllerId, wrapper);
+    callbacks.add(wrapper);
     return this;
   }
 
-  off<E extends EventName>(event: E, callback: CallbackFor<E>): this {
-    (this.callbacks[event] as Set<CallbackFor<E>>).delete(callback);
+  /** Unsubscribe a callback from an event — only its subscription for one controller if a controllerId is given */
+  off<E extends EventName>(event: E, callback: CallbackFor<E>, controllerId?: string): this {
+    const callbacks = this.callbacks[event] as Set<unknown>;
+    const byCallback = this.controllerFilters.get(event);
+    const wrappers = byCallback?.get(callback);
+    if (controllerId === undefined) callbacks.delete(callback);
+    for (const [id, wrapper] of wrappers ?? []) {
+      if (controllerId !== undefined && id !== controllerId) continue;
+      callbacks.delete(wrapper);
+      wrappers!.delete(id);
+    }
+    if (wrappers?.size === 0) byCallback!.delete(callback);
     return this;
   }
 
-  /** Subscribe to a specific button only */
-  onButton(button: PSNavButton, callback: (pressed: boolean) => void): this {
+  /** Subscribe to a specific button only, optionally on a single controller */
+  onButton(button: PSNavButton, callback: (pressed: boolean) => void, controllerId?: string): this {
     return this.on('button', (evt) => {
       if (evt.button === button) callback(evt.pressed);
-    });
+    }, controllerId);
   }
 
-  /** Subscribe to a specific axis only */
-  onAxis(axis: PSNavAxis, callback: (value: number) => void): this {
+  /** Subscribe to a specific axis only, optionally on a single controller */
+  onAxis(axis: PSNavAxis, callback: (value: number) => void, controllerId?: string): this {
     return this.on('axis', (evt) => {
       if (evt.axis === axis) callback(evt.value);
-    });
+    }, controllerId);
   }
 
   // ─── Internals ──────────────────────────────────────────────────────────
 
+  /** Record how long ago (hub clock) the event happened, now that it reaches the handlers */
+  private measureLatency(eventTime: number): void {
+    if (!this.opts.latency || this.clockOffset === null) return;
+    this.lastLatency = Date.now() + this.clockOffset - eventTime;
+    this.latencySamples.push(this.lastLatency);
+  }
+
+  private startLatencyReporting(): void {
+    this.stopLatencyReporting();
+
+    const sync = () => {
+      this.syncClock().catch((err: Error) => {
+        console.error('[psnav] clock sync failed:', err.message);
+      });
+    };
+    sync();
+
+    this.latencyTimers.push(
+      setInterval(sync, CLOCK_SYNC_INTERVAL_MS),
+      setInterval(() => {
+        if (!this.socket?.connected || this.latencySamples.length === 0 || this.clockOffset === null) return;
+        this.socket.emit('latency:report', {
+          samples: this.latencySamples,
+          clockOffset: this.clockOffset,
+          rtt: this.clockRtt,
+        });
+        this.latencySamples = [];
+      }, LATENCY_REPORT_INTERVAL_MS),
+    );
+  }
+
+  private stopLatencyReporting(): void {
+    for (const timer of this.latencyTimers) clearInterval(timer);
+    this.latencyTimers = [];
+    this.latencySamples = [];
+  }
+
+  /** Get (or create) the state of a controller and make it the `buttons`/`axes` snapshot */
+  private stateFor(controllerId: string): PSNavControllerState {
+    let state = this.controllers[controllerId];
+    if (!state) {
+      state = createControllerState();
+      this.controllers[controllerId] = state;
+    }
+    this.buttons = state.buttons;
+    this.axes = state.axes;
+    return state;
+  }
+
   private fire(event: EventName, ...args: unknown[]): void {
     for (const cb of this.callbacks[event]) {
       (cb as (...a: unknown[]) => void)(...args);
     }
   }
 }
+
+function createControllerState(): PSNavControllerState {
+  return {
+    buttons: {
+      cross: false, circle: false,
+      l1: false, l2: false, l3: false,
+      dpad_up: false, dpad_down: false, dpad_left: false, dpad_right: false,
+      ps: false,
+      stick_up: false, stick_down: false, stick_left: false, stick_right: false,
+    },
+    axes: {
+      stick_x: 128,
+      stick_y: 128,
+      l2_analog: 0,
+    },
+    stick: { x: 0, y: 0, angle: 0, magnitude: 0, l2: 0 },
+  };
+}
@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import { DeviceInfo, InputModeDetection, RawInputEvent } from './types';
+import { InputSource, eventTime, kernelTime } from './input-source';
+import type { Capture } from './capture';
+
+// ─── Replay input (recorded captures) ───────────────────────────────────────
+//
+// Plays a capture back as if the controller were connected: the events keep
+// their recorded spacing (divided by `speed`) and are stamped with the time
+// they are replayed, so gestures, auto-repeat and latency work as live.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Pause between the end of a capture and the start of the next loop, so the
+// last and first reports are not merged
+const LOOP_GAP_MS = 500;
+
+export interface ReplayOptions {
+  /** Playback speed: 1 = as recorded, 2 = twice as fast (default: 1) */
+  speed?: number;
+  /** Start over at the end instead of closing (default: false) */
+  loop?: boolean;
+  /** Controller identity (default: the recorded one) */
+  controllerId?: string;
+}
+
+export declare interface ReplaySource {
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+export class ReplaySource extends EventEmitter implements InputSource {
+  public readonly controllerId: string;
+  public readonly deviceInfo: DeviceInfo | null;
+  public readonly inputMode?: InputModeDetection;
+  private readonly events: RawInputEvent[];
+  /** Offset of each event from the first one, in recorded ms */
+  private readonly offsets: number[];
+  private readonly speed: number;
+  private readonly loop: boolean;
+  private next = 0;
+  private startedAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(public readonly device: string, capture: Capture, opts: ReplayOptions = {}) {
+    super();
+    this.controllerId = opts.controllerId ?? capture.header.controllerId;
+    this.deviceInfo = capture.header.deviceInfo;
+    if (capture.header.inputMode) this.inputMode = capture.header.inputMode;
+    this.events = capture.events;
+    const first = this.events.length > 0 ? kernelTime(this.events[0]) : 0;
+    this.offsets = this.events.map((raw) => kernelTime(raw) - first);
+    this.speed = opts.speed ?? 1;
+    this.loop = opts.loop ?? false;
+  }
+
+  start(): void {
+    console.log(`[replay] Playing ${this.device} as ${this.controllerId}: ${this.events.length} events at ${this.speed}x${this.loop ? ', looping' : ''}`);
+    this.emit('open');
+    if (this.events.length === 0) {
+      this.emit('close', 'empty capture');
+      return;
+    }
+    this.startedAt = Date.now();
+    this.step();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.emit('close', 'stopped');
+  }
+
+  /** Emit every event that is due, then wait for the next one */
+  private step(): void {
+    this.timer = null;
+    const now = Date.now();
+    while (this.next < this.events.length) {
+      const due = this.startedAt + this.offsets[this.next] / this.speed;
+      if (due > now) {
+        this.timer = setTimeout(() => this.step(), due - now);
+        return;
+      }
+      const { type, code, value } = this.events[this.next++];
+      this.emit('raw', { ...eventTime(due), type, code, value });
+    }
+
+    if (!this.loop) {
+      this.emit('close', 'end of capture');
+      return;
+    }
+    this.next = 0;
+    this.timer = setTimeout(() => {
+      this.startedAt = Date.now();
+      this.step();
+    }, LOOP_GAP_MS);
+  }
+}
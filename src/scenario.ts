@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import {
+  PSNAV_AXES,
+  PSNAV_AXIS_REST,
+  PSNAV_BUTTONS,
+  PSNavAxis,
+  PSNavButton,
+  RawInputEvent,
+  EV_ABS,
+  EV_SYN,
+  SYN_REPORT,
+} from './types';
+import { InputSource, eventTime } from './input-source';
+import { AXIS_CODES, MOCK_DEVICE_INFO, MOCK_INPUT_MODE, RawTriple, buttonEvents } from './mock-source';
+
+// ─── Scripted mock scenarios ────────────────────────────────────────────────
+//
+// A scenario is a JSON file of timed steps, run with MOCK_INPUT=<file>:
+//
+//   {
+//     "name": "open the switcher and pick the next service",
+//     "seed": 42,
+//     "loop": false,
+//     "steps": [
+//       { "wait": 1000 },
+//       { "ps": "hold", "ms": 800 },
+//       { "axis": "stick_x", "to": 255, "ms": 200 },
+//       { "axis": "stick_x", "to": 128 },
+//       { "hold": "cross" },
+//       { "loop": [{ "random": [{ "hold": "dpad_up" }, { "hold": "dpad_down" }] }, { "wait": [300, 900] }], "times": 5 }
+//     ]
+//   }
+//
+//   wait     pause for ms
+//   press    press a button (or a list, in one report) and keep it held
+//   release  release a button (or a list)
+//   hold     press a button, wait `ms` (default 100), release it
+//   chord    press several buttons in one report, hold `ms` (default 100), release them
+//   ps       "tap" (50ms) or "hold" (`ms`, default 1000) — the PS button, for the system bindings
+//   axis     move an axis (0-255) to `to`, ramped over `ms` (default 0: jump) in 10ms reports
+//   random   run one of the listed steps
+//   loop     run the listed steps `times` times (default: forever)
+//
+// Any duration or axis value can be [min, max] for a random pick. Random
+// picks come from a seeded RNG (`seed`, or MOCK_SEED) and every event is
+// stamped with its scheduled time rather than the time the timer fired, so a
+// scenario with the same seed produces the same events every run.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A fixed number, or [min, max] picked by the scenario's RNG */
+export type ScenarioRange = number | [number, number];
+
+export type ScenarioStep =
+  | { wait: ScenarioRange }
+  | { press: PSNavButton[] }
+  | { release: PSNavButton[] }
+  | { hold: PSNavButton; ms: ScenarioRange }
+  | { chord: PSNavButton[]; ms: ScenarioRange }
+  | { ps: 'tap' | 'hold'; ms: ScenarioRange }
+  | { axis: PSNavAxis; to: ScenarioRange; ms: ScenarioRange }
+  | { random: ScenarioStep[] }
+  | { loop: ScenarioStep[]; times: number };
+
+export interface Scenario {
+  name: string;
+  /** Controller identity the scenario plays as */
+  controllerId: string;
+  /** RNG seed for random picks, null to pick one per run */
+  seed: number | null;
+  /** Start over at the end instead of disconnecting */
+  loop: boolean;
+  steps: ScenarioStep[];
+  /** File the scenario was loaded from */
+  source: string;
+}
+
+/** Thrown for a scenario file that does not pass the schema check */
+export class ScenarioError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid scenario ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+const HOLD_MS = 100;
+const PS_TAP_MS = 50;
+const PS_HOLD_MS = 1000;
+// A real Nav reports every ~10ms; axis ramps move at the same rate
+const AXIS_REPORT_MS = 10;
+// Steps in a row that take no time before a run is considered stuck
+const MAX_STEPS_WITHOUT_WAIT = 10_000;
+
+// ─── Schema check ───────────────────────────────────────────────────────────
+
+const TOP_LEVEL_KEYS = ['$schema', 'description', 'name', 'controllerId', 'seed', 'loop', 'steps'];
+const STEP_KINDS = ['wait', 'press', 'release', 'hold', 'chord', 'ps', 'axis', 'random', 'loop'];
+const STEP_OPTIONS: Record<string, string[]> = { hold: ['ms'], chord: ['ms'], ps: ['ms'], axis: ['to', 'ms'], loop: ['times'] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseRange(value: unknown, where: string, max: number, problems: string[]): ScenarioRange | null {
+  const valid = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= max;
+  if (valid(value)) return value;
+  if (Array.isArray(value) && value.length === 2 && valid(value[0]) && valid(value[1]) && value[0] <= value[1]) {
+    return [value[0], value[1]];
+  }
+  const limit = max === Infinity ? '≥ 0' : `0-${max}`;
+  problems.push(`${where}: expected a number (${limit}) or [min, max]`);
+  return null;
+}
+
+function parseButtons(value: unknown, where: string, problems: string[]): PSNavButton[] | null {
+  const list = Array.isArray(value) ? value : [value];
+  const unknown = list.filter((b) => !PSNAV_BUTTONS.includes(b as PSNavButton));
+  if (list.length === 0 || unknown.length > 0) {
+    problems.push(`${where}: expected a button or a list of buttons (${PSNAV_BUTTONS.join(', ')})`);
+    return null;
+  }
+  return list as PSNavButton[];
+}
+
+function parseSteps(value: unknown, where: string, problems: string[]): ScenarioStep[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    problems.push(`${where}: expected a non-empty list of steps`);
+    return [];
+  }
+  return value.flatMap((step, i) => parseStep(step, `${where}[${i}]`, problems) ?? []);
+}
+
+function parseStep(value: unknown, where: string, problems: string[]): ScenarioStep | null {
+  const kinds = isObject(value) ? STEP_KINDS.filter((k) => k in value) : [];
+  if (!isObject(value) || kinds.length !== 1) {
+    problems.push(`${where}: a step is an object with one of ${STEP_KINDS.join(', ')}`);
+    return null;
+  }
+  const kind = kinds[0];
+  for (const key of Object.keys(value)) {
+    if (key !== kind && !STEP_OPTIONS[kind]?.includes(key)) problems.push(`${where}: unknown key "${key}" for ${kind}`);
+  }
+  const at = `${where}.${kind}`;
+  const ms = (fallback: number) => value.ms === undefined ? fallback : parseRange(value.ms, `${where}.ms`, Infinity, problems);
+
+  switch (kind) {
+    case 'wait': {
+      const wait = parseRange(value.wait, at, Infinity, problems);
+      return wait === null ? null : { wait };
+    }
+    case 'press':
+    case 'release': {
+      const buttons = parseButtons(value[kind], at, problems);
+      if (!buttons) return null;
+      return kind === 'press' ? { press: buttons } : { release: buttons };
+    }
+    case 'hold': {
+      const [button] = parseButtons(value.hold, at, problems) ?? [];
+      if (Array.isArray(value.hold)) problems.push(`${at}: one button — use "chord" for several`);
+      const hold = ms(HOLD_MS);
+      return button && hold !== null && !Array.isArray(value.hold) ? { hold: button, ms: hold } : null;
+    }
+    case 'chord': {
+      const buttons = parseButtons(value.chord, at, problems);
+      if (buttons && buttons.length < 2) problems.push(`${at}: a chord needs at least two buttons`);
+      const hold = ms(HOLD_MS);
+      return buttons && buttons.length >= 2 && hold !== null ? { chord: buttons, ms: hold } : null;
+    }
+    case 'ps': {
+      if (value.ps !== 'tap' && value.ps !== 'hold') {
+        problems.push(`${at}: expected "tap" or "hold"`);
+        return null;
+      }
+      if (value.ps === 'tap' && value.ms !== undefined) problems.push(`${where}.ms: only for "hold"`);
+      const hold = value.ps === 'tap' ? PS_TAP_MS : ms(PS_HOLD_MS);
+      return hold === null ? null : { ps: value.ps, ms: hold };
+    }
+    case 'axis': {
+      if (!PSNAV_AXES.includes(value.axis as PSNavAxis)) {
+        problems.push(`${at}: expected one of ${PSNAV_AXES.join(', ')}`);
+        return null;
+      }
+      const to = parseRange(value.to, `${where}.to`, 255, problems);
+      const ramp = ms(0);
+      return to === null || ramp === null ? null : { axis: value.axis as PSNavAxis, to, ms: ramp };
+    }
+    case 'random': {
+      const steps = parseSteps(value.random, at, problems);
+      return steps.length > 0 ? { random: steps } : null;
+    }
+    case 'loop': {
+      const steps = parseSteps(value.loop, at, problems);
+      const times = value.times ?? Infinity;
+      if (times !== Infinity && !(typeof times === 'number' && Number.isInteger(times) && times > 0)) {
+        problems.push(`${where}.times: expected a positive whole number`);
+        return null;
+      }
+      return steps.length > 0 ? { loop: steps, times: times as number } : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a parsed JSON scenario against the schema, filling in defaults.
+ * Collects every problem before throwing a ScenarioError.
+ */
+export function parseScenario(json: unknown, source: string): Scenario {
+  if (!isObject(json)) throw new ScenarioError(source, ['a scenario must be a JSON object']);
+
+  const problems: string[] = [];
+  for (const key of Object.keys(json)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) problems.push(`unknown key "${key}"`);
+  }
+  const text = (key: string, fallback: string): string => {
+    if (json[key] === undefined) return fallback;
+    if (typeof json[key] === 'string' && json[key]) return json[key] as string;
+    problems.push(`"${key}" must be a non-empty string`);
+    return fallback;
+  };
+
+  const scenario: Scenario = {
+    name: text('name', source),
+    controllerId: text('controllerId', 'mock'),
+    seed: null,
+    loop: false,
+    steps: parseSteps(json.steps, 'steps', problems),
+    source,
+  };
+  if (json.seed !== undefined) {
+    if (typeof json.seed === 'number' && Number.isInteger(json.seed)) scenario.seed = json.seed;
+    else problems.push('"seed" must be a whole number');
+  }
+  if (json.loop !== undefined) {
+    if (typeof json.loop === 'boolean') scenario.loop = json.loop;
+    else problems.push('"loop" must be true or false');
+  }
+
+  if (problems.length > 0) throw new ScenarioError(source, problems);
+  return scenario;
+}
+
+/** Read and check a scenario file; throws a ScenarioError (or the read / JSON error) */
+export function loadScenario(file: string): Scenario {
+  const text = fs.readFileSync(file, 'utf-8');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new ScenarioError(file, [`not valid JSON: ${(err as Error).message}`]);
+  }
+  return parseScenario(json, file);
+}
+
+// ─── Running ────────────────────────────────────────────────────────────────
+
+/** mulberry32: small, fast and the same sequence for the same seed everywhere */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** What a running scenario does next: move its clock on, or send one report */
+type ScenarioAction = { wait: number } | { report: RawTriple[] };
+
+class ScenarioRun {
+  private axes: Record<PSNavAxis, number> = { ...PSNAV_AXIS_REST };
+
+  constructor(private readonly rng: () => number) {}
+
+  private pick(range: ScenarioRange): number {
+    if (typeof range === 'number') return range;
+    const [min, max] = range;
+    return min + (max - min) * this.rng();
+  }
+
+  *steps(steps: ScenarioStep[]): Generator<ScenarioAction> {
+    for (const step of steps) yield* this.step(step);
+  }
+
+  private *step(step: ScenarioStep): Generator<ScenarioAction> {
+    if ('wait' in step) {
+      yield { wait: this.pick(step.wait) };
+    } else if ('press' in step) {
+      yield { report: this.buttons(step.press, true) };
+    } else if ('release' in step) {
+      yield { report: this.buttons(step.release, false) };
+    } else if ('hold' in step || 'chord' in step || 'ps' in step) {
+      const buttons: PSNavButton[] = 'hold' in step ? [step.hold] : 'chord' in step ? step.chord : ['ps'];
+      yield { report: this.buttons(buttons, true) };
+      yield { wait: this.pick(step.ms) };
+      yield { report: this.buttons(buttons, false) };
+    } else if ('axis' in step) {
+      yield* this.ramp(step.axis, Math.round(this.pick(step.to)), this.pick(step.ms));
+    } else if ('random' in step) {
+      yield* this.step(step.random[Math.floor(this.rng() * step.random.length)]);
+    } else {
+      for (let i = 0; i < step.times; i++) yield* this.steps(step.loop);
+    }
+  }
+
+  /** Button events for one report; L2 also moves its analog axis, so ramps start from there */
+  private buttons(buttons: PSNavButton[], pressed: boolean): RawTriple[] {
+    if (buttons.includes('l2')) this.axes.l2_analog = pressed ? 255 : 0;
+    return buttons.flatMap((b) => buttonEvents(b, pressed));
+  }
+
+  private *ramp(axis: PSNavAxis, to: number, ms: number): Generator<ScenarioAction> {
+    const from = this.axes[axis];
+    const reports = Math.max(1, Math.round(ms / AXIS_REPORT_MS));
+    for (let i = 1; i <= reports; i++) {
+      if (ms > 0) yield { wait: ms / reports };
+      const value = Math.round(from + ((to - from) * i) / reports);
+      if (value === this.axes[axis]) continue;
+      this.axes[axis] = value;
+      yield { report: [[EV_ABS, AXIS_CODES[axis], value]] };
+    }
+  }
+}
+
+export interface ScenarioSourceOptions {
+  /** Overrides the scenario's seed */
+  seed?: number;
+}
+
+export declare interface ScenarioSource {
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/** Mock input source that plays a scenario */
+export class ScenarioSource extends EventEmitter implements InputSource {
+  public readonly inputMode = MOCK_INPUT_MODE;
+  public readonly deviceInfo = MOCK_DEVICE_INFO;
+  public readonly controllerId: string;
+  public readonly seed: number;
+  private actions: Generator<ScenarioAction> | null = null;
+  private startedAt = 0;
+  /** Scenario time in ms since start — where the next event is stamped */
+  private clock = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly scenario: Scenario, opts: ScenarioSourceOptions = {}) {
+    super();
+    this.controllerId = scenario.controllerId;
+    this.seed = opts.seed ?? scenario.seed ?? Math.floor(Math.random() * 2 ** 32);
+  }
+
+  get device(): string {
+    return this.scenario.source;
+  }
+
+  start(): void {
+    console.log(`[mock] Playing scenario "${this.scenario.name}" as ${this.controllerId} (seed ${this.seed}${this.scenario.loop ? ', looping' : ''})`);
+    this.emit('open');
+    this.actions = this.run();
+    this.startedAt = Date.now();
+    this.clock = 0;
+    this.advance();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.actions?.return(undefined);
+    this.actions = null;
+    this.emit('close', 'stopped');
+  }
+
+  private *run(): Generator<ScenarioAction> {
+    const run = new ScenarioRun(createRng(this.seed));
+    do {
+      yield* run.steps(this.scenario.steps);
+    } while (this.scenario.loop);
+  }
+
+  /** Send everything up to the next wait, then sleep until the scenario clock gets there */
+  private advance(): void {
+    this.timer = null;
+    for (let steps = 0; this.actions; steps++) {
+      if (steps > MAX_STEPS_WITHOUT_WAIT) {
+        console.error(`[mock] Scenario "${this.scenario.name}" loops without waiting — stopping it`);
+        this.stop();
+        return;
+      }
+      const next = this.actions.next();
+      if (next.done) {
+        this.actions = null;
+        this.emit('close', 'end of scenario');
+        return;
+      }
+      const action = next.value;
+      if ('report' in action) {
+        this.report(action.report);
+      } else if (action.wait > 0) {
+        this.clock += action.wait;
+        this.timer = setTimeout(() => this.advance(), Math.max(0, this.startedAt + this.clock - Date.now()));
+        return;
+      }
+    }
+  }
+
+  /** Emit events followed by SYN_REPORT, stamped with the scenario clock */
+  private report(events: RawTriple[]): void {
+    if (events.length === 0) return;
+    const time = eventTime(this.startedAt + this.clock);
+    for (const [type, code, value] of events) this.emit('raw', { ...time, type, code, value });
+    this.emit('raw', { ...time, type: EV_SYN, code: SYN_REPORT, value: 0 });
+  }
+}
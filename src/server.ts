@@ -3,7 +3,28 @@ import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { timingSafeEqual } from 'crypto';
 import { EvdevReader } from './evdev-reader';
+import { InputMapper } from './input-mapper';
+import { MockSource } from './mock-source';
+import { Scenario, ScenarioSource, loadScenario } from './scenario';
+import { ReplaySource } from './replay-source';
+import { VirtualSource } from './virtual-source';
+import { Capture, CaptureRecorder, captureFileName, loadCapture } from './capture';
+import type { InputSource } from './input-source';
+import { ProfileStore } from './mapping-profile';
+import { INPUT_SYSFS, readDeviceInfo } from './device-info';
+import { CalibrationStore, CalibrationSession } from './calibration';
+import { EV_ABS, PSNAV_GESTURE_TYPES } from './types';
+import { createLatencyHistogram, recordLatencyReport, summarizeLatency } from './latency';
+import { AxisProcessor, StickTracker, resolveAxisSettings } from './axis-processing';
+import { GestureEngine, DEFAULT_GESTURE_THRESHOLDS, flickDirection } from './gestures';
+import { StickButtonOptions, DEFAULT_STICK_BUTTONS } from './stick-buttons';
+import { AutoRepeater, resolveRepeatOptions } from './auto-repeat';
+import { SystemBindingsStore, SystemChords, SystemAction } from './system-bindings';
+import { ServiceStateStore } from './service-state';
+import { AxisThrottle, ResolvedFilter, filterFrame, resolveNavFilter } from './event-filter';
+import { NavStateTracker } from './nav-state';
 import type {
   ServerToClientEvents,
   ClientToServerEvents,
@@ -11,18 +32,97 @@ import type {
   SocketData,
   PSNavButtonEvent,
   PSNavAxisEvent,
+  PSNavFrameEvent,
+  PSNavGestureEvent,
+  PSNavGestureType,
+  GestureOptions,
   RawInputEvent,
   RegisteredClient,
   ClientListInfo,
+  SwitcherState,
+  PSNavEvent,
+  ControllerFocus,
+  FocusRequest,
+  FocusResult,
+  YieldRequest,
+  ActivateRequest,
+  RegisterOptions,
+  ServiceRole,
   BatteryStatus,
+  ControllerInfo,
+  ConnectedController,
+  DeviceInfo,
+  CaptureRequest,
+  CaptureResult,
+  PadAuth,
+  PadClientToServerEvents,
+  PadServerToClientEvents,
+  PadSocketData,
 } from './types';
 
 // ─── Configuration ──────────────────────────────────────────────────────────
 
+/** A whole number of ms, at least `min`, from the environment; a bad value warns and falls back */
+function envMs(name: string, fallback: number, min = 1): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const ms = Number(value);
+  if (Number.isInteger(ms) && ms >= min) return ms;
+  console.warn(`[config] ${name} must be a ${min > 0 ? 'positive' : 'non-negative'} whole number of ms, got "${value}" — using ${fallback}`);
+  return fallback;
+}
+
 const PORT = parseInt(process.env.PORT ?? '3050', 10);
 const DEVICE_PATH_FALLBACK = process.env.DEVICE_PATH ?? '/dev/input/event5';
 const IS_32BIT = process.env.IS_32BIT === '1';
-const MOCK_INPUT = process.env.MOCK_INPUT === '1';
+/** MOCK_INPUT=1 for the built-in mock, or the path of a scenario file to play */
+const MOCK_INPUT = process.env.MOCK_INPUT && process.env.MOCK_INPUT !== '0' ? process.env.MOCK_INPUT : '';
+const MOCK_SCENARIO = MOCK_INPUT === '1' ? '' : MOCK_INPUT;
+// Number(), not parseInt(): "1.5" or "12abc" must fail the whole-number check in startMock
+const MOCK_SEED = process.env.MOCK_SEED ? Number(process.env.MOCK_SEED) : undefined;
+/** Where controller input comes from: evdev devices, mock or replay (MOCK_INPUT is short for mock) */
+const INPUT_SOURCE = process.env.INPUT_SOURCE ?? (MOCK_INPUT ? 'mock' : 'evdev');
+const REPLAY_FILE = process.env.REPLAY_FILE ?? '';
+const REPLAY_SPEED = parseFloat(process.env.REPLAY_SPEED ?? '1');
+const REPLAY_LOOP = process.env.REPLAY_LOOP === '1';
+const CAPTURE_DIR = process.env.CAPTURE_DIR ?? path.join(__dirname, '..', 'captures');
+const RECORD_INPUT = process.env.RECORD_INPUT === '1';
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN ?? '';
+/** Token the virtual pad page must present; the pad is disabled without one */
+const PAD_TOKEN = process.env.PAD_TOKEN ?? '';
+const PAD_PAGE = path.join(__dirname, '..', 'public', 'pad.html');
+const PAD_SOCKET_PATH = '/pad/socket.io';
+const PROFILES_DIR = process.env.PROFILES_DIR ?? path.join(__dirname, '..', 'profiles');
+const CALIBRATION_DIR = process.env.CALIBRATION_DIR ?? path.join(__dirname, '..', 'calibration');
+const SYSTEM_BINDINGS = process.env.SYSTEM_BINDINGS ?? path.join(__dirname, '..', 'system-bindings.json');
+const SERVICE_STATE = process.env.SERVICE_STATE ?? path.join(__dirname, '..', 'service-state.json');
+// 0 turns the grace period off
+const RECONNECT_GRACE_MS = envMs('RECONNECT_GRACE_MS', 10000, 0);
+const GESTURE_THRESHOLDS = {
+  ...DEFAULT_GESTURE_THRESHOLDS,
+  longPressMs: envMs('GESTURE_LONG_PRESS_MS', DEFAULT_GESTURE_THRESHOLDS.longPressMs),
+  doubleTapMs: envMs('GESTURE_DOUBLE_TAP_MS', DEFAULT_GESTURE_THRESHOLDS.doubleTapMs),
+  flickMs: envMs('GESTURE_FLICK_MS', DEFAULT_GESTURE_THRESHOLDS.flickMs),
+};
+const STICK_BUTTONS = stickButtonOptions();
+
+/** Virtual stick buttons are opt-in: STICK_BUTTONS=4 or 8, with thresholds checked for hysteresis */
+function stickButtonOptions(): StickButtonOptions | null {
+  const mode = process.env.STICK_BUTTONS ?? 'off';
+  if (mode !== '4' && mode !== '8') {
+    if (mode !== 'off') console.warn(`[config] STICK_BUTTONS must be 4, 8 or off, got "${mode}" — stick buttons are off`);
+    return null;
+  }
+  const press = parseFloat(process.env.STICK_BUTTON_PRESS ?? `${DEFAULT_STICK_BUTTONS.press}`);
+  const release = parseFloat(process.env.STICK_BUTTON_RELEASE ?? `${DEFAULT_STICK_BUTTONS.release}`);
+  // NaN fails every comparison, so it lands here too
+  if (!(release > 0 && release < press && press <= 1)) {
+    const { press: defaultPress, release: defaultRelease } = DEFAULT_STICK_BUTTONS;
+    console.warn(`[config] STICK_BUTTON_RELEASE / STICK_BUTTON_PRESS must satisfy 0 < release < press <= 1 — using ${defaultRelease} / ${defaultPress}`);
+    return { directions: mode === '8' ? 8 : 4, press: defaultPress, release: defaultRelease };
+  }
+  return { directions: mode === '8' ? 8 : 4, press, release };
+}
 
 // ─── Express + HTTP + Socket.IO ─────────────────────────────────────────────
 
@@ -46,80 +146,578 @@ const io = new Server<
 type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 
 const registeredClients: RegisteredClient[] = [];
-let activeIndex = -1;
+
+/** What a service role takes part in */
+interface RoleRules {
+  /** In the focus rotation; gets input only while a controller drives it */
+  focusable: boolean;
+  /** Gets input from every controller, whatever the focus */
+  allInput: boolean;
+  /** Gets PS presses, which the system bindings otherwise consume */
+  psButton: boolean;
+  /** Gets battery:status whenever a controller's battery changes */
+  batteryUpdates: boolean;
+}
+
+const ROLE_RULES: Record<ServiceRole, RoleRules> = {
+  exclusive: { focusable: true, allInput: false, psButton: false, batteryUpdates: false },
+  observer: { focusable: false, allInput: true, psButton: true, batteryUpdates: true },
+  listener: { focusable: false, allInput: false, psButton: true, batteryUpdates: true },
+};
+
+/** Identity tokens of services that registered with one, by socketId */
+const serviceTokens = new Map<string, string>();
+
+/** Services away within their reconnect grace period: socketId → unregister timer */
+const graceTimers = new Map<string, NodeJS.Timeout>();
+
+/** Rotation order and last active services, saved across restarts */
+const serviceState = new ServiceStateStore(SERVICE_STATE);
+const STARTED_AT = Date.now();
+
+/** Controllers whose focus came from autoAssign — a returning last-active service may take them back */
+const autoAssigned = new Set<string>();
+
+/** A service holding (or waiting to get back) a controller's focus */
+interface FocusEntry {
+  socketId: string;
+  priority: number;
+  reason: string | null;
+}
+
+/**
+ * Per-controller focus stack: controllerId → services, bottom first; the last
+ * entry is the service the controller is driving (an empty stack: none). Only
+ * connected controllers have an entry. Several controllers may focus the same
+ * service (e.g. a two-handed app).
+ *
+ * Switching by the user (PS, switcher, client:activate) replaces the stack
+ * with a single priority-0 entry; client:request-focus pushes on top of it and
+ * client:yield pops back to the previous holder.
+ */
+const controllerFocus = new Map<string, FocusEntry[]>();
+
+/** Priority of focus given by the user or by auto-assignment */
+const USER_FOCUS_PRIORITY = 0;
+/** Priority of a client:request-focus that does not name one */
+const DEFAULT_REQUEST_PRIORITY = 1;
+
+/** socketId of the service a controller is driving, null if none */
+function getFocusedId(controllerId: string): string | null {
+  const stack = controllerFocus.get(controllerId);
+  return stack?.[stack.length - 1]?.socketId ?? null;
+}
+
+/** Services that registered their own deadzone / curve, by socketId */
+const axisProcessors = new Map<string, AxisProcessor>();
+
+/** Sockets subscribed to nav:stick, by socketId */
+const stickTrackers = new Map<string, StickTracker>();
+
+/** What services have been told about each controller, for nav:state and synthetic releases */
+const navState = new NavStateTracker();
+
+/** Sockets that narrowed what they are sent (subscribe:filter), by socketId */
+const socketFilters = new Map<string, { filter: ResolvedFilter; throttle: AxisThrottle }>();
+
+type FilterKind = 'buttons' | 'axes' | 'raw' | 'gestures';
+
+/** Does the socket's filter let this button / axis / raw type / gesture through? */
+function passesFilter<K extends FilterKind>(
+  socketId: string,
+  kind: K,
+  value: NonNullable<ResolvedFilter[K]> extends Set<infer T> ? T : never,
+): boolean {
+  const allowed = socketFilters.get(socketId)?.filter[kind] as Set<unknown> | null | undefined;
+  return !allowed || allowed.has(value);
+}
+
+/** Gestures each service asked for at registration, by socketId */
+const gestureSubscriptions = new Map<string, { types: Set<PSNavGestureType>; flickDirections: 4 | 8 }>();
+
+/** Services that asked for auto-repeat, by socketId */
+const autoRepeaters = new Map<string, AutoRepeater>();
 
 function getClientListInfo(): ClientListInfo {
+  const focus: ControllerFocus[] = [];
+  for (const [controllerId, stack] of controllerFocus) {
+    const socketId = getFocusedId(controllerId);
+    const activeIndex = socketId ? registeredClients.findIndex((c) => c.socketId === socketId) : -1;
+    focus.push({
+      controllerId,
+      activeIndex,
+      activeServiceName: activeIndex >= 0 ? registeredClients[activeIndex].serviceName : null,
+      stack: stack.map((e) => ({
+        serviceName: registeredClients.find((c) => c.socketId === e.socketId)?.serviceName ?? '',
+        priority: e.priority,
+        reason: e.reason,
+      })),
+    });
+  }
   return {
     clients: [...registeredClients],
-    activeIndex,
-    activeServiceName: activeIndex >= 0 ? registeredClients[activeIndex].serviceName : null,
+    activeIndex: focus[0]?.activeIndex ?? -1,
+    activeServiceName: focus[0]?.activeServiceName ?? null,
+    focus,
   };
 }
 
 function broadcastClientList(): void {
   io.emit('client:list', getClientListInfo());
+  saveServiceState();
 }
 
-function getActiveSocket(): TypedSocket | null {
-  if (activeIndex < 0 || activeIndex >= registeredClients.length) return null;
-  const entry = registeredClients[activeIndex];
-  return io.sockets.sockets.get(entry.socketId) as TypedSocket | undefined ?? null;
+/**
+ * Persist the rotation and, per controller, the service at the bottom of its
+ * focus stack — the one the user picked, not a temporary focus request. An
+ * auto-assigned focus is not a pick and leaves the saved one alone.
+ */
+function saveServiceState(): void {
+  const rotation = registeredClients.flatMap((c) => serviceTokens.get(c.socketId) ?? []);
+  const active: Record<string, string | null> = {};
+  for (const [controllerId, stack] of controllerFocus) {
+    const picked = stack[0] && !autoAssigned.has(controllerId) ? stack[0].socketId : null;
+    active[controllerId] = picked ? serviceTokens.get(picked) ?? null : null;
+  }
+  serviceState.update(rotation, active);
 }
 
-/** Get all connected sockets that never called register (always-on observers) */
-function getUnregisteredSockets(): TypedSocket[] {
+/** Get the socket of the service a controller is currently driving */
+function getActiveSocket(controllerId: string): TypedSocket | null {
+  const socketId = getFocusedId(controllerId);
+  if (!socketId) return null;
+  return io.sockets.sockets.get(socketId) as TypedSocket | undefined ?? null;
+}
+
+/** Role rules of a registered socket, null for a socket that never called register */
+function getRoleRules(socketId: string): RoleRules | null {
+  const client = registeredClients.find((c) => c.socketId === socketId);
+  return client ? ROLE_RULES[client.role] : null;
+}
+
+/**
+ * Get the always-on sockets, which receive input from every controller
+ * regardless of focus: sockets that never called register, and observer services
+ */
+function getAlwaysOnSockets(): TypedSocket[] {
   const result: TypedSocket[] = [];
   for (const [, socket] of io.sockets.sockets) {
-    if (!socket.data.serviceName) {
+    if (!socket.data.serviceName || getRoleRules(socket.id)?.allInput) {
       result.push(socket as TypedSocket);
     }
   }
   return result;
 }
 
+/** Get the sockets of services whose role has a rule */
+function getRoleSockets(rule: keyof RoleRules): TypedSocket[] {
+  const result: TypedSocket[] = [];
+  for (const client of registeredClients) {
+    const socket = client.connected && ROLE_RULES[client.role][rule] ? io.sockets.sockets.get(client.socketId) : undefined;
+    if (socket) result.push(socket as TypedSocket);
+  }
+  return result;
+}
+
 /**
- * Emit a nav event to: the active registered client + all unregistered clients.
- * Unregistered clients are "always-on" — they receive events regardless of who
- * is currently active in the service rotation.
+ * Emit a nav event to: the service the originating controller is driving + all
+ * always-on sockets (unregistered clients and observer services).
  */
 function emitNavEvent(event: 'nav:button', data: PSNavButtonEvent): void;
 function emitNavEvent(event: 'nav:axis', data: PSNavAxisEvent): void;
 function emitNavEvent(event: 'nav:button' | 'nav:axis', data: PSNavButtonEvent | PSNavAxisEvent): void {
-  // Active registered client
-  const active = getActiveSocket();
-  if (active) active.emit(event as any, data as any);
+  navState.apply(data);
+  const active = getActiveSocket(data.controllerId);
+  const recipients = getAlwaysOnSockets();
+  if (active) recipients.unshift(active);
+
+  for (const socket of recipients) {
+    if (event === 'nav:axis') {
+      // Services with their own deadzone / curve get theirs from emitAnalogEvent
+      if (!axisProcessors.has(socket.id)) sendAxis(socket, data as PSNavAxisEvent);
+      continue;
+    }
+    const evt = data as PSNavButtonEvent;
+    // PS already reached these as it happened (emitPsButton) — not again as a passthrough
+    if (evt.button === 'ps' && getRoleRules(socket.id)?.psButton) continue;
+    if (!passesFilter(socket.id, 'buttons', evt.button)) continue;
+    socket.emit(event, evt);
+    autoRepeaters.get(socket.id)?.feed(evt);
+  }
+}
+
+/**
+ * Bring a socket that stops getting a controller's input back to rest:
+ * synthetic releases for held buttons and rest values for moved axes
+ */
+function releaseHeldInputs(socket: TypedSocket, controllerId: string): void {
+  socketFilters.get(socket.id)?.throttle.stop(controllerId);
+  for (const evt of navState.releases(controllerId, axisProcessors.has(socket.id))) {
+    if (evt.kind === 'button') {
+      if (passesFilter(socket.id, 'buttons', evt.button)) socket.emit('nav:button', evt);
+    } else if (passesFilter(socket.id, 'axes', evt.axis)) {
+      deliverAxis(socket, evt);
+    }
+  }
+}
+
+/** PS presses are consumed by the system bindings; services whose role asks for them still get them */
+function emitPsButton(evt: PSNavButtonEvent): void {
+  for (const socket of getRoleSockets('psButton')) {
+    if (passesFilter(socket.id, 'buttons', 'ps')) socket.emit('nav:button', evt);
+  }
+}
+
+/** Send an axis change through the socket's filter and rate cap */
+function sendAxis(socket: TypedSocket, data: PSNavAxisEvent): void {
+  const filtered = socketFilters.get(socket.id);
+  if (!filtered) deliverAxis(socket, data);
+  else if (passesFilter(socket.id, 'axes', data.axis)) filtered.throttle.push(data);
+}
+
+/** Emit nav:axis, followed by nav:stick if the socket subscribed to it */
+function deliverAxis(socket: TypedSocket, data: PSNavAxisEvent): void {
+  socket.emit('nav:axis', data);
+  const tracker = stickTrackers.get(socket.id);
+  if (tracker) socket.emit('nav:stick', tracker.update(data));
+}
+
+/**
+ * Feed a pre-deadzone axis value to every service with its own axis
+ * processing. All of them track it; only the focused one and observers are
+ * sent the result.
+ */
+function emitAnalogEvent(data: PSNavAxisEvent): void {
+  const active = getActiveSocket(data.controllerId);
+  const alwaysOn = getAlwaysOnSockets();
+  for (const [socketId, processor] of axisProcessors) {
+    const processed = processor.process(data);
+    const socket = active?.id === socketId ? active : alwaysOn.find((s) => s.id === socketId);
+    if (!socket) continue;
+    for (const evt of processed) sendAxis(socket, evt);
+  }
+}
+
+/** Send a gesture to the service the controller is driving and to observers, if they want that gesture */
+function emitGesture(gesture: PSNavGestureEvent): void {
+  const active = getActiveSocket(gesture.controllerId);
+  const recipients = getAlwaysOnSockets();
+  if (active) recipients.unshift(active);
+
+  for (const socket of recipients) {
+    const subscription = gestureSubscriptions.get(socket.id);
+    if (!subscription?.types.has(gesture.gesture) || !passesFilter(socket.id, 'gestures', gesture.gesture)) continue;
+    const directed = gesture.angle !== undefined && subscription.flickDirections === 4
+      ? { ...gesture, direction: flickDirection(gesture.angle, 4) }
+      : gesture;
+    socket.emit('nav:gesture', directed);
+  }
+}
 
-  // All unregistered (always-on) clients
-  for (const socket of getUnregisteredSockets()) {
-    socket.emit(event as any, data as any);
+/** Emit a frame to the same audience as emitNavEvent, limited to sockets that opted in */
+function emitNavFrame(frame: PSNavFrameEvent): void {
+  const active = getActiveSocket(frame.controllerId);
+  const recipients = getAlwaysOnSockets();
+  if (active) recipients.unshift(active);
+
+  for (const socket of recipients) {
+    if (!socket.data.wantsFrames) continue;
+    const filtered = socketFilters.get(socket.id);
+    const sent = filtered ? filterFrame(filtered.filter, frame) : frame;
+    if (sent) socket.emit('nav:frame', sent);
   }
 }
 
-function registerClient(socket: TypedSocket, serviceName: string): void {
+/** May this service be focused by the controller (ignoring whether it is connected)? */
+function canDrive(client: RegisteredClient, controllerId: string): boolean {
+  if (!ROLE_RULES[client.role].focusable) return false;
+  return client.controller === null || client.controller === 'any' || client.controller === controllerId;
+}
+
+/** Services a controller may cycle through, in rotation order */
+function getEligibleClients(controllerId: string): RegisteredClient[] {
+  return registeredClients.filter((c) => c.connected && canDrive(c, controllerId));
+}
+
+/**
+ * The connected service `step` places away from `fromId` in a controller's
+ * rotation (wrapping), skipping services that are away. Without `fromId` in
+ * the rotation, forward starts at the first service and backward at the last.
+ */
+function stepRotation(controllerId: string, fromId: string | null, step: 1 | -1): RegisteredClient | null {
+  const rotation = registeredClients.filter((c) => canDrive(c, controllerId));
+  const pos = rotation.findIndex((c) => c.socketId === fromId);
+  const from = pos >= 0 ? pos : step > 0 ? -1 : 0;
+  for (let i = 1; i <= rotation.length; i++) {
+    const client = rotation[(((from + i * step) % rotation.length) + rotation.length) % rotation.length];
+    if (client.connected) return client;
+  }
+  return null;
+}
+
+/** Is the service currently focused by any controller other than `exceptController`? */
+function isFocusedElsewhere(socketId: string, exceptController: string): boolean {
+  for (const controllerId of controllerFocus.keys()) {
+    if (controllerId !== exceptController && getFocusedId(controllerId) === socketId) return true;
+  }
+  return false;
+}
+
+/**
+ * Replace a controller's focus stack, notifying the previous and new top of
+ * the stack if it changed. Does not broadcast the client list — callers do
+ * that once.
+ */
+function setFocusStack(controllerId: string, stack: FocusEntry[]): void {
+  autoAssigned.delete(controllerId);
+  const prevId = getFocusedId(controllerId);
+  const nextId = stack[stack.length - 1]?.socketId ?? null;
+  if (prevId === nextId) {
+    controllerFocus.set(controllerId, stack);
+    return;
+  }
+
+  // Deactivate current — it will not see the real releases of what is held now
+  if (prevId) autoRepeaters.get(prevId)?.stop(controllerId);
+  const prev = registeredClients.find((c) => c.socketId === prevId);
+  const prevSocket = getActiveSocket(controllerId);
+  if (prev && prevSocket) {
+    if (!ROLE_RULES[prev.role].allInput) releaseHeldInputs(prevSocket, controllerId);
+    prevSocket.emit('client:deactivated', { serviceName: prev.serviceName, controllerId });
+  }
+
+  controllerFocus.set(controllerId, stack);
+
+  // Activate new
+  const next = registeredClients.find((c) => c.socketId === nextId);
+  const nextSocket = getActiveSocket(controllerId);
+  if (next && nextSocket) {
+    nextSocket.emit('client:activated', { serviceName: next.serviceName, controllerId });
+    nextSocket.emit('nav:state', navState.snapshot(controllerId));
+  }
+}
+
+/** Point a controller at a service (or at nothing) on the user's behalf, dropping the rest of its stack */
+function setFocus(controllerId: string, socketId: string | null): void {
+  setFocusStack(controllerId, socketId ? [{ socketId, priority: USER_FOCUS_PRIORITY, reason: null }] : []);
+}
+
+/** Take a service off a controller's stack; if it was on top, the previous holder resumes */
+function removeFromStack(controllerId: string, socketId: string): void {
+  const stack = controllerFocus.get(controllerId) ?? [];
+  setFocusStack(controllerId, stack.filter((e) => e.socketId !== socketId));
+}
+
+/**
+ * Give a controller without focus a service: the one it was last driving
+ * (saved across restarts), then one bound to it, then an "any free
+ * controller" service nobody else is driving, then the first service without
+ * a preference.
+ */
+function autoAssign(controllerId: string): void {
+  if (getFocusedId(controllerId)) return;
+
+  const lastActive = serviceState.lastActive(controllerId);
+  const eligible = getEligibleClients(controllerId);
+  const candidate =
+    eligible.find((c) => lastActive !== null && serviceTokens.get(c.socketId) === lastActive) ??
+    eligible.find((c) => c.controller === controllerId) ??
+    eligible.find((c) => c.controller === 'any' && !isFocusedElsewhere(c.socketId, controllerId)) ??
+    eligible.find((c) => c.controller === null);
+
+  if (candidate) {
+    setFocus(controllerId, candidate.socketId);
+    autoAssigned.add(controllerId);
+    console.log(`[svc] Auto-activated: "${candidate.serviceName}" on ${controllerId}`);
+  }
+}
+
+/**
+ * Shortly after a hub restart, give controllers back the service they were
+ * last driving when it registers — unless the user picked another one since.
+ */
+function restoreLastActive(client: RegisteredClient, token: string): void {
+  if (Date.now() - STARTED_AT > RECONNECT_GRACE_MS) return;
+  for (const controllerId of controllerFocus.keys()) {
+    if (!autoAssigned.has(controllerId) || serviceState.lastActive(controllerId) !== token) continue;
+    if (getFocusedId(controllerId) === client.socketId || !getEligibleClients(controllerId).includes(client)) continue;
+    setFocus(controllerId, client.socketId);
+    console.log(`[svc] Restored last active service on ${controllerId}: "${client.serviceName}"`);
+  }
+}
+
+/**
+ * A socket registered with the token of a known service: hand it that
+ * service's slot in the rotation and its place on every focus stack. Returns
+ * the resumed service, or null if no other socket holds the token.
+ */
+function resumeService(socket: TypedSocket, token: string): RegisteredClient | null {
+  const client = registeredClients.find((c) => c.socketId !== socket.id && serviceTokens.get(c.socketId) === token);
+  if (!client) return null;
+  // This socket was registered as something else — that registration gives way
+  if (registeredClients.some((c) => c.socketId === socket.id)) unregisterClient(socket.id);
+
+  const oldId = client.socketId;
+  clearTimeout(graceTimers.get(oldId));
+  graceTimers.delete(oldId);
+  dropSocketState(oldId);
+  serviceTokens.delete(oldId);
+
+  client.socketId = socket.id;
+  client.connected = true;
+  for (const stack of controllerFocus.values()) {
+    for (const entry of stack) if (entry.socketId === oldId) entry.socketId = socket.id;
+  }
+  for (const [controllerId, highlighted] of switchers) {
+    if (highlighted === oldId) switchers.set(controllerId, socket.id);
+  }
+  // The old connection may not have noticed the drop yet
+  io.sockets.sockets.get(oldId)?.disconnect(true);
+
+  for (const controllerId of controllerFocus.keys()) {
+    if (getFocusedId(controllerId) === socket.id) {
+      socket.emit('client:activated', { serviceName: client.serviceName, controllerId });
+      socket.emit('nav:state', navState.snapshot(controllerId));
+    }
+  }
+  console.log(`[svc] Resumed: "${client.serviceName}" (${oldId} → ${socket.id})`);
+  return client;
+}
+
+/** Per-socket processing state, rebuilt by the next register */
+function dropSocketState(socketId: string): void {
+  axisProcessors.delete(socketId);
+  gestureSubscriptions.delete(socketId);
+  autoRepeaters.get(socketId)?.stop();
+  autoRepeaters.delete(socketId);
+}
+
+/**
+ * A registered socket disconnected. A service with a token keeps its place
+ * (and focus) for RECONNECT_GRACE_MS, so a short network drop goes unnoticed
+ * by the rotation; a client that disconnected on purpose, or has no token, is
+ * unregistered right away.
+ */
+function suspendClient(socketId: string, reason: string): void {
+  const client = registeredClients.find((c) => c.socketId === socketId);
+  if (!client) return;
+  if (!serviceTokens.has(socketId) || RECONNECT_GRACE_MS <= 0 || reason === 'client namespace disconnect') {
+    unregisterClient(socketId);
+    return;
+  }
+
+  dropSocketState(socketId);
+  client.connected = false;
+  graceTimers.set(socketId, setTimeout(() => {
+    graceTimers.delete(socketId);
+    console.log(`[svc] "${client.serviceName}" did not come back within ${RECONNECT_GRACE_MS}ms`);
+    unregisterClient(socketId);
+  }, RECONNECT_GRACE_MS));
+  console.log(`[svc] Away: "${client.serviceName}" (${socketId}) — keeping its place for ${RECONNECT_GRACE_MS}ms`);
+
+  broadcastClientList();
+  refreshSwitchers();
+}
+
+/** Why a register request cannot be accepted, or null — it comes straight off the wire */
+function registerProblem(serviceName: unknown, options: unknown): string | null {
+  if (typeof serviceName !== 'string' || !serviceName) return 'serviceName must be a non-empty string';
+  if (options === undefined) return null;
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) return 'options must be an object';
+  const { controller } = options as RegisterOptions;
+  if (controller !== undefined && controller !== null && typeof controller !== 'string') {
+    return 'controller must be a controllerId, "any" or null';
+  }
+  return null;
+}
+
+function registerClient(socket: TypedSocket, serviceName: string, options: RegisterOptions = {}): void {
+  const controller = options.controller ?? null;
+  const role: ServiceRole = options.role === 'observer' || options.role === 'listener' ? options.role : 'exclusive';
+  const token = typeof options.token === 'string' && options.token ? options.token : null;
+  const wasAlwaysOn = !socket.data.serviceName || !!getRoleRules(socket.id)?.allInput;
+  const resumed = token ? resumeService(socket, token) : null;
+
   // Prevent double registration — update name if already registered
-  const existing = registeredClients.findIndex((c) => c.socketId === socket.id);
-  if (existing >= 0) {
-    registeredClients[existing].serviceName = serviceName;
-    console.log(`[svc] Updated registration: "${serviceName}" (${socket.id})`);
+  const existing = registeredClients.find((c) => c.socketId === socket.id);
+  if (existing) {
+    existing.serviceName = serviceName;
+    existing.controller = controller;
+    existing.role = role;
+    if (!resumed) console.log(`[svc] Updated registration: "${serviceName}" (${socket.id})`);
+
+    // Drop focus from controllers that may no longer drive this service
+    for (const controllerId of controllerFocus.keys()) {
+      if (!getEligibleClients(controllerId).includes(existing)) removeFromStack(controllerId, socket.id);
+    }
   } else {
-    registeredClients.push({
+    const client: RegisteredClient = {
       socketId: socket.id,
       serviceName,
       registeredAt: Date.now(),
+      controller,
+      role,
+      connected: true,
+    };
+    // A service known from before a restart goes back to its saved place in the rotation
+    const rank = token ? serviceState.rank(token) : -1;
+    const before = rank < 0 ? -1 : registeredClients.findIndex((c) => {
+      const other = serviceTokens.get(c.socketId);
+      return other !== undefined && serviceState.rank(other) > rank;
     });
-    console.log(`[svc] Registered: "${serviceName}" (${socket.id}) — ${registeredClients.length} service(s)`);
+    if (before >= 0) registeredClients.splice(before, 0, client);
+    else registeredClients.push(client);
+    console.log(`[svc] Registered: "${serviceName}" (${socket.id}, controller: ${controller ?? 'no preference'}, role: ${role}) — ${registeredClients.length} service(s)`);
   }
 
   socket.data.serviceName = serviceName;
+  if (token) serviceTokens.set(socket.id, token);
+  else serviceTokens.delete(socket.id);
 
-  // If this is the first client, auto-activate it
-  if (registeredClients.length === 1) {
-    activeIndex = 0;
-    socket.emit('client:activated', { serviceName });
-    console.log(`[svc] Auto-activated: "${serviceName}"`);
+  if (options.axes) {
+    const { settings, warnings } = resolveAxisSettings(options.axes);
+    for (const warning of warnings) console.warn(`[svc] "${serviceName}" axis settings: ${warning}`);
+    axisProcessors.set(socket.id, new AxisProcessor(settings));
+  } else {
+    axisProcessors.delete(socket.id);
+  }
+
+  if (options.gestures) {
+    gestureSubscriptions.set(socket.id, resolveGestureOptions(options.gestures));
+  } else {
+    gestureSubscriptions.delete(socket.id);
+  }
+
+  autoRepeaters.get(socket.id)?.stop();
+  if (options.repeat) {
+    autoRepeaters.set(socket.id, new AutoRepeater(resolveRepeatOptions(options.repeat), (evt) => socket.emit('nav:button', evt)));
+  } else {
+    autoRepeaters.delete(socket.id);
+  }
+
+  // Controllers that are not driving anything pick up the new service
+  for (const controllerId of controllerFocus.keys()) {
+    autoAssign(controllerId);
+  }
+  if (token) restoreLastActive(registeredClients.find((c) => c.socketId === socket.id)!, token);
+
+  // Moving in or out of the always-on sockets changes which controllers it follows
+  const alwaysOn = ROLE_RULES[role].allInput;
+  for (const info of getConnectedControllers()) {
+    if (getFocusedId(info.controllerId) === socket.id) continue;
+    if (wasAlwaysOn && !alwaysOn) releaseHeldInputs(socket, info.controllerId);
+    else if (!wasAlwaysOn && alwaysOn) socket.emit('nav:state', navState.snapshot(info.controllerId));
   }
 
   broadcastClientList();
+  refreshSwitchers();
+}
+
+function resolveGestureOptions(options: GestureOptions): { types: Set<PSNavGestureType>; flickDirections: 4 | 8 } {
+  const types = Array.isArray(options.types)
+    ? options.types.filter((t) => PSNAV_GESTURE_TYPES.includes(t))
+    : PSNAV_GESTURE_TYPES;
+  return { types: new Set(types), flickDirections: options.flickDirections === 4 ? 4 : 8 };
 }
 
 function unregisterClient(socketId: string): void {
@@ -127,64 +725,305 @@ function unregisterClient(socketId: string): void {
   if (idx < 0) return;
 
   const removed = registeredClients[idx];
-  registeredClients.splice(idx, 1);
-  console.log(`[svc] Unregistered: "${removed.serviceName}" (${socketId}) — ${registeredClients.length} service(s)`);
-
-  // Adjust activeIndex after removal
-  if (registeredClients.length === 0) {
-    activeIndex = -1;
-  } else if (idx === activeIndex) {
-    // The active client left — activate the next (wrap around)
-    activeIndex = activeIndex % registeredClients.length;
-    const next = getActiveSocket();
+  removed.connected = false;
+  dropSocketState(socketId);
+  serviceTokens.delete(socketId);
+  clearTimeout(graceTimers.get(socketId));
+  graceTimers.delete(socketId);
+  console.log(`[svc] Unregistered: "${removed.serviceName}" (${socketId}) — ${registeredClients.length - 1} service(s)`);
+
+  // Every controller driving the removed service goes back to the previous
+  // holder on its stack, or else moves on to the next eligible service in its
+  // rotation (wrap around)
+  for (const [controllerId, stack] of controllerFocus) {
+    const remaining = stack.filter((e) => e.socketId !== socketId);
+    if (getFocusedId(controllerId) !== socketId) {
+      controllerFocus.set(controllerId, remaining);
+      continue;
+    }
+    controllerFocus.set(controllerId, []);
+
+    if (remaining.length > 0) {
+      setFocusStack(controllerId, remaining);
+      const back = registeredClients.find((c) => c.socketId === getFocusedId(controllerId));
+      console.log(`[svc] Active client left, ${controllerId} returned to: "${back?.serviceName}"`);
+      continue;
+    }
+    const next = stepRotation(controllerId, socketId, 1);
     if (next) {
-      const name = registeredClients[activeIndex].serviceName;
-      next.emit('client:activated', { serviceName: name });
-      console.log(`[svc] Active client left, switched to: "${name}"`);
+      setFocus(controllerId, next.socketId);
+      console.log(`[svc] Active client left, ${controllerId} switched to: "${next.serviceName}"`);
     }
-  } else if (idx < activeIndex) {
-    // Someone before the active was removed — shift index back
-    activeIndex--;
   }
 
+  registeredClients.splice(idx, 1);
   broadcastClientList();
+  refreshSwitchers();
 }
 
-function cycleActiveClient(): void {
-  if (registeredClients.length === 0) return;
+/** Advance a controller to the next service in its rotation */
+function cycleActiveClient(controllerId: string, step: 1 | -1 = 1): void {
+  const next = stepRotation(controllerId, getFocusedId(controllerId), step);
+  if (!next) return;
 
-  // Deactivate current
-  const prevSocket = getActiveSocket();
-  if (prevSocket && activeIndex >= 0) {
-    const prevName = registeredClients[activeIndex].serviceName;
-    prevSocket.emit('client:deactivated', { serviceName: prevName });
+  setFocus(controllerId, next.socketId);
+  console.log(`[svc] Switched active client on ${controllerId} → "${next.serviceName}"`);
+  broadcastClientList();
+}
+
+/** Switch a controller to a service by name, if that controller may drive it */
+function focusService(controllerId: string, serviceName: string): void {
+  const target = getEligibleClients(controllerId).find((c) => c.serviceName === serviceName);
+  if (!target) {
+    console.log(`[svc] No service "${serviceName}" for ${controllerId} to switch to`);
+    return;
   }
+  setFocus(controllerId, target.socketId);
+  console.log(`[svc] Switched active client on ${controllerId} → "${serviceName}"`);
+  broadcastClientList();
+}
 
-  // Advance to next
-  activeIndex = (activeIndex + 1) % registeredClients.length;
+// ─── Focus requests (client:request-focus / client:yield / client:activate) ─
 
-  // Activate new
-  const nextSocket = getActiveSocket();
-  if (nextSocket) {
-    const nextName = registeredClients[activeIndex].serviceName;
-    nextSocket.emit('client:activated', { serviceName: nextName });
-    console.log(`[svc] Switched active client → "${nextName}"`);
+function focusResult(controllerId: string | null, error?: string): FocusResult {
+  const socketId = controllerId ? getFocusedId(controllerId) : null;
+  const result: FocusResult = {
+    ok: error === undefined,
+    controllerId,
+    activeServiceName: registeredClients.find((c) => c.socketId === socketId)?.serviceName ?? null,
+  };
+  if (error !== undefined) result.error = error;
+  return result;
+}
+
+function describeHolder(entry: FocusEntry): string {
+  const name = registeredClients.find((c) => c.socketId === entry.socketId)?.serviceName;
+  return `"${name}"${entry.reason ? ` (${entry.reason})` : ''} at priority ${entry.priority}`;
+}
+
+/** The named controller if connected, else the first connected controller that may drive the service */
+function pickController(controllerId: string | undefined, canDrive: (id: string) => boolean): string | null {
+  if (controllerId) return controllerFocus.has(controllerId) ? controllerId : null;
+  return [...controllerFocus.keys()].find(canDrive) ?? null;
+}
+
+/** Put the service on top of a controller's stack if its priority is at least the current holder's */
+function requestFocus(socket: TypedSocket, request: FocusRequest): FocusResult {
+  const client = registeredClients.find((c) => c.socketId === socket.id);
+  if (!client) return focusResult(null, 'register before requesting focus');
+  if (!ROLE_RULES[client.role].focusable) {
+    return focusResult(null, `"${client.serviceName}" is registered as ${client.role} and cannot take focus`);
+  }
+
+  const controllerId = pickController(request.controller, (id) => getEligibleClients(id).includes(client));
+  if (!controllerId) return focusResult(null, `no connected controller for "${client.serviceName}"`);
+  if (!getEligibleClients(controllerId).includes(client)) {
+    return focusResult(controllerId, `"${client.serviceName}" is not available on ${controllerId}`);
+  }
+
+  const priority = typeof request.priority === 'number' && Number.isFinite(request.priority)
+    ? request.priority
+    : DEFAULT_REQUEST_PRIORITY;
+  const reason = typeof request.reason === 'string' && request.reason ? request.reason : null;
+  const stack = controllerFocus.get(controllerId)!;
+  const top = stack[stack.length - 1];
+  if (top && top.socketId !== socket.id && top.priority > priority) {
+    return focusResult(controllerId, `focus is held by ${describeHolder(top)}`);
+  }
+
+  setFocusStack(controllerId, [...stack.filter((e) => e.socketId !== socket.id), { socketId: socket.id, priority, reason }]);
+  console.log(`[svc] "${client.serviceName}" took focus on ${controllerId} (priority ${priority}${reason ? `, ${reason}` : ''})`);
+  broadcastClientList();
+  return focusResult(controllerId);
+}
+
+/** Leave the focus stacks of one or every controller, handing focus back to the previous holders */
+function yieldFocus(socket: TypedSocket, request: YieldRequest): FocusResult {
+  const ids = request.controller ? [request.controller] : [...controllerFocus.keys()];
+  let result: FocusResult | null = null;
+
+  for (const controllerId of ids) {
+    const stack = controllerFocus.get(controllerId);
+    if (!stack?.some((e) => e.socketId === socket.id)) continue;
+    if (stack.length === 1) {
+      result ??= focusResult(controllerId, 'no previous holder to return focus to');
+      continue;
+    }
+    const wasActive = getFocusedId(controllerId) === socket.id;
+    removeFromStack(controllerId, socket.id);
+    if (wasActive) {
+      const back = registeredClients.find((c) => c.socketId === getFocusedId(controllerId));
+      console.log(`[svc] "${socket.data.serviceName}" yielded ${controllerId} back to "${back?.serviceName}"`);
+    }
+    if (!result?.ok) result = focusResult(controllerId);
+  }
+
+  if (result?.ok) broadcastClientList();
+  return result ?? focusResult(request.controller ?? null, 'this service does not hold focus');
+}
+
+/** Switch a controller to a named service, unless a higher-priority request holds it */
+function activateService(socket: TypedSocket, request: ActivateRequest): FocusResult {
+  const { serviceName } = request;
+  const named = registeredClients.find((c) => c.serviceName === serviceName);
+  if (named && !ROLE_RULES[named.role].focusable) {
+    return focusResult(null, `"${serviceName}" is registered as ${named.role} and cannot take focus`);
   }
+  const canDrive = (id: string) => getEligibleClients(id).some((c) => c.serviceName === serviceName);
+  const controllerId = pickController(request.controller, canDrive);
+  if (!controllerId) return focusResult(null, `no connected controller for "${serviceName}"`);
+
+  const target = getEligibleClients(controllerId).find((c) => c.serviceName === serviceName);
+  if (!target) return focusResult(controllerId, `no service "${serviceName}" on ${controllerId}`);
+
+  const stack = controllerFocus.get(controllerId)!;
+  const top = stack[stack.length - 1];
+  if (top?.socketId === target.socketId) return focusResult(controllerId);
+  // A focus request outranks switching — unless its holder is the one asking
+  if (top && top.priority > USER_FOCUS_PRIORITY && top.socketId !== socket.id) {
+    return focusResult(controllerId, `focus is held by ${describeHolder(top)}`);
+  }
+
+  setFocus(controllerId, target.socketId);
+  console.log(`[svc] Switched active client on ${controllerId} → "${serviceName}" (asked by ${socket.data.serviceName ? `"${socket.data.serviceName}"` : socket.id})`);
+  broadcastClientList();
+  return focusResult(controllerId);
+}
+
+/** Track a newly connected controller and give it a service */
+function addControllerFocus(controllerId: string): void {
+  if (!controllerFocus.has(controllerId)) controllerFocus.set(controllerId, []);
+  autoAssign(controllerId);
+  broadcastClientList();
+}
 
+/** Forget a disconnected controller, deactivating the service it was driving */
+function removeControllerFocus(controllerId: string): void {
+  if (!controllerFocus.has(controllerId)) return;
+  closeSwitcher(controllerId, false);
+  setFocus(controllerId, null);
+  controllerFocus.delete(controllerId);
+  navState.forget(controllerId);
   broadcastClientList();
 }
 
+// ─── Service switcher overlay ───────────────────────────────────────────────
+//
+// Opened by the 'switcher' system action (by default: holding PS). While it is
+// open the controller's input drives the switcher instead of the service:
+// D-pad / stick directions move the highlight, releasing PS or pressing cross
+// switches to the highlighted service, circle closes it without switching.
+// Every client gets the state as client:switcher so any UI can draw it.
+
+/** Open switchers: controllerId → socketId of the highlighted service */
+const switchers = new Map<string, string | null>();
+
+function getSwitcherState(controllerId: string): SwitcherState {
+  const clients = getEligibleClients(controllerId);
+  const highlighted = switchers.get(controllerId) ?? null;
+  const active = getFocusedId(controllerId);
+  return {
+    controllerId,
+    open: switchers.has(controllerId),
+    clients,
+    highlightedIndex: clients.findIndex((c) => c.socketId === highlighted),
+    activeIndex: clients.findIndex((c) => c.socketId === active),
+  };
+}
+
+function openSwitcher(controllerId: string): void {
+  if (switchers.has(controllerId) || getEligibleClients(controllerId).length === 0) return;
+  switchers.set(controllerId, getFocusedId(controllerId) ?? getEligibleClients(controllerId)[0].socketId);
+  console.log(`[svc] Switcher opened on ${controllerId}`);
+  io.emit('client:switcher', getSwitcherState(controllerId));
+}
+
+function moveSwitcher(controllerId: string, step: 1 | -1): void {
+  const { clients, highlightedIndex } = getSwitcherState(controllerId);
+  if (clients.length === 0) return;
+  const from = highlightedIndex >= 0 ? highlightedIndex : 0;
+  switchers.set(controllerId, clients[(from + step + clients.length) % clients.length].socketId);
+  io.emit('client:switcher', getSwitcherState(controllerId));
+}
+
+function closeSwitcher(controllerId: string, confirm: boolean): void {
+  if (!switchers.has(controllerId)) return;
+  const highlighted = switchers.get(controllerId) ?? null;
+  switchers.delete(controllerId);
+
+  const target = registeredClients.find((c) => c.socketId === highlighted);
+  if (confirm && target && getEligibleClients(controllerId).includes(target)) {
+    setFocus(controllerId, target.socketId);
+    console.log(`[svc] Switcher on ${controllerId} → "${target.serviceName}"`);
+    broadcastClientList();
+  } else {
+    console.log(`[svc] Switcher closed on ${controllerId}`);
+  }
+  io.emit('client:switcher', getSwitcherState(controllerId));
+}
+
+/** Re-send open switchers after the service list changed */
+function refreshSwitchers(): void {
+  for (const controllerId of switchers.keys()) {
+    const { clients, highlightedIndex } = getSwitcherState(controllerId);
+    if (clients.length === 0) {
+      closeSwitcher(controllerId, false);
+      continue;
+    }
+    if (highlightedIndex < 0) switchers.set(controllerId, clients[0].socketId);
+    io.emit('client:switcher', getSwitcherState(controllerId));
+  }
+}
+
+/**
+ * Route a controller's input to its open switcher. Returns false for events
+ * that should still reach the service: releases of buttons pressed before
+ * the switcher opened, so nothing stays stuck.
+ */
+function handleSwitcherInput(controllerId: string, event: PSNavEvent, system: SystemChords): boolean {
+  if (event.kind === 'axis') {
+    system.claim(event);
+    return true;
+  }
+  if (event.button === 'ps') {
+    system.handle(event);
+    if (!event.pressed) closeSwitcher(controllerId, true);
+    return true;
+  }
+  if (!event.pressed) return system.handle(event);
+
+  system.claim(event);
+  switch (event.button) {
+    case 'dpad_up': case 'dpad_left': case 'stick_up': case 'stick_left':
+      moveSwitcher(controllerId, -1);
+      break;
+    case 'dpad_down': case 'dpad_right': case 'stick_down': case 'stick_right':
+      moveSwitcher(controllerId, 1);
+      break;
+    case 'cross':
+      closeSwitcher(controllerId, true);
+      break;
+    case 'circle':
+      closeSwitcher(controllerId, false);
+      break;
+  }
+  return true;
+}
+
 // ─── Battery status (sysfs) ─────────────────────────────────────────────────
 
 const POWER_SUPPLY_PATH = '/sys/class/power_supply';
+const MAC_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/i;
 
 /**
  * Read battery percentage from the Linux power_supply sysfs interface.
  * When a PS3 controller is connected via Bluetooth with hid-sony, the kernel
- * creates an entry like `sony_controller_battery_XX:XX:XX:XX:XX:XX`.
+ * creates an entry like `sony_controller_battery_XX:XX:XX:XX:XX:XX`, so the
+ * entry for a given controller is matched by its MAC. If the controller id is
+ * not a MAC (e.g. a USB phys path), the first controller-like entry is used.
  */
-async function getBatteryStatus(): Promise<BatteryStatus> {
-  const fail: BatteryStatus = { level: null, charging: null, source: null, timestamp: Date.now() };
+async function getBatteryStatus(controllerId: string | null): Promise<BatteryStatus> {
+  const fail: BatteryStatus = { controllerId, level: null, charging: null, source: null, timestamp: Date.now() };
 
   let entries: string[];
   try {
@@ -194,8 +1033,10 @@ async function getBatteryStatus(): Promise<BatteryStatus> {
   }
 
   // Find a power_supply entry that looks like a game controller battery
+  const mac = controllerId && MAC_PATTERN.test(controllerId) ? controllerId.toLowerCase() : null;
   const batteryEntry = entries.find((e) => {
     const lower = e.toLowerCase();
+    if (mac) return lower.includes(mac);
     return lower.includes('sony') || lower.includes('controller') || lower.includes('playstation');
   });
 
@@ -217,78 +1058,137 @@ async function getBatteryStatus(): Promise<BatteryStatus> {
     charging = status === 'charging' || status === 'full';
   } catch { /* status file not available */ }
 
-  return { level, charging, source: batteryEntry, timestamp: Date.now() };
+  return { controllerId, level, charging, source: batteryEntry, timestamp: Date.now() };
+}
+
+const BATTERY_POLL_MS = 30_000;
+
+/** Last level / charging state pushed per controller */
+const lastBattery = new Map<string, string>();
+let batteryPoll: NodeJS.Timeout | null = null;
+
+/** Push battery:status to services whose role asks for it, when a controller's battery changed */
+async function pollBatteries(): Promise<void> {
+  for (const { controllerId } of getConnectedControllers()) {
+    const status = await getBatteryStatus(controllerId);
+    const key = `${status.level}/${status.charging}`;
+    if (lastBattery.get(controllerId) === key) continue;
+    lastBattery.set(controllerId, key);
+    for (const socket of getRoleSockets('batteryUpdates')) socket.emit('battery:status', status);
+  }
 }
 
 // ─── Controller device auto-discovery ────────────────────────────────────────
 
-const INPUT_SYSFS = '/sys/class/input';
+/** JSON mapping profiles, reloaded whenever PROFILES_DIR changes */
+const profiles = new ProfileStore(PROFILES_DIR);
+
+/**
+ * Derive a stable controller id for an input device: the `uniq` attribute
+ * (Bluetooth MAC, also reported by hid-sony over USB) if set, otherwise the
+ * `phys` path (stable per USB port), otherwise the device path itself.
+ */
+function getControllerId(devicePath: string, info: DeviceInfo = readDeviceInfo(devicePath)): string {
+  if (info.uniq) return info.uniq.toLowerCase();
+  if (info.phys) return info.phys;
+  return devicePath;
+}
 
 /**
- * Scan /sys/class/input/eventX/device/name for a PlayStation controller.
- * Returns the /dev/input/eventX path if found, otherwise null.
- * This is called on every (re)connect so we always find the right device
- * even if the event number changed after a Bluetooth disconnect/reconnect.
+ * Scan /sys/class/input/eventX for PlayStation controllers: devices whose name
+ * contains "playstation" or that a mapping profile matches. Returns every
+ * matching /dev/input/eventX path with its controller id.
+ * This is called on every scan so we always find the right devices even if
+ * the event numbers changed after a Bluetooth disconnect/reconnect.
  */
-async function findControllerDevice(): Promise<string | null> {
+async function findControllerDevices(): Promise<ControllerInfo[]> {
+  const found: ControllerInfo[] = [];
   try {
     const entries = await fs.readdir(INPUT_SYSFS);
     for (const entry of entries) {
       if (!entry.startsWith('event')) continue;
-      try {
-        const name = await fs.readFile(
-          path.join(INPUT_SYSFS, entry, 'device', 'name'),
-          'utf-8',
-        );
-        if (name.toLowerCase().includes('playstation')) {
-          return `/dev/input/${entry}`;
-        }
-      } catch { /* entry has no name file — skip */ }
+      const device = `/dev/input/${entry}`;
+      const info = readDeviceInfo(device);
+      if (!info.name.toLowerCase().includes('playstation') && !profiles.matches(info)) continue;
+      found.push({ controllerId: getControllerId(device, info), device });
     }
   } catch { /* sysfs not available */ }
-  return null;
+  return found;
 }
 
 // ─── Health / status endpoint ───────────────────────────────────────────────
 
+/** Latency histograms of every connected client that reports them */
+function getLatencyStatus() {
+  const result = [];
+  for (const [, socket] of io.sockets.sockets) {
+    if (!socket.data.latency) continue;
+    result.push({
+      socketId: socket.id,
+      serviceName: socket.data.serviceName,
+      ...summarizeLatency(socket.data.latency),
+    });
+  }
+  return result;
+}
+
 let connectedClients = 0;
-let deviceConnected = false;
-let currentDevicePath = DEVICE_PATH_FALLBACK;
 
 app.get('/', async (_req, res) => {
-  const battery = await getBatteryStatus();
+  const controllerStatus = await Promise.all(
+    getConnectedControllers().map(async (info) => ({
+      ...info,
+      profile: controllers.get(info.controllerId)?.input.profileName ?? null,
+      calibrated: controllers.get(info.controllerId)?.input.activeCalibration != null,
+      droppedFrames: controllers.get(info.controllerId)?.input.droppedFrames ?? 0,
+      battery: await getBatteryStatus(info.controllerId),
+    })),
+  );
   res.json({
     name: 'psmovehub',
     status: 'running',
-    device: currentDevicePath,
-    deviceConnected,
-    battery,
+    // Single-controller view from before `controllers`, kept for existing clients
+    device: controllerStatus[0]?.device ?? null,
+    deviceConnected: controllerStatus.length > 0,
+    controllers: controllerStatus,
     clients: connectedClients,
     services: getClientListInfo(),
+    latency: getLatencyStatus(),
     uptime: process.uptime(),
   });
 });
 
 // ─── Socket.IO connection handling ──────────────────────────────────────────
 
+function replyFocus(socket: TypedSocket, what: string, result: FocusResult, ack?: (result: FocusResult) => void): void {
+  if (!result.ok) console.log(`[svc] ${what} from ${socket.data.serviceName ? `"${socket.data.serviceName}"` : socket.id} denied: ${result.error}`);
+  if (typeof ack === 'function') ack(result);
+}
+
 io.on('connection', (socket) => {
   connectedClients++;
   socket.data.wantsRaw = false;
+  socket.data.wantsFrames = false;
   socket.data.serviceName = null;
+  socket.data.latency = null;
 
   console.log(`[io] Client connected: ${socket.id} (${connectedClients} total)`);
 
   // Let client know current device status
-  if (deviceConnected) {
-    socket.emit('nav:connected', { device: currentDevicePath });
+  for (const info of getConnectedControllers()) {
+    socket.emit('nav:connected', info);
+    socket.emit('nav:state', navState.snapshot(info.controllerId));
   }
 
   // Send current service list so the client knows the state
   socket.emit('client:list', getClientListInfo());
 
   // ── Register as a named service ──
-  socket.on('register', (serviceName) => {
-    registerClient(socket, serviceName);
+  socket.on('register', (serviceName, options, ack) => {
+    const error = registerProblem(serviceName, options);
+    if (error) console.log(`[svc] register from ${socket.id} rejected: ${error}`);
+    else registerClient(socket, serviceName, options);
+    if (typeof ack === 'function') ack(error ? { ok: false, error } : { ok: true });
   });
 
   // Client can opt-in to raw events
@@ -297,60 +1197,244 @@ io.on('connection', (socket) => {
     console.log(`[io] ${socket.id} raw events: ${enabled}`);
   });
 
-  // Battery status on request
-  socket.on('battery:request', async () => {
-    const status = await getBatteryStatus();
-    socket.emit('battery:status', status);
+  // Client can opt-in to frame-atomic nav:frame events
+  socket.on('subscribe:frames', (enabled) => {
+    socket.data.wantsFrames = enabled;
+    console.log(`[io] ${socket.id} frame events: ${enabled}`);
+  });
+
+  // Client can opt-in to normalised nav:stick vectors
+  socket.on('subscribe:stick', (enabled, options) => {
+    if (enabled) stickTrackers.set(socket.id, new StickTracker(options?.yAxis === 'up' ? 'up' : 'down'));
+    else stickTrackers.delete(socket.id);
+    console.log(`[io] ${socket.id} stick events: ${enabled}`);
+  });
+
+  // Focus stack — every request is acknowledged with a FocusResult
+  socket.on('client:request-focus', (request, ack) => {
+    replyFocus(socket, 'request-focus', requestFocus(socket, request ?? {}), ack);
+  });
+
+  socket.on('client:yield', (request, ack) => {
+    replyFocus(socket, 'yield', yieldFocus(socket, request ?? {}), ack);
+  });
+
+  socket.on('client:activate', (request, ack) => {
+    replyFocus(socket, 'activate', activateService(socket, request ?? { serviceName: '' }), ack);
+  });
+
+  // Client can narrow what it is sent and cap how often axes are sent
+  socket.on('subscribe:filter', (filter) => {
+    socketFilters.get(socket.id)?.throttle.stop();
+    if (!filter) {
+      socketFilters.delete(socket.id);
+      console.log(`[io] ${socket.id} event filter removed`);
+      return;
+    }
+    const { filter: resolved, warnings } = resolveNavFilter(filter);
+    for (const warning of warnings) console.warn(`[io] ${socket.id} event filter: ${warning}`);
+    const throttle = new AxisThrottle(resolved.axisIntervalMs, (evt) => deliverAxis(socket, evt));
+    socketFilters.set(socket.id, { filter: resolved, throttle });
+    console.log(`[io] ${socket.id} event filter set`);
+  });
+
+  // Clock-offset handshake: reply with our clock so the client can compute
+  // offset = serverTime - (t0 + t1) / 2 from its send/receive times
+  socket.on('clock:sync', (_clientTime, ack) => {
+    if (typeof ack === 'function') ack(Date.now());
+  });
+
+  socket.on('latency:report', (report) => {
+    socket.data.latency ??= createLatencyHistogram();
+    recordLatencyReport(socket.data.latency, report);
+  });
+
+  // Guided calibration of a controller's stick and L2
+  socket.on('calibration:start', (controllerId) => {
+    startCalibration(socket, controllerId);
+  });
+
+  socket.on('calibration:cancel', () => {
+    cancelCalibrations((run) => run.socketId === socket.id, 'cancelled');
+  });
+
+  // Admin: record raw input to capture files
+  socket.on('capture:start', (request, ack) => {
+    replyCapture(socket, 'start', setCapturing(request ?? {}, true), ack);
+  });
+
+  socket.on('capture:stop', (request, ack) => {
+    replyCapture(socket, 'stop', setCapturing(request ?? {}, false), ack);
+  });
+
+  // Battery status on request — one status per controller unless one is named
+  socket.on('battery:request', async (controllerId) => {
+    const ids: Array<string | null> = controllerId
+      ? [controllerId]
+      : getConnectedControllers().map((c) => c.controllerId);
+    if (ids.length === 0) ids.push(null);
+    for (const id of ids) {
+      socket.emit('battery:status', await getBatteryStatus(id));
+    }
   });
 
   socket.on('disconnect', (reason) => {
     connectedClients--;
-    unregisterClient(socket.id);
+    cancelCalibrations((run) => run.socketId === socket.id, 'client disconnected');
+    suspendClient(socket.id, reason);
+    stickTrackers.delete(socket.id);
+    socketFilters.get(socket.id)?.throttle.stop();
+    socketFilters.delete(socket.id);
     console.log(`[io] Client disconnected: ${socket.id} (${reason}) — ${connectedClients} remaining`);
   });
 });
 
-// ─── Evdev reader ───────────────────────────────────────────────────────────
+// ─── Input sources (one per controller) ─────────────────────────────────────
+
+const SCAN_INTERVAL_MS = 3000;
+const MAX_RECONNECT_LOG_INTERVAL = 10;   // after this many idle scans, log once per N
+
+interface ControllerEntry {
+  info: ConnectedController;
+  input: InputMapper;
+  gestures: GestureEngine;
+  system: SystemChords;
+  connected: boolean;
+}
 
-const RECONNECT_INTERVAL_MS = 3000;
-const MAX_RECONNECT_LOG_INTERVAL = 10;   // after this many attempts, log once per N
+/** System bindings for the PS button (SYSTEM_BINDINGS file) */
+const systemBindings = new SystemBindingsStore(SYSTEM_BINDINGS);
 
-let reconnectAttempt = 0;
+function runSystemAction(action: SystemAction, controllerId: string): void {
+  if (action === 'next' || action === 'previous') {
+    cycleActiveClient(controllerId, action === 'next' ? 1 : -1);
+  } else if (action === 'switcher') {
+    openSwitcher(controllerId);
+  } else if (typeof action === 'object') {
+    focusService(controllerId, action.focus);
+  }
+}
 
-async function startEvdevReader(): Promise<void> {
-  // Auto-discover the controller device, fall back to configured path
-  const discovered = await findControllerDevice();
-  const devicePath = discovered ?? DEVICE_PATH_FALLBACK;
-  currentDevicePath = devicePath;
+function createSystemChords(controllerId: string): SystemChords {
+  return new SystemChords(controllerId, systemBindings, {
+    action: runSystemAction,
+    forward: (evt) => emitNavEvent('nav:button', evt),
+  });
+}
 
-  const isRetry = reconnectAttempt > 0;
+function createGestureEngine(controllerId: string): GestureEngine {
+  const engine = new GestureEngine(controllerId, GESTURE_THRESHOLDS);
+  engine.on('gesture', emitGesture);
+  return engine;
+}
 
-  if (discovered) {
-    console.log(`[evdev] Auto-discovered controller at: ${discovered}`);
-  } else if (!isRetry) {
-    console.log(`[evdev] No controller found via sysfs, falling back to: ${DEVICE_PATH_FALLBACK}`);
+/** Controllers with a running input source, keyed by controllerId */
+const controllers = new Map<string, ControllerEntry>();
+
+/** Consecutive failed open attempts per device path (for log throttling) */
+const openFailures = new Map<string, number>();
+
+function getConnectedControllers(): ConnectedController[] {
+  const result: ConnectedController[] = [];
+  for (const entry of controllers.values()) {
+    if (entry.connected) result.push(entry.info);
   }
+  return result;
+}
 
-  const reader = new EvdevReader({ devicePath, is32bit: IS_32BIT });
+/**
+ * Discover all PlayStation controllers and start a reader for each one that
+ * is not already being read, then schedule the next scan. If discovery finds
+ * nothing and no reader is running, the configured fallback path is tried.
+ */
+async function scanControllers(): Promise<void> {
+  let found = await findControllerDevices();
+
+  if (found.length === 0 && controllers.size === 0) {
+    const attempts = openFailures.get(DEVICE_PATH_FALLBACK) ?? 0;
+    if (attempts === 0) {
+      console.log(`[evdev] No controller found via sysfs, falling back to: ${DEVICE_PATH_FALLBACK}`);
+    } else if (attempts % MAX_RECONNECT_LOG_INTERVAL === 0) {
+      console.log(`[evdev] Still waiting for controller... (attempt #${attempts})`);
+    }
+    found = [{ controllerId: getControllerId(DEVICE_PATH_FALLBACK), device: DEVICE_PATH_FALLBACK }];
+  }
 
-  reader.on('open', () => {
-    if (reconnectAttempt > 0) {
-      console.log(`[evdev] Reconnected after ${reconnectAttempt} attempt(s)`);
+  const openDevices = new Set([...controllers.values()].map((c) => c.info.device));
+  for (const info of found) {
+    if (controllers.has(info.controllerId) || openDevices.has(info.device)) continue;
+    startControllerReader(info);
+  }
+
+  setTimeout(() => scanControllers(), SCAN_INTERVAL_MS);
+}
+
+function startControllerReader(discovered: ControllerInfo): void {
+  const { controllerId, device } = discovered;
+  const failures = openFailures.get(device) ?? 0;
+  if (failures === 0 && device !== DEVICE_PATH_FALLBACK) {
+    console.log(`[evdev] Discovered controller ${controllerId} at: ${device}`);
+  }
+  startInput(new EvdevReader({ devicePath: device, controllerId, is32bit: IS_32BIT }), failures);
+}
+
+/**
+ * Run a controller's input source through the mapping pipeline and route
+ * what comes out. `failures` is the number of earlier failed opens of the
+ * same device, for log throttling.
+ */
+function startInput(source: InputSource, failures = 0): void {
+  const { controllerId, device } = source;
+  const input = new InputMapper(source, { profiles, calibrations, stickButtons: STICK_BUTTONS });
+  const entry: ControllerEntry = {
+    info: { controllerId, device, inputMode: 'unknown', inputModeReason: 'device not opened' },
+    input,
+    gestures: createGestureEngine(controllerId),
+    system: createSystemChords(controllerId),
+    connected: false,
+  };
+  controllers.set(controllerId, entry);
+
+  input.on('open', () => {
+    if (failures > 0) {
+      console.log(`[evdev] Opened ${device} after ${failures} failed attempt(s)`);
+    }
+    openFailures.delete(device);
+    const { mode, reason } = input.inputMode;
+    entry.info = { ...entry.info, inputMode: mode, inputModeReason: reason };
+    entry.connected = true;
+    if (RECORD_INPUT) {
+      try {
+        startCapture(controllerId);
+      } catch (err) {
+        console.error(`[capture] Cannot record ${controllerId}: ${(err as Error).message}`);
+      }
     }
-    reconnectAttempt = 0;
-    deviceConnected = true;
-    io.emit('nav:connected', { device: devicePath });
-    console.log(`[evdev] Device connected: ${devicePath}`);
+    io.emit('nav:connected', entry.info);
+    addControllerFocus(controllerId);
+    console.log(`[evdev] Device connected: ${device} [${controllerId}] — ${getConnectedControllers().length} controller(s)`);
   });
 
-  reader.on('nav', (event) => {
-    // ── PS button: cycle active client (consume, don't forward) ──
-    if (event.kind === 'button' && event.button === 'ps' && event.pressed) {
-      cycleActiveClient();
-      return;
-    }
+  // Mode found by the first-input heuristic after nav:connected was sent
+  input.on('mode', ({ mode, reason }) => {
+    entry.info = { ...entry.info, inputMode: mode, inputModeReason: reason };
+  });
+
+  input.on('nav', (event) => {
+    // While calibrating, the user is sweeping the stick — keep it from services
+    if (calibrationSessions.has(controllerId)) return;
+
+    if (event.kind === 'button' && event.button === 'ps') emitPsButton(event);
+
+    // ── Switcher overlay open: input drives the switcher ──
+    if (switchers.has(controllerId) && handleSwitcherInput(controllerId, event, entry.system)) return;
+
+    // ── PS button and PS chords: system bindings (consumed, not forwarded) ──
+    if (event.kind === 'button' && entry.system.handle(event)) return;
 
-    // ── Forward to active registered client + all unregistered (always-on) clients ──
+    entry.gestures.feed(event);
+
+    // ── Forward to this controller's active client + all unregistered (always-on) clients ──
     if (event.kind === 'button') {
       emitNavEvent('nav:button', event as PSNavButtonEvent);
     } else if (event.kind === 'axis') {
@@ -358,83 +1442,333 @@ async function startEvdevReader(): Promise<void> {
     }
   });
 
-  reader.on('raw', (raw: RawInputEvent) => {
-    // Active registered client
-    const active = getActiveSocket();
-    if (active?.data.wantsRaw) {
-      active.emit('nav:raw', raw);
-    }
-    // Unregistered always-on clients
-    for (const socket of getUnregisteredSockets()) {
-      if (socket.data.wantsRaw) {
+  input.on('analog', (event) => {
+    if (calibrationSessions.has(controllerId) || switchers.has(controllerId)) return;
+    emitAnalogEvent(event);
+  });
+
+  input.on('frame', (frame: PSNavFrameEvent) => {
+    if (calibrationSessions.has(controllerId)) return;
+
+    // PS and its chords are consumed by the system bindings — drop them from
+    // the deltas and report them as released in the snapshot
+    const changes = frame.changes.filter((c) => !entry.system.consumed(c));
+    if (changes.length === 0) return;
+    emitNavFrame({ ...frame, buttons: entry.system.maskHeld(frame.buttons), changes });
+  });
+
+  input.on('raw', (raw: RawInputEvent) => {
+    captures.get(controllerId)?.write(raw);
+    const calibration = calibrationSessions.get(controllerId);
+    const axis = raw.type === EV_ABS ? input.axisForCode(raw.code) : null;
+    if (calibration && axis) calibration.session.feed(axis, raw.value);
+
+    // Service focused by this controller + always-on clients (unregistered + observers)
+    const recipients = getAlwaysOnSockets();
+    const active = getActiveSocket(controllerId);
+    if (active) recipients.unshift(active);
+    for (const socket of recipients) {
+      if (socket.data.wantsRaw && passesFilter(socket.id, 'raw', raw.type)) {
         socket.emit('nav:raw', raw);
       }
     }
   });
 
-  reader.on('error', (err) => {
+  input.on('error', (err) => {
     // Suppress repeated "Cannot open" noise — only log first attempt and every Nth
-    if (reconnectAttempt === 0 || reconnectAttempt % MAX_RECONNECT_LOG_INTERVAL === 0) {
-      console.error(`[evdev] Error: ${err.message}`);
+    if (failures % MAX_RECONNECT_LOG_INTERVAL === 0) {
+      console.error(`[evdev] Error (${controllerId}): ${err.message}`);
+    }
+  });
+
+  input.on('close', (reason) => {
+    stopCapture(controllerId);
+    controllers.delete(controllerId);
+    entry.gestures.reset();
+    entry.system.reset();
+    if (!entry.connected) {
+      openFailures.set(device, failures + 1);
+      return;
     }
+
+    entry.connected = false;
+    cancelCalibrations((run) => run.session.controllerId === controllerId, 'controller disconnected');
+    removeControllerFocus(controllerId);
+    io.emit('nav:disconnected', { controllerId, device, reason });
+    console.log(`[evdev] Device closed: ${device} [${controllerId}] (${reason})`);
+    if (source instanceof EvdevReader) console.log(`[evdev] Will keep scanning every ${SCAN_INTERVAL_MS / 1000}s...`);
   });
 
-  reader.on('close', (reason) => {
-    deviceConnected = false;
-    reconnectAttempt++;
+  input.start();
+}
+
+/** Start the configured input source; evdev devices are discovered and rescanned */
+function startInputSource(): void {
+  switch (INPUT_SOURCE) {
+    case 'mock':
+      startMock();
+      break;
+    case 'replay':
+      startReplay();
+      break;
+    default:
+      if (INPUT_SOURCE !== 'evdev') console.warn(`[input] Unknown INPUT_SOURCE "${INPUT_SOURCE}" — reading evdev devices`);
+      scanControllers();
+  }
+}
 
-    if (reconnectAttempt === 1) {
-      io.emit('nav:disconnected', { device: devicePath, reason });
-      console.log(`[evdev] Device closed: ${reason}`);
-      console.log(`[evdev] Will keep retrying every ${RECONNECT_INTERVAL_MS / 1000}s...`);
-    } else if (reconnectAttempt % MAX_RECONNECT_LOG_INTERVAL === 0) {
-      console.log(`[evdev] Still waiting for controller... (attempt #${reconnectAttempt})`);
+/** The built-in mock, or the scenario named by MOCK_INPUT */
+function startMock(): void {
+  if (!MOCK_SCENARIO) {
+    startInput(new MockSource());
+    return;
+  }
+  if (MOCK_SEED !== undefined && !Number.isInteger(MOCK_SEED)) {
+    console.error(`[mock] MOCK_SEED must be a whole number, got "${process.env.MOCK_SEED}" — no mock controller started`);
+    return;
+  }
+  let scenario: Scenario;
+  try {
+    scenario = loadScenario(MOCK_SCENARIO);
+  } catch (err) {
+    console.error(`[mock] ${(err as Error).message}`);
+    return;
+  }
+  startInput(new ScenarioSource(scenario, { seed: MOCK_SEED }));
+}
+
+// ─── Calibration ────────────────────────────────────────────────────────────
+
+/** Saved stick / L2 calibrations, one file per controller */
+const calibrations = new CalibrationStore(CALIBRATION_DIR);
+
+interface CalibrationRun {
+  session: CalibrationSession;
+  socketId: string;              // socket that started it and gets the progress
+}
+
+/** Running calibration flows by controllerId */
+const calibrationSessions = new Map<string, CalibrationRun>();
+
+function startCalibration(socket: TypedSocket, requestedId?: string): void {
+  const connected = getConnectedControllers();
+  const controllerId = requestedId ?? (connected.length === 1 ? connected[0].controllerId : null);
+  const fail = (error: string) => {
+    socket.emit('calibration:done', { controllerId: controllerId ?? '', ok: false, error });
+  };
+
+  if (!controllerId) {
+    return fail(connected.length === 0 ? 'no controller connected' : 'several controllers connected — pass a controllerId');
+  }
+  const entry = controllers.get(controllerId);
+  if (!entry?.connected) return fail(`controller ${controllerId} is not connected`);
+  if (calibrationSessions.has(controllerId)) return fail(`controller ${controllerId} is already being calibrated`);
+
+  const input = entry.input;
+  const { mode } = input.inputMode;
+  if (mode === 'unknown') return fail('input mode not detected yet — move the stick once and try again');
+
+  const session = new CalibrationSession({
+    controllerId,
+    inputMode: mode,
+    nominal: input.nominalRanges(),
+    initial: input.rawAxisValues(),
+  });
+  calibrationSessions.set(controllerId, { session, socketId: socket.id });
+  console.log(`[calibration] Started for ${controllerId} by ${socket.id}`);
+
+  session.on('progress', (progress) => socket.emit('calibration:progress', progress));
+
+  session.on('done', (calibration) => {
+    calibrationSessions.delete(controllerId);
+    try {
+      calibrations.save(calibration);
+    } catch (err) {
+      console.error(`[calibration] Cannot save calibration of ${controllerId}: ${(err as Error).message}`);
+      return fail(`could not save calibration: ${(err as Error).message}`);
     }
+    input.setCalibration(calibration);
+    socket.emit('calibration:done', { controllerId, ok: true, calibration });
+  });
 
-    setTimeout(() => startEvdevReader(), RECONNECT_INTERVAL_MS);
+  session.on('failed', (reason) => {
+    calibrationSessions.delete(controllerId);
+    console.log(`[calibration] ${controllerId} failed: ${reason}`);
+    fail(reason);
   });
 
-  reader.start();
+  session.start();
 }
 
-// ─── Mock input for development/testing without the actual controller ────────
+function cancelCalibrations(predicate: (run: CalibrationRun) => boolean, reason: string): void {
+  for (const run of [...calibrationSessions.values()]) {
+    if (predicate(run)) run.session.cancel(reason);
+  }
+}
 
-function startMockInput(): void {
-  console.log('[mock] Starting mock PS Navigation input (no real device)');
-  deviceConnected = true;
-  io.emit('nav:connected', { device: 'mock' });
+// ─── Input captures (record / replay) ───────────────────────────────────────
 
-  // Simulate stick movement → active registered + all unregistered
-  setInterval(() => {
-    const now = Date.now();
-    const x = Math.round(128 + 127 * Math.sin(now / 1000));
-    const y = Math.round(128 + 127 * Math.cos(now / 1000));
+/** Running recordings by controllerId */
+const captures = new Map<string, CaptureRecorder>();
 
-    emitNavEvent('nav:axis', { kind: 'axis', axis: 'stick_x', value: x, timestamp: now });
-    emitNavEvent('nav:axis', { kind: 'axis', axis: 'stick_y', value: y, timestamp: now });
-  }, 50);
+/** Start recording a connected controller's raw input; returns the capture file */
+function startCapture(controllerId: string): string {
+  const running = captures.get(controllerId);
+  if (running) return running.file;
 
-  // Simulate random button presses → active registered + all unregistered
-  const buttons: Array<PSNavButtonEvent['button']> = [
-    'cross', 'circle', 'l1', 'l2', 'dpad_up', 'dpad_down', 'dpad_left', 'dpad_right',
-  ];
-  setInterval(() => {
-    const btn = buttons[Math.floor(Math.random() * buttons.length)];
-    const now = Date.now();
+  const { source } = controllers.get(controllerId)!.input;
+  const recorder = new CaptureRecorder(captureFileName(CAPTURE_DIR, controllerId), {
+    controllerId,
+    device: source.device,
+    deviceInfo: source.deviceInfo,
+    inputMode: source.inputMode ?? null,
+    recordedAt: Date.now(),
+  });
+  captures.set(controllerId, recorder);
+  console.log(`[capture] Recording ${controllerId} to ${recorder.file}`);
+  return recorder.file;
+}
 
-    emitNavEvent('nav:button', { kind: 'button', button: btn, pressed: true, timestamp: now });
-    setTimeout(() => {
-      emitNavEvent('nav:button', { kind: 'button', button: btn, pressed: false, timestamp: Date.now() });
-    }, 100);
-  }, 2000);
+/** Stop recording a controller; returns the finished capture file, or null if none was running */
+function stopCapture(controllerId: string): string | null {
+  const recorder = captures.get(controllerId);
+  if (!recorder) return null;
+  captures.delete(controllerId);
+  recorder.close();
+  console.log(`[capture] Stopped recording ${controllerId}: ${recorder.events} event(s) in ${recorder.file}`);
+  return recorder.file;
+}
 
-  // Simulate PS button press every 8s → cycles active registered client
-  setInterval(() => {
-    console.log('[mock] Simulating PS button → cycling active client');
-    cycleActiveClient();
-  }, 8000);
+/** capture:start / capture:stop — one controller, or every connected (start) / recorded (stop) one */
+/** Constant-time check of a secret token, so response timing does not leak it */
+function tokenMatches(token: unknown, secret: string): boolean {
+  if (typeof token !== 'string') return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
 }
 
+function setCapturing(request: CaptureRequest, start: boolean): CaptureResult {
+  // Captures write files on the hub — never without an admin token
+  if (!ADMIN_TOKEN) return { ok: false, error: 'capture disabled (the hub has no ADMIN_TOKEN)' };
+  if (!tokenMatches(request.adminToken, ADMIN_TOKEN)) return { ok: false, error: 'admin token required' };
+
+  const { controllerId } = request;
+  if (controllerId && start && !controllers.get(controllerId)?.connected) {
+    return { ok: false, error: `controller ${controllerId} is not connected` };
+  }
+  if (controllerId && !start && !captures.has(controllerId)) {
+    return { ok: false, error: `controller ${controllerId} is not being recorded` };
+  }
+  const ids = controllerId
+    ? [controllerId]
+    : start ? getConnectedControllers().map((c) => c.controllerId) : [...captures.keys()];
+  if (ids.length === 0) return { ok: false, error: start ? 'no controller connected' : 'nothing is being recorded' };
+
+  const files: Record<string, string> = {};
+  for (const id of ids) {
+    if (!start) {
+      files[id] = stopCapture(id)!;
+      continue;
+    }
+    try {
+      files[id] = startCapture(id);
+    } catch (err) {
+      return { ok: false, files, error: `cannot record ${id}: ${(err as Error).message}` };
+    }
+  }
+  return { ok: true, files };
+}
+
+function replyCapture(socket: TypedSocket, what: string, result: CaptureResult, ack?: (result: CaptureResult) => void): void {
+  if (!result.ok) console.log(`[capture] ${what} from ${socket.id} denied: ${result.error}`);
+  if (typeof ack === 'function') ack(result);
+}
+
+/** Replay every capture in REPLAY_FILE (comma-separated) as its own controller */
+function startReplay(): void {
+  const files = REPLAY_FILE.split(',').map((f) => f.trim()).filter(Boolean);
+  if (files.length === 0) console.warn('[replay] INPUT_SOURCE=replay needs REPLAY_FILE (capture files, comma-separated)');
+
+  let speed = REPLAY_SPEED;
+  if (!Number.isFinite(speed) || speed <= 0) {
+    console.warn(`[replay] REPLAY_SPEED must be a positive number — playing at 1x`);
+    speed = 1;
+  }
+
+  for (const file of files) {
+    let capture: Capture;
+    try {
+      capture = loadCapture(file);
+    } catch (err) {
+      console.error(`[replay] Cannot load capture: ${(err as Error).message}`);
+      continue;
+    }
+    // The same capture twice (or two of one controller) play as separate controllers
+    let controllerId = capture.header.controllerId;
+    for (let n = 2; controllers.has(controllerId); n++) controllerId = `${capture.header.controllerId}#${n}`;
+    startInput(new ReplaySource(file, capture, { speed, loop: REPLAY_LOOP, controllerId }));
+  }
+}
+
+// ─── Virtual pad (browser controller) ───────────────────────────────────────
+
+// The pad page drives a virtual controller through the /pad namespace of a
+// second Socket.IO server on its own path, so the pad has its own typed event
+// maps — only the main server carries service events
+const padIo = new Server<PadClientToServerEvents, PadServerToClientEvents, InterServerEvents, PadSocketData>(httpServer, {
+  path: PAD_SOCKET_PATH,
+});
+const pad = padIo.of('/pad');
+
+app.get('/pad', (_req, res) => {
+  res.sendFile(PAD_PAGE);
+});
+
+// Virtual controllers live under their own prefix, so a pad can never take
+// over a real controller's id (a MAC) and its calibration, focus or saved state
+const PAD_ID_PREFIX = 'virtual-';
+const PAD_NAME_PATTERN = /^[\w.-]{1,32}$/;
+
+pad.use((socket, next) => {
+  const auth = socket.handshake.auth as PadAuth;
+  if (!PAD_TOKEN) return next(new Error('virtual pad disabled (the hub has no PAD_TOKEN)'));
+  if (!tokenMatches(auth.token, PAD_TOKEN)) return next(new Error('invalid pad token'));
+
+  let controllerId: string;
+  if (auth.name === undefined || auth.name === '') {
+    controllerId = `${PAD_ID_PREFIX}1`;
+    for (let n = 2; controllers.has(controllerId); n++) controllerId = `${PAD_ID_PREFIX}${n}`;
+  } else if (typeof auth.name !== 'string' || !PAD_NAME_PATTERN.test(auth.name)) {
+    return next(new Error('name must be 1-32 letters, digits or _ . -'));
+  } else {
+    controllerId = `${PAD_ID_PREFIX}${auth.name}`;
+    if (controllers.has(controllerId)) return next(new Error(`controller ${controllerId} is already connected`));
+  }
+  socket.data.controllerId = controllerId;
+  next();
+});
+
+pad.on('connection', (socket) => {
+  const { controllerId } = socket.data;
+  // Another pad may have taken the id between the handshake check and now
+  if (controllers.has(controllerId)) {
+    socket.disconnect(true);
+    return;
+  }
+  console.log(`[pad] Virtual pad connected: ${socket.id} as ${controllerId}`);
+
+  const source = new VirtualSource(`pad:${socket.id}`, controllerId);
+  startInput(source);
+  socket.emit('pad:ready', { controllerId, device: source.device });
+
+  socket.on('pad:report', (report) => source.report(report));
+  socket.on('disconnect', (reason) => {
+    console.log(`[pad] Virtual pad disconnected: ${socket.id} (${reason})`);
+    source.stop('pad disconnected');
+  });
+});
+
 // ─── Start ──────────────────────────────────────────────────────────────────
 
 httpServer.listen(PORT, () => {
@@ -443,21 +1777,30 @@ httpServer.listen(PORT, () => {
   console.log(`  │  Server running on http://0.0.0.0:${PORT}  │`);
   console.log(`  │  Fallback: ${DEVICE_PATH_FALLBACK.padEnd(28)}│`);
   console.log(`  │  Discovery: auto (sysfs)                 │`);
-  console.log(`  │  Mode: ${(MOCK_INPUT ? 'MOCK' : 'LIVE').padEnd(32)}│`);
+  console.log(`  │  Input: ${INPUT_SOURCE.padEnd(31)}│`);
   console.log(`  └──────────────────────────────────────────┘\n`);
 
-  if (MOCK_INPUT) {
-    startMockInput();
-  } else {
-    startEvdevReader();
-  }
+  serviceState.load();
+  systemBindings.load();
+  systemBindings.watch();
+  batteryPoll = setInterval(() => void pollBatteries(), BATTERY_POLL_MS);
+
+  profiles.load();
+  profiles.watch();
+  startInputSource();
 });
 
 // ─── Graceful shutdown ──────────────────────────────────────────────────────
 
 function shutdown(signal: string): void {
   console.log(`\n[server] ${signal} received, shutting down...`);
+  serviceState.close();
+  for (const controllerId of [...captures.keys()]) stopCapture(controllerId);
+  if (batteryPoll) clearInterval(batteryPoll);
   io.disconnectSockets(true);
+  pad.disconnectSockets(true);
+  profiles.close();
+  systemBindings.close();
   httpServer.close(() => {
     console.log('[server] HTTP server closed');
     process.exit(0);
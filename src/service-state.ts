@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ─── Persisted rotation + last active service ───────────────────────────────
+//
+// Services that register with an identity token keep their place across hub
+// restarts. The rotation order and each controller's last active service are
+// saved by token as JSON (SERVICE_STATE):
+//
+//   {
+//     "rotation": ["<token>", "<token>", ...],
+//     "active": { "<controllerId>": "<token>" }
+//   }
+//
+// Tokens of services that are not registered keep their slot, so a service
+// coming back later is put back between the same neighbours, up to
+// MAX_SAVED_SERVICES tokens.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SavedServiceState {
+  rotation: string[];
+  /** controllerId → token of the service it was last driving */
+  active: Record<string, string>;
+}
+
+const SAVE_DEBOUNCE_MS = 500;
+const MAX_SAVED_SERVICES = 64;
+
+/**
+ * Fold the current rotation (tokens of registered services, in order) into
+ * the saved one: registered services take the saved slots in their current
+ * order, services seen for the first time go after them.
+ */
+function mergeRotation(saved: string[], current: string[]): string[] {
+  const known = new Set(saved);
+  const present = new Set(current);
+  const queue = [...current];
+  const merged: string[] = [];
+
+  for (const token of saved) {
+    if (!present.has(token)) {
+      merged.push(token);
+      continue;
+    }
+    // New services queued ahead of the next known one go first
+    while (queue.length > 0 && !known.has(queue[0])) merged.push(queue.shift()!);
+    if (queue.length > 0) merged.push(queue.shift()!);
+  }
+  merged.push(...queue);
+
+  // Over the limit: forget absent services, the ones at the end first
+  for (let i = merged.length - 1; i >= 0 && merged.length > MAX_SAVED_SERVICES; i--) {
+    if (!present.has(merged[i])) merged.splice(i, 1);
+  }
+  return merged;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Loads the saved service state and writes changes back (debounced) */
+export class ServiceStateStore {
+  private state: SavedServiceState = { rotation: [], active: {} };
+  private saveTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(public readonly file: string) {}
+
+  load(): void {
+    try {
+      const json = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as Record<string, unknown> | null;
+      // Anything that is not a token string is dropped rather than routed on
+      const rotation: unknown[] = Array.isArray(json?.rotation) ? json.rotation : [];
+      const active: [string, unknown][] = isObject(json?.active) ? Object.entries(json.active) : [];
+      this.state = {
+        rotation: rotation.filter((t): t is string => typeof t === 'string'),
+        active: Object.fromEntries(active.filter((entry): entry is [string, string] => typeof entry[1] === 'string')),
+      };
+      const dropped = rotation.length - this.state.rotation.length + active.length - Object.keys(this.state.active).length;
+      if (dropped > 0) console.warn(`[state] Ignored ${dropped} malformed entr${dropped === 1 ? 'y' : 'ies'} in ${this.file}`);
+      console.log(`[state] Loaded ${this.state.rotation.length} service(s) from ${this.file}`);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[state] Cannot read ${this.file}: ${(err as Error).message} — starting with an empty rotation`);
+      }
+    }
+  }
+
+  /** Saved rotation position of a token, -1 if it is not known */
+  rank(token: string): number {
+    return this.state.rotation.indexOf(token);
+  }
+
+  /** Token of the service a controller was last driving, null if none was saved */
+  lastActive(controllerId: string): string | null {
+    return this.state.active[controllerId] ?? null;
+  }
+
+  /**
+   * Record the current rotation and, per connected controller, the token of
+   * the service it is driving (null leaves the saved one as it is).
+   */
+  update(rotation: string[], active: Record<string, string | null>): void {
+    if (this.closed) return;
+    const next: SavedServiceState = {
+      rotation: mergeRotation(this.state.rotation, rotation),
+      active: { ...this.state.active },
+    };
+    for (const [controllerId, token] of Object.entries(active)) {
+      if (token) next.active[controllerId] = token;
+    }
+    if (JSON.stringify(next) === JSON.stringify(this.state)) return;
+
+    this.state = next;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+  }
+
+  /** Write a pending change now and ignore later ones — services dropping off during shutdown are not news */
+  close(): void {
+    this.closed = true;
+    if (this.saveTimer) this.flush();
+  }
+
+  private flush(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.state, null, 2) + '\n');
+    } catch (err) {
+      console.error(`[state] Cannot save ${this.file}: ${(err as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import type { PSNavButton } from './types';
+
+// ─── Virtual stick direction buttons ────────────────────────────────────────
+//
+// Turns the stick into stick_up / stick_down / stick_left / stick_right
+// button presses, so menu-style apps can treat it as a second D-pad. A
+// direction presses once its deflection reaches `press` and releases only
+// when it falls below `release`, so a stick resting near the threshold does
+// not flicker.
+//
+//   8-way: each axis is thresholded on its own — diagonals hold two buttons
+//   4-way: only the dominant direction is held; switching to the other axis
+//          needs a clear margin, so a stick near 45° does not flicker either
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StickButtonOptions {
+  directions: 4 | 8;
+  /** Deflection (0..1) that presses a direction */
+  press: number;
+  /** Deflection (0..1) below which a held direction releases */
+  release: number;
+}
+
+export const DEFAULT_STICK_BUTTONS: StickButtonOptions = { directions: 4, press: 0.5, release: 0.3 };
+
+/** How much further the other axis must be deflected to take over in 4-way mode */
+const SWITCH_MARGIN = 1.25;
+
+export interface StickButtonChange {
+  button: PSNavButton;
+  pressed: boolean;
+}
+
+export class StickButtons {
+  private held = new Set<PSNavButton>();
+
+  constructor(private readonly opts: StickButtonOptions) {}
+
+  /** Feed the stick position (0-255 per axis); returns the buttons that changed, releases first */
+  update(xValue: number, yValue: number): StickButtonChange[] {
+    const x = (xValue - 128) / 127;
+    const y = (yValue - 128) / 127;
+    // Deflection toward each direction (y grows toward you / down)
+    const pull: Partial<Record<PSNavButton, number>> = {
+      stick_right: x, stick_left: -x, stick_down: y, stick_up: -y,
+    };
+
+    const next = this.opts.directions === 8 ? this.eightWay(pull) : this.fourWay(pull);
+
+    const changes: StickButtonChange[] = [];
+    for (const button of this.held) {
+      if (!next.has(button)) changes.push({ button, pressed: false });
+    }
+    for (const button of next) {
+      if (!this.held.has(button)) changes.push({ button, pressed: true });
+    }
+    this.held = next;
+    return changes;
+  }
+
+  /** Forget held directions (the mapper already released them) */
+  reset(): void {
+    this.held.clear();
+  }
+
+  private isHeld(button: PSNavButton, deflection: number): boolean {
+    return deflection >= (this.held.has(button) ? this.opts.release : this.opts.press);
+  }
+
+  private eightWay(pull: Partial<Record<PSNavButton, number>>): Set<PSNavButton> {
+    const next = new Set<PSNavButton>();
+    for (const [button, deflection] of Object.entries(pull) as [PSNavButton, number][]) {
+      if (this.isHeld(button, deflection)) next.add(button);
+    }
+    return next;
+  }
+
+  private fourWay(pull: Partial<Record<PSNavButton, number>>): Set<PSNavButton> {
+    const ranked = (Object.entries(pull) as [PSNavButton, number][]).sort((a, b) => b[1] - a[1]);
+    const [strongest, deflection] = ranked[0];
+    const current = [...this.held][0];
+
+    if (current && current !== strongest) {
+      // Keep the held direction until another one clearly dominates
+      const currentPull = pull[current]!;
+      if (this.isHeld(current, currentPull) && deflection < currentPull * SWITCH_MARGIN) {
+        return new Set([current]);
+      }
+    }
+    return this.isHeld(strongest, deflection) ? new Set([strongest]) : new Set();
+  }
+}
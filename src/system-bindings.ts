@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { PSNAV_BUTTONS, PSNAV_STICK_BUTTONS, PSNavButton, PSNavButtonEvent, PSNavEvent } from './types';
+
+// ─── System bindings ────────────────────────────────────────────────────────
+//
+// The PS button belongs to the hub: it is never forwarded as a plain button.
+// What it does is configured in a JSON file (SYSTEM_BINDINGS):
+//
+//   {
+//     "longPressMs": 600,
+//     "tap": "next",
+//     "longPress": "switcher",
+//     "chords": {
+//       "dpad_left":  "previous",
+//       "dpad_right": "next",
+//       "cross":      { "focus": "media" }
+//     }
+//   }
+//
+//   tap        PS pressed and released on its own
+//   longPress  PS held for longPressMs without a chord
+//   chords     a button pressed while PS is held; the button is consumed
+//              (neither its press nor its release reaches the service)
+//
+// Actions: "next" / "previous" cycle this controller's services, { "focus":
+// name } jumps to a service, "switcher" opens the service picker overlay
+// (confirmed by releasing PS, so it suits "longPress" best), "none" does
+// nothing. For "tap" only, "passthrough" sends the PS press + release to the
+// active service (on release — the hub has to wait to tell a tap from a
+// chord).
+//
+// All keys are optional; the defaults below apply when the file is missing.
+// The file is reloaded when it changes; a version that fails the check is
+// rejected and the previous one stays in use.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SystemAction = 'next' | 'previous' | 'switcher' | 'passthrough' | 'none' | { focus: string };
+
+export interface SystemBindings {
+  longPressMs: number;
+  tap: SystemAction;
+  longPress: SystemAction;
+  chords: Partial<Record<PSNavButton, SystemAction>>;
+  /** File the bindings were loaded from, null for the defaults */
+  source: string | null;
+}
+
+export const DEFAULT_SYSTEM_BINDINGS: SystemBindings = {
+  longPressMs: 600,
+  tap: 'next',
+  longPress: 'switcher',
+  chords: { dpad_left: 'previous', dpad_right: 'next' },
+  source: null,
+};
+
+/** Thrown for a bindings file that does not pass the schema check */
+export class SystemBindingsError extends Error {
+  constructor(public readonly source: string, public readonly problems: string[]) {
+    super(`Invalid system bindings ${source}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'SystemBindingsError';
+  }
+}
+
+// ─── Schema check ───────────────────────────────────────────────────────────
+
+const TOP_LEVEL_KEYS = ['$schema', 'description', 'longPressMs', 'tap', 'longPress', 'chords'];
+const SIMPLE_ACTIONS = ['next', 'previous', 'switcher', 'passthrough', 'none'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseAction(value: unknown, where: string, problems: string[]): SystemAction | null {
+  if (value === 'passthrough' && where !== 'tap') {
+    problems.push(`${where}: "passthrough" is only possible for "tap"`);
+    return null;
+  }
+  if (typeof value === 'string' && SIMPLE_ACTIONS.includes(value)) return value as SystemAction;
+  if (isObject(value) && Object.keys(value).length === 1 && typeof value.focus === 'string' && value.focus) {
+    return { focus: value.focus };
+  }
+  problems.push(`${where}: expected one of ${SIMPLE_ACTIONS.map((a) => `"${a}"`).join(', ')} or { "focus": "<service>" }`);
+  return null;
+}
+
+/**
+ * Check parsed JSON bindings against the schema, filling in defaults.
+ * Collects every problem before throwing a SystemBindingsError.
+ */
+export function parseSystemBindings(json: unknown, source: string): SystemBindings {
+  if (!isObject(json)) throw new SystemBindingsError(source, ['bindings must be a JSON object']);
+
+  const problems: string[] = [];
+  const bindings: SystemBindings = { ...DEFAULT_SYSTEM_BINDINGS, chords: { ...DEFAULT_SYSTEM_BINDINGS.chords }, source };
+
+  for (const key of Object.keys(json)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) problems.push(`unknown key "${key}"`);
+  }
+
+  if (json.longPressMs !== undefined) {
+    if (typeof json.longPressMs === 'number' && json.longPressMs > 0) bindings.longPressMs = json.longPressMs;
+    else problems.push('"longPressMs" must be a positive number');
+  }
+  for (const key of ['tap', 'longPress'] as const) {
+    if (json[key] === undefined) continue;
+    const action = parseAction(json[key], key, problems);
+    if (action) bindings[key] = action;
+  }
+
+  if (json.chords !== undefined) {
+    if (!isObject(json.chords)) {
+      problems.push('"chords" must be an object of button → action');
+    } else {
+      bindings.chords = {};
+      const chordButtons: PSNavButton[] = [...PSNAV_BUTTONS, ...PSNAV_STICK_BUTTONS].filter((b) => b !== 'ps');
+      for (const [button, value] of Object.entries(json.chords)) {
+        if (!chordButtons.includes(button as PSNavButton)) {
+          problems.push(`chords: unknown button "${button}" (expected one of ${chordButtons.join(', ')})`);
+          continue;
+        }
+        const action = parseAction(value, `chords.${button}`, problems);
+        if (action) bindings.chords[button as PSNavButton] = action;
+      }
+    }
+  }
+
+  if (problems.length > 0) throw new SystemBindingsError(source, problems);
+  return bindings;
+}
+
+// ─── Bindings file (load + hot reload) ──────────────────────────────────────
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+export declare interface SystemBindingsStore {
+  on(event: 'change', listener: () => void): this;
+}
+
+/**
+ * Loads the bindings file and reloads it when it changes. Emits 'change'
+ * after every reload.
+ */
+export class SystemBindingsStore extends EventEmitter {
+  private current: SystemBindings = DEFAULT_SYSTEM_BINDINGS;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(public readonly file: string) {
+    super();
+  }
+
+  get bindings(): SystemBindings {
+    return this.current;
+  }
+
+  /** (Re)load the file — defaults if it does not exist */
+  load(): void {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.file, 'utf-8');
+    } catch {
+      if (this.current.source) console.warn(`[bindings] ${this.file} is gone — using the default system bindings`);
+      this.current = DEFAULT_SYSTEM_BINDINGS;
+      return;
+    }
+
+    try {
+      this.current = parseSystemBindings(JSON.parse(text), this.file);
+      console.log(`[bindings] Loaded system bindings from ${this.file}`);
+    } catch (err) {
+      const message = err instanceof SyntaxError ? `Invalid JSON in ${this.file}: ${err.message}` : (err as Error).message;
+      console.error(`[bindings] ${message}`);
+      console.error(`[bindings] Keeping the ${this.current.source ? 'previously loaded' : 'default'} system bindings`);
+    }
+  }
+
+  /** Watch the file's directory (editors often replace the file) and reload on change */
+  watch(): void {
+    if (this.watcher) return;
+    const name = path.basename(this.file);
+    try {
+      this.watcher = fs.watch(path.dirname(this.file), (_event, filename) => {
+        if (filename && filename.toString() !== name) return;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.load();
+          this.emit('change');
+        }, RELOAD_DEBOUNCE_MS);
+      });
+    } catch {
+      console.warn(`[bindings] Cannot watch ${this.file} — system bindings will not hot-reload`);
+    }
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
+}
+
+// ─── Per-controller PS handling ─────────────────────────────────────────────
+
+export interface SystemChordHandlers {
+  /** Run a bound action for the controller */
+  action: (action: SystemAction, controllerId: string) => void;
+  /** Forward a PS event to the active service (passthrough) */
+  forward: (evt: PSNavButtonEvent) => void;
+}
+
+/**
+ * Tracks one controller's PS button and turns it into system actions. Feed
+ * it every button event before forwarding; it returns true for events it
+ * consumed.
+ */
+export class SystemChords {
+  private psPress: PSNavButtonEvent | null = null;
+  /** PS did something already (chord or long-press) — its release is not a tap */
+  private psUsed = false;
+  private longPressTimer: NodeJS.Timeout | null = null;
+  /** Chord buttons whose release must be swallowed too */
+  private swallowed = new Set<PSNavButton>();
+  /** Events consumed here, so frames can leave them out */
+  private consumedEvents = new WeakSet<PSNavEvent>();
+
+  constructor(
+    readonly controllerId: string,
+    private readonly store: SystemBindingsStore,
+    private readonly handlers: SystemChordHandlers,
+  ) {}
+
+  handle(evt: PSNavButtonEvent): boolean {
+    const consumed = this.route(evt);
+    if (consumed) this.consumedEvents.add(evt);
+    return consumed;
+  }
+
+  /**
+   * Mark an event as consumed by another part of the system layer (the
+   * switcher). For a press, the matching release is swallowed too.
+   */
+  claim(evt: PSNavEvent): void {
+    this.consumedEvents.add(evt);
+    if (evt.kind === 'button' && evt.pressed) this.swallowed.add(evt.button);
+  }
+
+  /** Was this event consumed by a system binding? */
+  consumed(evt: PSNavEvent): boolean {
+    return this.consumedEvents.has(evt);
+  }
+
+  /** Forget held state (controller gone) */
+  reset(): void {
+    if (this.longPressTimer) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+    this.psPress = null;
+    this.psUsed = false;
+    this.swallowed.clear();
+  }
+
+  /**
+   * A frame's button snapshot as services see it: buttons held for a system
+   * binding (PS, chord and switcher buttons) read as released.
+   */
+  maskHeld(buttons: Record<PSNavButton, boolean>): Record<PSNavButton, boolean> {
+    if (!this.psPress && this.swallowed.size === 0) return buttons;
+    const masked = { ...buttons };
+    if (this.psPress) masked.ps = false;
+    for (const button of this.swallowed) masked[button] = false;
+    return masked;
+  }
+
+  private route(evt: PSNavButtonEvent): boolean {
+    const { bindings } = this.store;
+
+    if (evt.button === 'ps') {
+      if (evt.pressed) {
+        if (this.psPress) return true;
+        this.psPress = evt;
+        this.psUsed = false;
+        this.longPressTimer = setTimeout(() => {
+          this.longPressTimer = null;
+          this.psUsed = true;
+          this.run(this.store.bindings.longPress, evt, null);
+        }, bindings.longPressMs);
+      } else {
+        const press = this.psPress;
+        if (this.longPressTimer) clearTimeout(this.longPressTimer);
+        this.longPressTimer = null;
+        this.psPress = null;
+        if (press && !this.psUsed && !evt.synthetic) this.run(bindings.tap, press, evt);
+      }
+      return true;
+    }
+
+    if (!evt.pressed) {
+      return this.swallowed.delete(evt.button);
+    }
+
+    const chord = this.psPress ? bindings.chords[evt.button] : undefined;
+    if (!chord) return false;
+
+    if (this.longPressTimer) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+    this.psUsed = true;
+    this.swallowed.add(evt.button);
+    this.run(chord, this.psPress!, null);
+    return true;
+  }
+
+  private run(action: SystemAction, press: PSNavButtonEvent, release: PSNavButtonEvent | null): void {
+    if (action === 'none') return;
+    if (action === 'passthrough') {
+      if (!release) return;   // tap only — see parseAction
+      this.handlers.forward(press);
+      this.handlers.forward(release);
+      return;
+    }
+    this.handlers.action(action, this.controllerId);
+  }
+}
@@ -15,6 +15,9 @@ export const EV_SYN = 0x00;
 export const EV_KEY = 0x01;
 export const EV_ABS = 0x03;
 
+export const SYN_REPORT = 0x00;
+export const SYN_DROPPED = 0x03;
+
 // ─── PS Navigation mapped events ────────────────────────────────────────────
 
 export type PSNavButton =
@@ -27,83 +30,561 @@ export type PSNavButton =
   | 'dpad_down'
   | 'dpad_left'
   | 'dpad_right'
-  | 'ps';
+  | 'ps'
+  // Virtual — derived from the stick by the hub (see stick-buttons.ts)
+  | 'stick_up'
+  | 'stick_down'
+  | 'stick_left'
+  | 'stick_right';
 
 export type PSNavAxis =
   | 'stick_x'
   | 'stick_y'
   | 'l2_analog';
 
+/** Physical buttons — the ones a mapping profile can map device codes to */
+export const PSNAV_BUTTONS: readonly PSNavButton[] = [
+  'cross', 'circle', 'l1', 'l2', 'l3',
+  'dpad_up', 'dpad_down', 'dpad_left', 'dpad_right', 'ps',
+];
+
+export const PSNAV_STICK_BUTTONS: readonly PSNavButton[] = [
+  'stick_up', 'stick_down', 'stick_left', 'stick_right',
+];
+
+export const PSNAV_AXES: readonly PSNavAxis[] = ['stick_x', 'stick_y', 'l2_analog'];
+
+/** Axis values at rest: sticks centered, L2 released */
+export const PSNAV_AXIS_REST: Readonly<Record<PSNavAxis, number>> = { stick_x: 128, stick_y: 128, l2_analog: 0 };
+
+/** Transport the controller reports through: USB (hid-sony) or Bluetooth (hid-generic) */
+export type InputMode = 'unknown' | 'usb' | 'bluetooth';
+
 export interface PSNavButtonEvent {
   kind: 'button';
+  controllerId: string;    // stable controller identity (MAC or phys path)
   button: PSNavButton;
   pressed: boolean;        // true = pressed, false = released
-  timestamp: number;       // ms since epoch
+  timestamp: number;       // kernel event time, ms since epoch (µs precision)
+  dispatchedAt: number;    // hub time the event left the read loop, ms since epoch
+  synthetic?: boolean;     // true if generated by the hub (e.g. resync after SYN_DROPPED)
+  repeat?: boolean;        // true on hub auto-repeats of a held button (pressed stays true)
 }
 
 export interface PSNavAxisEvent {
   kind: 'axis';
+  controllerId: string;
   axis: PSNavAxis;
   value: number;           // 0-255 for axes
   timestamp: number;
+  dispatchedAt: number;
+  synthetic?: boolean;
 }
 
 export type PSNavEvent = PSNavButtonEvent | PSNavAxisEvent;
 
+/**
+ * All changes between two SYN_REPORTs, delivered as one message.
+ * `buttons` / `axes` are the full controller state after applying `changes`.
+ * Axis values always have the hub's default deadzone, never a service's own
+ * `axes` settings.
+ */
+export interface PSNavFrameEvent {
+  kind: 'frame';
+  controllerId: string;
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+  changes: PSNavEvent[];
+  timestamp: number;       // kernel time of the SYN_REPORT
+  dispatchedAt: number;
+}
+
+/**
+ * Every button and axis of a controller as the hub last forwarded them to
+ * services (PS and consumed chord buttons stay released)
+ */
+export interface PSNavStateEvent {
+  kind: 'state';
+  controllerId: string;
+  buttons: Record<PSNavButton, boolean>;
+  axes: Record<PSNavAxis, number>;
+  timestamp: number;
+}
+
+/**
+ * Combined stick vector, opt-in via subscribe:stick. Computed from the same
+ * (post-deadzone) axis values the socket receives as nav:axis.
+ */
+export interface PSNavStickEvent {
+  kind: 'stick';
+  controllerId: string;
+  x: number;               // -1..1, right is positive
+  y: number;               // -1..1, sign per the subscriber's yAxis option
+  angle: number;           // atan2(y, x) in radians, -π..π
+  magnitude: number;       // 0..1
+  l2: number;              // l2_analog as 0..1
+  timestamp: number;
+  dispatchedAt: number;
+  synthetic?: boolean;
+}
+
+/** 'down': pulling the stick toward you is +y (like the 0-255 values); 'up': pushing away is +y */
+export type StickYAxis = 'up' | 'down';
+
+export interface StickOptions {
+  /** Default 'down' */
+  yAxis?: StickYAxis;
+}
+
+/**
+ * What a socket is sent, set with subscribe:filter. An omitted key lets
+ * everything of that kind through; an empty list lets nothing through.
+ */
+export interface NavFilter {
+  /** nav:button (and button changes in nav:frame) */
+  buttons?: PSNavButton[];
+  /** nav:axis / nav:stick (and axis changes in nav:frame) */
+  axes?: PSNavAxis[];
+  /** Evdev event types (EV_KEY, EV_ABS, …) sent as nav:raw */
+  raw?: number[];
+  /** nav:gesture types */
+  gestures?: PSNavGestureType[];
+  /**
+   * Max nav:axis updates per second — for every axis, or per axis. Changes in
+   * between are combined: only the latest value is sent when the interval is up.
+   */
+  axisRateHz?: number | Partial<Record<PSNavAxis, number>>;
+}
+
+// ─── Gestures ───────────────────────────────────────────────────────────────
+
+export type PSNavGestureType = 'tap' | 'double-tap' | 'long-press' | 'chord' | 'flick';
+
+export const PSNAV_GESTURE_TYPES: readonly PSNavGestureType[] = ['tap', 'double-tap', 'long-press', 'chord', 'flick'];
+
+export type FlickDirection =
+  | 'up' | 'down' | 'left' | 'right'
+  | 'up-left' | 'up-right' | 'down-left' | 'down-right';
+
+export interface PSNavGestureEvent {
+  kind: 'gesture';
+  controllerId: string;
+  gesture: PSNavGestureType;
+  /** tap / double-tap / long-press: the button; chord: every held button; flick: none */
+  buttons: PSNavButton[];
+  /** Flick only — 4- or 8-way, per the service's flickDirections */
+  direction?: FlickDirection;
+  /** Flick only — atan2(y, x) in radians, +y toward you */
+  angle?: number;
+  /** ms the press was held (long-press: the threshold) or the flick took */
+  duration: number;
+  timestamp: number;
+  dispatchedAt: number;
+}
+
+// ─── Auto-repeat ────────────────────────────────────────────────────────────
+
+export interface RepeatTiming {
+  /** Hold time before the first repeat (default 400) */
+  delayMs?: number;
+  /** Time between the first repeats (default 100) */
+  intervalMs?: number;
+  /** Factor applied to the interval after each repeat, ≤ 1 (default 1 = constant rate) */
+  acceleration?: number;
+  /** Floor for the accelerated interval (default 30) */
+  minIntervalMs?: number;
+}
+
+/**
+ * Per-service auto-repeat — see auto-repeat.ts. The top-level timing applies
+ * to every repeating button; `buttons` turns buttons on (true or their own
+ * timing) or off (false). By default the D-pad and stick buttons repeat.
+ */
+export interface RepeatOptions extends RepeatTiming {
+  buttons?: Partial<Record<PSNavButton, RepeatTiming | boolean>>;
+}
+
+/** Which gestures a service receives — see gestures.ts */
+export interface GestureOptions {
+  /** Default: all */
+  types?: PSNavGestureType[];
+  /** Default 8 */
+  flickDirections?: 4 | 8;
+}
+
 // ─── Battery status ─────────────────────────────────────────────────────────
 
 export interface BatteryStatus {
+  controllerId: string | null; // controller the battery belongs to, null if unknown
   level: number | null;      // 0-100 percentage, null if unavailable
   charging: boolean | null;  // true if charging, null if unknown
   source: string | null;     // sysfs power_supply name that was read
   timestamp: number;         // ms since epoch
 }
 
+// ─── Input device identity (sysfs) ──────────────────────────────────────────
+
+/** Identity of an evdev node as reported by /sys/class/input/eventX/device */
+export interface DeviceInfo {
+  name: string;            // device/name
+  vendor: string;          // device/id/vendor, 4 hex digits ('' if unknown)
+  product: string;         // device/id/product
+  bustype: string;         // device/id/bustype
+  driver: string;          // HID driver bound to the parent device, e.g. 'sony'
+  uniq: string;            // device/uniq (Bluetooth MAC)
+  phys: string;            // device/phys
+  absCapabilities: string; // device/capabilities/abs bitmask (hex words, most significant first)
+}
+
+/** Detected input mode and what it was derived from */
+export interface InputModeDetection {
+  mode: InputMode;
+  reason: string;          // e.g. 'sysfs: hid-sony driver', 'heuristic: negative axis value'
+}
+
+// ─── Controller identity ────────────────────────────────────────────────────
+
+/** A discovered controller input device */
+export interface ControllerInfo {
+  controllerId: string;    // sysfs `uniq` (Bluetooth MAC) or `phys` path
+  device: string;          // /dev/input/eventX path
+}
+
+// ─── Calibration ────────────────────────────────────────────────────────────
+
+/** Measured raw range of one axis, in device units */
+export interface AxisCalibration {
+  min: number;
+  max: number;
+  center: number;          // rest position (== min for l2_analog)
+}
+
+/** Saved per controller; only applied while the controller is in `inputMode` */
+export interface CalibrationProfile {
+  controllerId: string;
+  inputMode: InputMode;
+  axes: Partial<Record<PSNavAxis, AxisCalibration>>;
+  createdAt: number;       // ms since epoch
+}
+
+export type CalibrationStep = 'center' | 'range';
+
+export interface CalibrationProgress {
+  controllerId: string;
+  step: CalibrationStep;
+  message: string;         // instruction to show the user
+  progress: number;        // 0..1 over the whole flow
+}
+
+export interface CalibrationResult {
+  controllerId: string;
+  ok: boolean;
+  error?: string;          // why calibration failed or was cancelled
+  calibration?: CalibrationProfile;
+}
+
+// ─── Input captures (record / replay) ───────────────────────────────────────
+
+/**
+ * First line of an NDJSON capture file; every following line is one
+ * RawInputEvent with its kernel timestamp
+ */
+export interface CaptureHeader {
+  kind: 'psnav-capture';
+  version: 1;
+  controllerId: string;
+  device: string;          // device path (or source name) it was recorded from
+  deviceInfo: DeviceInfo | null;
+  /** Code layout the source declared (mock, replay), null if it was detected */
+  inputMode: InputModeDetection | null;
+  recordedAt: number;      // ms since epoch
+}
+
+/** capture:start / capture:stop — refused unless `adminToken` matches the hub's ADMIN_TOKEN */
+export interface CaptureRequest {
+  controllerId?: string;   // default: every connected controller
+  adminToken?: string;
+}
+
+export interface CaptureResult {
+  ok: boolean;
+  /** Capture file per controller started (capture:start) or finished (capture:stop) */
+  files?: Record<string, string>;
+  error?: string;
+}
+
+// ─── Virtual pad (browser controller) ───────────────────────────────────────
+
+/**
+ * Handshake `auth` of the /pad namespace. The hub's PAD_TOKEN is required;
+ * `name` makes the controllerId virtual-<name> (default: virtual-N).
+ */
+export interface PadAuth {
+  token?: string;
+  name?: string;
+}
+
+/** Input changes sent by the pad page — applied as one report */
+export interface PadReport {
+  buttons?: Partial<Record<PSNavButton, boolean>>;   // physical buttons only
+  axes?: Partial<Record<PSNavAxis, number>>;         // raw 0-255, like the device
+}
+
+export interface PadServerToClientEvents {
+  /** The virtual controller is connected and takes input */
+  'pad:ready': (info: ControllerInfo) => void;
+}
+
+export interface PadClientToServerEvents {
+  'pad:report': (report: PadReport) => void;
+}
+
+export interface PadSocketData {
+  controllerId: string;
+}
+
+// ─── Latency measurement ────────────────────────────────────────────────────
+
+/** Sent by clients that measure input-to-handler latency */
+export interface LatencyReport {
+  samples: number[];       // latencies in ms (server clock) since the last report
+  clockOffset: number;     // server clock minus client clock, ms
+  rtt: number;             // round trip of the clock sync sample used, ms
+}
+
+/** Per-client latency histogram aggregated from LatencyReports */
+export interface LatencyHistogram {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  /** Bucket counts by upper bound in ms; `leMs: null` collects everything above */
+  buckets: Array<{ leMs: number | null; count: number }>;
+  clockOffset: number;
+  rtt: number;
+  updatedAt: number;       // ms since epoch of the last report
+}
+
+/** Payload of nav:connected — a controller whose device was opened */
+export interface ConnectedController extends ControllerInfo {
+  inputMode: InputMode;
+  inputModeReason: string;
+}
+
 // ─── Service manager types ──────────────────────────────────────────────────
 
+/**
+ * Which controller a service wants to be driven by:
+ *   - a controllerId: only that controller
+ *   - 'any': the first controller that has no active service
+ *   - null: no preference — any controller may cycle to it
+ */
+export type ControllerRequest = string | 'any' | null;
+
+/** Per-service stick / L2 processing — see axis-processing.ts */
+export interface AxisSettings {
+  /** Default 'axial' (the hub's standard square deadzone) */
+  deadzone?: 'axial' | 'radial' | 'scaled-radial' | 'none';
+  /** Fraction of full deflection, 0..1 (default 10/127) */
+  deadzoneSize?: number;
+  /** Default 'linear' */
+  curve?: 'linear' | 'exponential' | 'lut';
+  /** For curve 'exponential' (default 2) */
+  exponent?: number;
+  /** For curve 'lut': outputs 0..1 sampled evenly over inputs 0..1 */
+  lut?: number[];
+}
+
+/**
+ * How a registered service takes part in routing:
+ *   - 'exclusive': in the focus rotation; gets input only while a controller drives it
+ *   - 'observer':  never focused; gets input from every controller, PS presses and battery changes
+ *   - 'listener':  never focused; gets no input, only PS presses and battery changes
+ */
+export type ServiceRole = 'exclusive' | 'observer' | 'listener';
+
+export interface RegisterOptions {
+  controller?: ControllerRequest;
+  /** Default 'exclusive' */
+  role?: ServiceRole;
+  /**
+   * Identity that outlives the socket: registering again with it within the
+   * reconnect grace period takes back the service's place and focus
+   */
+  token?: string;
+  /** Process this service's nav:axis values with its own deadzone / curve */
+  axes?: AxisSettings;
+  /** Receive nav:gesture events */
+  gestures?: GestureOptions;
+  /** Auto-repeat held buttons as nav:button events with repeat: true */
+  repeat?: RepeatOptions;
+}
+
 export interface RegisteredClient {
   socketId: string;
   serviceName: string;
   registeredAt: number;
+  controller: ControllerRequest;
+  role: ServiceRole;
+  /** False while the service is away within its reconnect grace period */
+  connected: boolean;
+}
+
+/** The service a single controller is currently driving */
+export interface ControllerFocus {
+  controllerId: string;
+  activeIndex: number;           // index into clients, -1 if none active
+  activeServiceName: string | null;
+  /** Focus stack, bottom first — the last holder is the active service */
+  stack: FocusHolder[];
+}
+
+/** One service on a controller's focus stack */
+export interface FocusHolder {
+  serviceName: string;
+  /** 0 when the focus came from the user (PS, switcher) or auto-assignment */
+  priority: number;
+  reason: string | null;
 }
 
 export interface ClientListInfo {
   clients: RegisteredClient[];
-  activeIndex: number;           // -1 if none active
+  /** Focus of the first connected controller (single-controller shorthand), -1 if none */
+  activeIndex: number;
   activeServiceName: string | null;
+  /** Per-controller focus, one entry per connected controller */
+  focus: ControllerFocus[];
+}
+
+/** Service picker overlay of one controller, broadcast as client:switcher */
+export interface SwitcherState {
+  controllerId: string;
+  open: boolean;
+  /** Services this controller can switch to */
+  clients: RegisteredClient[];
+  /** Index into clients of the highlighted service, -1 if none */
+  highlightedIndex: number;
+  /** Index into clients of the service the controller is driving, -1 if none */
+  activeIndex: number;
+}
+
+/** Payload of client:activated / client:deactivated */
+export interface ActivationInfo {
+  serviceName: string;
+  controllerId: string;          // controller that switched to / away from the service
+}
+
+/** Payload of client:request-focus */
+export interface FocusRequest {
+  /** Granted if at least the current holder's priority (default 1) */
+  priority?: number;
+  /** Why the service wants focus, e.g. "incoming call" — shown in client:list */
+  reason?: string;
+  /** Controller to take (default: the first connected one this service may drive) */
+  controller?: string;
+}
+
+/** Payload of client:yield */
+export interface YieldRequest {
+  /** Only yield this controller (default: every controller the service holds) */
+  controller?: string;
+}
+
+/** Payload of client:activate */
+export interface ActivateRequest {
+  serviceName: string;
+  /** Controller to switch (default: the first connected one that may drive the service) */
+  controller?: string;
+}
+
+/** Acknowledgement of client:request-focus, client:yield and client:activate */
+/** Acknowledgement of `register` */
+export interface RegisterResult {
+  ok: boolean;
+  /** Why the registration was rejected */
+  error?: string;
+}
+
+export interface FocusResult {
+  ok: boolean;
+  /** Controller the request applied to, null if there was none */
+  controllerId: string | null;
+  /** Service that controller is driving afterwards */
+  activeServiceName: string | null;
+  /** Why the request was denied */
+  error?: string;
 }
 
 // ─── Socket.IO event map ────────────────────────────────────────────────────
 
 export interface ServerToClientEvents {
+  /** PS presses (consumed by the hub) only reach observer / listener services */
   'nav:button': (event: PSNavButtonEvent) => void;
   'nav:axis': (event: PSNavAxisEvent) => void;
   'nav:raw': (event: RawInputEvent) => void;
-  'nav:connected': (info: { device: string }) => void;
-  'nav:disconnected': (info: { device: string; reason: string }) => void;
-
-  /** Sent to the newly active client */
-  'client:activated': (info: { serviceName: string }) => void;
-  /** Sent to the previously active client */
-  'client:deactivated': (info: { serviceName: string }) => void;
-  /** Broadcast to all clients when the client list or active client changes */
+  /** Opt-in via subscribe:frames */
+  'nav:frame': (frame: PSNavFrameEvent) => void;
+  /** Current state of a controller — every controller on connect, and one with each client:activated */
+  'nav:state': (state: PSNavStateEvent) => void;
+  /** Opt-in via subscribe:stick — follows every nav:axis the socket receives */
+  'nav:stick': (stick: PSNavStickEvent) => void;
+  /** Sent to the focused service if it asked for gestures at registration */
+  'nav:gesture': (gesture: PSNavGestureEvent) => void;
+  'nav:connected': (info: ConnectedController) => void;
+  'nav:disconnected': (info: ControllerInfo & { reason: string }) => void;
+
+  /** Sent to the client a controller switched to */
+  'client:activated': (info: ActivationInfo) => void;
+  /** Sent to the client a controller switched away from */
+  'client:deactivated': (info: ActivationInfo) => void;
+  /** Broadcast to all clients when the client list or any controller's focus changes */
   'client:list': (info: ClientListInfo) => void;
+  /** Broadcast to all clients while a controller's service picker is open, and once when it closes */
+  'client:switcher': (state: SwitcherState) => void;
+
+  /** Guided calibration flow, sent to the socket that started it */
+  'calibration:progress': (progress: CalibrationProgress) => void;
+  'calibration:done': (result: CalibrationResult) => void;
 
-  /** Response to battery:request */
+  /** Response to battery:request; also pushed to observer / listener services when a battery changes */
   'battery:status': (status: BatteryStatus) => void;
 }
 
 export interface ClientToServerEvents {
   'subscribe:raw': (enabled: boolean) => void;
-  /** Register this socket as a named service */
-  'register': (serviceName: string) => void;
-  /** Request current battery status */
-  'battery:request': () => void;
+  'subscribe:frames': (enabled: boolean) => void;
+  'subscribe:stick': (enabled: boolean, options?: StickOptions) => void;
+  /** Narrow what this socket is sent (null removes the filter) */
+  'subscribe:filter': (filter: NavFilter | null) => void;
+  /** Register this socket as a named service, optionally asking for a controller */
+  'register': (serviceName: string, options?: RegisterOptions, ack?: (result: RegisterResult) => void) => void;
+  /** Take a controller's focus on top of the current holder, if the priority allows */
+  'client:request-focus': (request: FocusRequest, ack?: (result: FocusResult) => void) => void;
+  /** Give focus back to the previous holder */
+  'client:yield': (request: YieldRequest, ack?: (result: FocusResult) => void) => void;
+  /** Switch a controller to a named service, unless a higher-priority request holds it */
+  'client:activate': (request: ActivateRequest, ack?: (result: FocusResult) => void) => void;
+  /** Clock-offset handshake — acknowledged with the server's Date.now() */
+  'clock:sync': (clientTime: number, ack: (serverTime: number) => void) => void;
+  /** Latency samples measured by the client since its last report */
+  'latency:report': (report: LatencyReport) => void;
+  /** Start calibrating a controller (default: the only connected one) */
+  'calibration:start': (controllerId?: string) => void;
+  /** Abort a calibration this socket started */
+  'calibration:cancel': () => void;
+  /** Request current battery status (one `battery:status` per controller if no id given) */
+  'battery:request': (controllerId?: string) => void;
+  /** Admin: record controllers' raw input to capture files */
+  'capture:start': (request: CaptureRequest, ack?: (result: CaptureResult) => void) => void;
+  /** Admin: stop recording and close the capture files */
+  'capture:stop': (request: CaptureRequest, ack?: (result: CaptureResult) => void) => void;
 }
 
 export interface InterServerEvents {}
 
 export interface SocketData {
   wantsRaw: boolean;
+  wantsFrames: boolean;
   serviceName: string | null;
+  latency: LatencyHistogram | null;
 }
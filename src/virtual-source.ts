@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import {
+  DeviceInfo,
+  InputModeDetection,
+  PSNAV_AXES,
+  PSNAV_BUTTONS,
+  PSNavAxis,
+  PSNavButton,
+  PadReport,
+  RawInputEvent,
+  EV_SYN,
+  EV_KEY,
+  EV_ABS,
+  SYN_REPORT,
+} from './types';
+import { InputSource, eventTime } from './input-source';
+import { AXIS_CODES, BUTTON_CODES, MOCK_DEVICE_INFO, RawTriple } from './mock-source';
+
+// ─── Virtual pad input (browser controller) ─────────────────────────────────
+//
+// A controller driven from the pad page (public/pad.html) over the /pad
+// Socket.IO namespace. Each pad:report becomes one hid-sony (USB) style input
+// report, so the page's input goes through the InputMapper and the routing
+// exactly like a real Nav's — stick buttons, gestures, PS bindings and all.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const VIRTUAL_DEVICE_INFO: DeviceInfo = { ...MOCK_DEVICE_INFO, name: 'Virtual PS Navigation' };
+
+const VIRTUAL_INPUT_MODE: InputModeDetection = { mode: 'usb', reason: 'virtual pad (hid-sony layout)' };
+
+export declare interface VirtualSource {
+  on(event: 'raw', listener: (raw: RawInputEvent) => void): this;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'close', listener: (reason: string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+export class VirtualSource extends EventEmitter implements InputSource {
+  public readonly inputMode = VIRTUAL_INPUT_MODE;
+  public readonly deviceInfo = VIRTUAL_DEVICE_INFO;
+  private open = false;
+
+  /** `device` names where the input comes from, e.g. pad:<socket id> */
+  constructor(public readonly device: string, public readonly controllerId: string) {
+    super();
+  }
+
+  start(): void {
+    this.open = true;
+    this.emit('open');
+  }
+
+  stop(reason = 'stopped'): void {
+    if (!this.open) return;
+    this.open = false;
+    this.emit('close', reason);
+  }
+
+  /**
+   * Apply one report from the page. Unknown buttons and axes are ignored,
+   * axis values are clamped to 0-255.
+   */
+  report(report: PadReport): void {
+    if (!this.open || typeof report !== 'object' || report === null) return;
+    const events: RawTriple[] = [];
+    for (const [button, pressed] of Object.entries(report.buttons ?? {})) {
+      const code = PSNAV_BUTTONS.includes(button as PSNavButton) ? BUTTON_CODES[button as PSNavButton] : null;
+      if (code !== null && typeof pressed === 'boolean') events.push([EV_KEY, code, pressed ? 1 : 0]);
+    }
+    for (const [axis, value] of Object.entries(report.axes ?? {})) {
+      if (!PSNAV_AXES.includes(axis as PSNavAxis) || typeof value !== 'number' || !Number.isFinite(value)) continue;
+      events.push([EV_ABS, AXIS_CODES[axis as PSNavAxis], Math.min(255, Math.max(0, Math.round(value)))]);
+    }
+    if (events.length === 0) return;
+
+    const time = eventTime();
+    for (const [type, code, value] of events) this.emit('raw', { ...time, type, code, value });
+    this.emit('raw', { ...time, type: EV_SYN, code: SYN_REPORT, value: 0 });
+  }
+}
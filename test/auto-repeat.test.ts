@@ -0,0 +1,83 @@
+import { test, TestContext } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AutoRepeater, resolveRepeatOptions } from '../src/auto-repeat';
+import { PSNavButton, PSNavButtonEvent, RepeatOptions } from '../src/types';
+
+function press(button: PSNavButton, pressed = true, controllerId = 'test'): PSNavButtonEvent {
+  return { kind: 'button', controllerId, button, pressed, timestamp: Date.now(), dispatchedAt: Date.now() };
+}
+
+/** A repeater on mocked timers that records when each repeat was sent */
+function setup(t: TestContext, options: RepeatOptions = {}) {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+  const repeats: string[] = [];
+  const repeater = new AutoRepeater(resolveRepeatOptions(options), (evt) => {
+    assert.equal(evt.repeat, true);
+    assert.equal(evt.pressed, true);
+    repeats.push(`${evt.controllerId} ${evt.button} ${evt.timestamp}`);
+  });
+  /** Advance the clock 10 ms at a time so every timer fires at its own time */
+  const advance = (ms: number) => {
+    for (let i = 0; i < ms; i += 10) t.mock.timers.tick(10);
+  };
+  return { repeater, repeats, advance };
+}
+
+test('the D-pad and stick buttons repeat by default; buttons can be switched on, off or retimed', () => {
+  const resolved = resolveRepeatOptions({
+    intervalMs: 80,
+    buttons: { cross: true, dpad_up: false, circle: { delayMs: 50 } },
+  });
+  assert.deepEqual(Object.keys(resolved).sort(), [
+    'circle', 'cross', 'dpad_down', 'dpad_left', 'dpad_right', 'stick_down', 'stick_left', 'stick_right', 'stick_up',
+  ]);
+  assert.deepEqual(resolved.cross, { delayMs: 400, intervalMs: 80, acceleration: 1, minIntervalMs: 30 });
+  assert.deepEqual(resolved.circle, { delayMs: 50, intervalMs: 80, acceleration: 1, minIntervalMs: 30 });
+});
+
+test('timings that are not finite and positive fall back, and acceleration never slows down', () => {
+  const resolved = resolveRepeatOptions({ delayMs: -5, intervalMs: '50' as never, acceleration: 2, minIntervalMs: 0 });
+  assert.deepEqual(resolved.dpad_up, { delayMs: 400, intervalMs: 100, acceleration: 1, minIntervalMs: 30 });
+
+  const infinite = resolveRepeatOptions({ delayMs: Infinity, intervalMs: NaN });
+  assert.deepEqual(infinite.dpad_up, { delayMs: 400, intervalMs: 100, acceleration: 1, minIntervalMs: 30 });
+});
+
+test('a held button repeats after the delay at a steady rate until released', (t) => {
+  const { repeater, repeats, advance } = setup(t);
+  repeater.feed(press('dpad_up'));
+  advance(390);
+  assert.deepEqual(repeats, []);
+  advance(220);
+  assert.deepEqual(repeats, ['test dpad_up 400', 'test dpad_up 500', 'test dpad_up 600']);
+
+  repeater.feed(press('dpad_up', false));
+  advance(1000);
+  assert.equal(repeats.length, 3);
+});
+
+test('acceleration shortens the interval down to the floor', (t) => {
+  const { repeater, repeats, advance } = setup(t, { acceleration: 0.5, minIntervalMs: 30 });
+  repeater.feed(press('dpad_left'));
+  advance(620);
+  assert.deepEqual(repeats.map((r) => Number(r.split(' ')[2])), [400, 500, 550, 580, 610]);
+});
+
+test('buttons that do not repeat, repeated presses and other controllers are left alone', (t) => {
+  const { repeater, repeats, advance } = setup(t);
+  repeater.feed(press('cross'));
+  repeater.feed(press('dpad_down', true, 'left'));
+  advance(200);
+  // Another press while held does not restart the delay
+  repeater.feed(press('dpad_down', true, 'left'));
+  repeater.feed(press('dpad_down', true, 'right'));
+  advance(210);
+  assert.deepEqual(repeats, ['left dpad_down 400']);
+
+  repeater.stop('left');
+  advance(200);
+  assert.deepEqual(repeats, ['left dpad_down 400', 'right dpad_down 600']);
+  repeater.stop();
+  advance(1000);
+  assert.equal(repeats.length, 2);
+});
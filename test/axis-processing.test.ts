@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AxisProcessor, StickTracker, processStick, processTrigger, resolveAxisSettings } from '../src/axis-processing';
+import { AxisSettings, PSNavAxis, PSNavAxisEvent } from '../src/types';
+
+const settings = (axes: AxisSettings) => resolveAxisSettings(axes).settings;
+
+function axisEvent(axis: PSNavAxis, value: number, controllerId = 'test'): PSNavAxisEvent {
+  return { kind: 'axis', controllerId, axis, value, timestamp: 0, dispatchedAt: 0 };
+}
+
+test('invalid settings fall back to the defaults with a warning each', () => {
+  const { settings: resolved, warnings } = resolveAxisSettings({
+    deadzone: 'hex' as never,
+    deadzoneSize: 1,
+    curve: 'lut',
+    exponent: 0,
+    lut: [0.5],
+  });
+  assert.deepEqual(resolved, { deadzone: 'axial', deadzoneSize: 10 / 127, curve: 'linear', exponent: 2, lut: [] });
+  assert.deepEqual(warnings, [
+    'unknown deadzone "hex"',
+    'deadzoneSize must be a number in [0, 1)',
+    'exponent must be a positive number',
+    'curve "lut" needs a lut of at least 2 numbers in [0, 1] — using linear',
+  ]);
+});
+
+test('the default axial deadzone matches the reader\'s 118..138 band', () => {
+  const axial = settings({});
+  assert.deepEqual(processStick(axial, 138, 118), [128, 128]);
+  assert.deepEqual(processStick(axial, 139, 117), [139, 117]);
+  assert.deepEqual(processStick(axial, 255, 0), [255, 1]);
+});
+
+test('a radial deadzone looks at the stick\'s distance from center, not each axis', () => {
+  // Each axis is inside 0.5 of full deflection, the diagonal is not
+  assert.deepEqual(processStick(settings({ deadzone: 'axial', deadzoneSize: 0.5 }), 180, 180), [128, 128]);
+  assert.deepEqual(processStick(settings({ deadzone: 'radial', deadzoneSize: 0.5 }), 180, 180), [180, 180]);
+  assert.deepEqual(processStick(settings({ deadzone: 'radial', deadzoneSize: 0.5 }), 180, 128), [128, 128]);
+});
+
+test('scaled-radial starts the output from center at the deadzone edge', () => {
+  const scaled = settings({ deadzone: 'scaled-radial', deadzoneSize: 0.5 });
+  assert.deepEqual(processStick(scaled, 191, 128), [128, 128]);
+  assert.deepEqual(processStick(scaled, 200, 128), [145, 128]);
+  assert.deepEqual(processStick(scaled, 255, 128), [255, 128]);
+});
+
+test('radial curves scale the magnitude, so diagonals keep their direction', () => {
+  const curved = settings({ deadzone: 'radial', curve: 'exponential', exponent: 3 });
+  const [x, y] = processStick(curved, 255, 255);
+  assert.equal(x, y);
+  assert.equal(x, 218);
+  // 42:21 from center in, 6:3 out
+  assert.deepEqual(processStick(curved, 170, 149), [134, 131]);
+});
+
+test('L2 gets a threshold deadzone and the same curves', () => {
+  assert.equal(processTrigger(settings({}), 10), 0);
+  assert.equal(processTrigger(settings({ deadzone: 'none' }), 10), 10);
+  assert.equal(processTrigger(settings({ deadzone: 'none', curve: 'exponential' }), 51), 10);
+  const lut = settings({ deadzone: 'none', curve: 'lut', lut: [0, 0.2, 1] });
+  assert.equal(processTrigger(lut, 51), 20);
+  assert.equal(processTrigger(lut, 204), 173);
+  const scaled = settings({ deadzone: 'scaled-radial', deadzoneSize: 0.2 });
+  assert.equal(processTrigger(scaled, 51), 0);
+  assert.equal(processTrigger(scaled, 102), 64);
+  assert.equal(processTrigger(scaled, 255), 255);
+});
+
+test('the processor sends only outputs that changed, per controller', () => {
+  const processor = new AxisProcessor(settings({ deadzone: 'radial', deadzoneSize: 0.5 }));
+  assert.deepEqual(processor.process(axisEvent('stick_x', 180)), []);
+
+  // The second axis pushes the stick out of the deadzone: both outputs move
+  const moved = processor.process(axisEvent('stick_y', 180));
+  assert.deepEqual(moved.map((e) => [e.axis, e.value]), [['stick_x', 180], ['stick_y', 180]]);
+
+  assert.deepEqual(processor.process(axisEvent('l2_analog', 0)), []);
+  assert.deepEqual(processor.process(axisEvent('stick_x', 180, 'other')), []);
+  assert.deepEqual(processor.process(axisEvent('stick_y', 128)).map((e) => [e.axis, e.value]), [['stick_x', 128], ['stick_y', 128]]);
+});
+
+// ─── nav:stick ──────────────────────────────────────────────────────────────
+
+test('the stick vector is normalised, with +y down unless asked otherwise', () => {
+  const down = new StickTracker('down');
+  assert.deepEqual(down.update(axisEvent('stick_x', 128)), {
+    kind: 'stick', controllerId: 'test', x: 0, y: 0, angle: 0, magnitude: 0, l2: 0, timestamp: 0, dispatchedAt: 0,
+  });
+  const pulled = down.update(axisEvent('stick_y', 255));
+  assert.equal(pulled.y, 1);
+  assert.equal(pulled.angle, Math.PI / 2);
+
+  const up = new StickTracker('up');
+  const pushed = up.update(axisEvent('stick_y', 1));
+  assert.equal(pushed.y, 1);
+  assert.equal(pushed.magnitude, 1);
+});
+
+test('the stick vector clamps its magnitude and carries L2 and synthetic', () => {
+  const tracker = new StickTracker('down');
+  tracker.update(axisEvent('stick_x', 255));
+  tracker.update(axisEvent('l2_analog', 51));
+  const corner = tracker.update({ ...axisEvent('stick_y', 255), synthetic: true });
+  assert.equal(corner.magnitude, 1);
+  assert.equal(corner.angle, Math.PI / 4);
+  assert.equal(corner.l2, 0.2);
+  assert.equal(corner.synthetic, true);
+  // Every controller has its own vector
+  assert.equal(tracker.update(axisEvent('stick_x', 128, 'other')).magnitude, 0);
+});
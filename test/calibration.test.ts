@@ -0,0 +1,162 @@
+import { test, TestContext } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CalibrationError,
+  CalibrationSession,
+  CalibrationSessionOptions,
+  CalibrationStore,
+  applyCalibration,
+  parseCalibration,
+} from '../src/calibration';
+import { CalibrationProfile, CalibrationProgress } from '../src/types';
+import { quiet } from './helpers';
+
+test('a stick calibration maps each half of the range onto its own side of 128', () => {
+  const cal = { min: 20, max: 220, center: 100 };
+  assert.equal(applyCalibration('stick_x', cal, 20), 0);
+  assert.equal(applyCalibration('stick_x', cal, 60), 64);
+  assert.equal(applyCalibration('stick_x', cal, 100), 128);
+  assert.equal(applyCalibration('stick_x', cal, 220), 255);
+  // Drift past the recorded range is clamped
+  assert.equal(applyCalibration('stick_x', cal, -5), 0);
+  assert.equal(applyCalibration('stick_x', cal, 250), 255);
+});
+
+test('an L2 calibration maps rest..max onto 0..255', () => {
+  const cal = { min: 10, max: 210, center: 10 };
+  assert.equal(applyCalibration('l2_analog', cal, 0), 0);
+  assert.equal(applyCalibration('l2_analog', cal, 110), 128);
+  assert.equal(applyCalibration('l2_analog', cal, 210), 255);
+});
+
+test('calibrations are saved per controller and read back', (t) => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-calibration-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const profile: CalibrationProfile = {
+    controllerId: 'aa:bb:cc:dd:ee:ff',
+    inputMode: 'usb',
+    axes: { stick_x: { min: 3, max: 250, center: 126 } },
+    createdAt: 1707840000000,
+  };
+
+  new CalibrationStore(dir).save(profile);
+  assert.deepEqual(fs.readdirSync(dir), ['aa_bb_cc_dd_ee_ff.json']);
+
+  const store = new CalibrationStore(dir);
+  assert.deepEqual(store.get('aa:bb:cc:dd:ee:ff'), profile);
+  assert.equal(store.get('11:22:33:44:55:66'), null);
+});
+
+test('parseCalibration reports every problem of a hand-edited file', () => {
+  assert.throws(
+    () => parseCalibration({
+      controllerId: '',
+      inputMode: 'serial',
+      axes: { stick_x: { min: 0, max: 255, center: 255 }, stick_y: { min: 0 }, l2_analog: { min: 0, max: 255, center: 0 }, stick_z: {} },
+    }, 'test.json'),
+    (err: CalibrationError) => {
+      assert.ok(err instanceof CalibrationError);
+      assert.deepEqual(err.problems, [
+        '"controllerId" must be a non-empty string',
+        '"inputMode" must be one of unknown, usb, bluetooth',
+        '"createdAt" must be a number',
+        'axes.stick_x: expected min < center < max, got 0 / 255 / 255',
+        'axes.stick_y: min, max and center must be numbers',
+        'axes: unknown axis "stick_z" (expected one of stick_x, stick_y, l2_analog)',
+      ]);
+      return true;
+    },
+  );
+});
+
+test('an invalid saved calibration is ignored', (t) => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-calibration-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  fs.writeFileSync(path.join(dir, 'test.json'), JSON.stringify({ controllerId: 'test', inputMode: 'usb', axes: { stick_x: { min: 5, max: 5, center: 5 } }, createdAt: 0 }));
+  assert.equal(new CalibrationStore(dir).get('test'), null);
+});
+
+// ─── Guided flow ────────────────────────────────────────────────────────────
+
+function session(
+  t: TestContext,
+  nominal: CalibrationSessionOptions['nominal'],
+  initial: CalibrationSessionOptions['initial'] = {},
+) {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1707840000000 });
+  const s = new CalibrationSession({ controllerId: 'test', inputMode: 'usb', nominal, initial });
+  const progress: CalibrationProgress[] = [];
+  const result: { done?: CalibrationProfile; failed?: string } = {};
+  s.on('progress', (p) => progress.push(p));
+  s.on('done', (profile) => (result.done = profile));
+  s.on('failed', (reason) => (result.failed = reason));
+  /** Advance the mocked clock in progress-interval steps */
+  const advance = (ms: number) => {
+    for (let i = 0; i < ms; i += 250) t.mock.timers.tick(250);
+  };
+  s.start();
+  return { s, progress, result, advance };
+}
+
+test('the flow records the rest position, then the extremes', (t) => {
+  const { s, progress, result, advance } = session(
+    t,
+    { stick_x: [0, 255], stick_y: [0, 255], l2_analog: [0, 255] },
+    { stick_y: 127, l2_analog: 0 },
+  );
+  assert.deepEqual(progress[0], {
+    controllerId: 'test', step: 'center', message: progress[0].message, progress: 0,
+  });
+
+  for (const raw of [130, 128, 129]) s.feed('stick_x', raw);
+  advance(2000);
+  assert.equal(progress.at(-1)!.step, 'range');
+
+  for (const raw of [10, 245, 128]) s.feed('stick_x', raw);
+  for (const raw of [5, 250]) s.feed('stick_y', raw);
+  s.feed('l2_analog', 250);
+  advance(7750);
+  assert.equal(result.done, undefined);
+  advance(250);
+
+  assert.equal(result.failed, undefined);
+  assert.deepEqual(result.done, {
+    controllerId: 'test',
+    inputMode: 'usb',
+    axes: {
+      // Median of the samples for stick_x; stick_y never moved during the first step
+      stick_x: { min: 10, max: 245, center: 129 },
+      stick_y: { min: 5, max: 250, center: 127 },
+      l2_analog: { min: 0, max: 250, center: 0 },
+    },
+    createdAt: 1707840010000,
+  });
+  assert.equal(progress.at(-1)!.progress, 1 - 250 / 10000);
+});
+
+test('the flow fails for axes that were barely moved or never seen', (t) => {
+  const { s, result, advance } = session(t, { stick_y: [0, 255], l2_analog: [0, 255] }, { stick_y: 128 });
+  advance(2000);
+  for (const raw of [100, 160]) s.feed('stick_y', raw);
+  advance(8000);
+
+  assert.equal(result.done, undefined);
+  assert.equal(result.failed, 'stick_y: only 24% of the range was covered; l2_analog: no movement recorded');
+});
+
+test('a cancelled flow fails once and ignores later input', (t) => {
+  const { s, progress, result, advance } = session(t, { stick_x: [0, 255] });
+  s.cancel('controller disconnected');
+  s.cancel();
+  s.feed('stick_x', 0);
+  advance(10000);
+
+  assert.equal(result.failed, 'controller disconnected');
+  assert.equal(result.done, undefined);
+  assert.equal(progress.length, 1);
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Capture, CaptureRecorder, loadCapture } from '../src/capture';
+import { ReplaySource } from '../src/replay-source';
+import { kernelTime } from '../src/input-source';
+import { EV_KEY, EV_SYN, RawInputEvent, SYN_REPORT } from '../src/types';
+import { MOCK_DEVICE_INFO, MOCK_INPUT_MODE } from '../src/mock-source';
+import { quiet } from './helpers';
+
+const HEADER = {
+  kind: 'psnav-capture',
+  version: 1,
+  controllerId: 'aa:bb:cc:dd:ee:ff',
+  device: '/dev/input/event5',
+  deviceInfo: null,
+  inputMode: null,
+  recordedAt: 0,
+};
+
+function tempDir(t: { after(fn: () => void): void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-capture-'));
+  t.after(() => fs.rmSync(dir, { recursive: true }));
+  return dir;
+}
+
+function writeCapture(dir: string, lines: unknown[]): string {
+  const file = path.join(dir, 'capture.ndjson');
+  fs.writeFileSync(file, lines.map((line) => (typeof line === 'string' ? line : JSON.stringify(line))).join('\n') + '\n');
+  return file;
+}
+
+function ev(ms: number, type: number, code: number, value: number): RawInputEvent {
+  return { timeSec: Math.floor(ms / 1000), timeUsec: (ms % 1000) * 1000, type, code, value };
+}
+
+// ─── loadCapture ────────────────────────────────────────────────────────────
+
+test('loadCapture accepts the device identity and input mode a source declared', (t) => {
+  const header = { ...HEADER, deviceInfo: MOCK_DEVICE_INFO, inputMode: MOCK_INPUT_MODE };
+  assert.deepEqual(loadCapture(writeCapture(tempDir(t), [header])).header, header);
+});
+
+test('loadCapture reads the header and every event, skipping blank lines', (t) => {
+  const dir = tempDir(t);
+  const events = [ev(1000, EV_KEY, 304, 1), ev(1000, EV_SYN, SYN_REPORT, 0)];
+  const capture = loadCapture(writeCapture(dir, [HEADER, events[0], '', events[1]]));
+  assert.deepEqual(capture.header, HEADER);
+  assert.deepEqual(capture.events, events);
+});
+
+test('loadCapture names the file and line of bad input', (t) => {
+  const dir = tempDir(t);
+  const cases: [unknown[], RegExp][] = [
+    [[{ ...HEADER, kind: 'other' }], /:1: not a capture file/],
+    [[{ ...HEADER, version: 2 }], /:1: unsupported capture version 2/],
+    [[{ ...HEADER, controllerId: '' }], /:1: header has no controllerId/],
+    [[{ ...HEADER, deviceInfo: { name: 'Nav' } }], /:1: header deviceInfo must be null or have string fields/],
+    [[{ ...HEADER, inputMode: { mode: 'serial', reason: 'x' } }], /:1: header inputMode must be null or \{ mode, reason \}/],
+    [[{ ...HEADER, inputMode: undefined }], /:1: header inputMode must be null/],
+    [[HEADER, ev(0, EV_KEY, 304, 1), '{oops'], /:3: not JSON/],
+    [[HEADER, { timeSec: 0, timeUsec: 0, type: 1, code: 304 }], /:2: expected a raw event/],
+  ];
+  for (const [lines, message] of cases) {
+    const file = writeCapture(dir, lines);
+    assert.throws(() => loadCapture(file), (err: Error) => err.message.startsWith(file) && message.test(err.message));
+  }
+});
+
+test('CaptureRecorder throws at once if the file exists', (t) => {
+  const file = writeCapture(tempDir(t), [HEADER]);
+  assert.throws(() => new CaptureRecorder(file, HEADER as never), { code: 'EEXIST' });
+});
+
+// ─── ReplaySource ───────────────────────────────────────────────────────────
+
+function replay(capture: Capture, speed?: number): { source: ReplaySource; emitted: [number, RawInputEvent][]; closed: string[] } {
+  const source = new ReplaySource('capture.ndjson', capture, { speed });
+  const emitted: [number, RawInputEvent][] = [];
+  const closed: string[] = [];
+  source.on('raw', (raw) => emitted.push([Date.now(), raw]));
+  source.on('close', (reason) => closed.push(reason));
+  return { source, emitted, closed };
+}
+
+const CAPTURE: Capture = {
+  header: HEADER as Capture['header'],
+  events: [
+    ev(5000, EV_KEY, 304, 1), ev(5000, EV_SYN, SYN_REPORT, 0),
+    ev(5100, EV_KEY, 304, 0), ev(5100, EV_SYN, SYN_REPORT, 0),
+    ev(5400, EV_KEY, 305, 1), ev(5400, EV_SYN, SYN_REPORT, 0),
+  ],
+};
+
+test('ReplaySource keeps the recorded spacing and stamps replay time', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const { source, emitted, closed } = replay(CAPTURE);
+  source.start();
+  assert.equal(emitted.length, 2);
+
+  t.mock.timers.tick(99);
+  assert.equal(emitted.length, 2);
+  t.mock.timers.tick(1);
+  assert.equal(emitted.length, 4);
+  t.mock.timers.tick(300);
+  assert.equal(emitted.length, 6);
+
+  assert.deepEqual(emitted.map(([at]) => at - 1_000_000), [0, 0, 100, 100, 400, 400]);
+  assert.deepEqual(emitted.map(([at, raw]) => kernelTime(raw) - at), [0, 0, 0, 0, 0, 0]);
+  assert.deepEqual(
+    emitted.map(([, { type, code, value }]) => [type, code, value]),
+    CAPTURE.events.map(({ type, code, value }) => [type, code, value]),
+  );
+  assert.deepEqual(closed, ['end of capture']);
+});
+
+test('ReplaySource divides the spacing by the speed', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const { source, emitted, closed } = replay(CAPTURE, 4);
+  source.start();
+  t.mock.timers.tick(25);
+  t.mock.timers.tick(75);
+  assert.deepEqual(emitted.map(([at]) => at - 1_000_000), [0, 0, 25, 25, 100, 100]);
+  assert.deepEqual(closed, ['end of capture']);
+});
+
+test('ReplaySource closes an empty capture at once and stops on request', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const empty = replay({ header: CAPTURE.header, events: [] });
+  empty.source.start();
+  assert.deepEqual(empty.closed, ['empty capture']);
+
+  const { source, emitted, closed } = replay(CAPTURE);
+  source.start();
+  source.stop();
+  t.mock.timers.tick(1000);
+  assert.equal(emitted.length, 2);
+  assert.deepEqual(closed, ['stopped']);
+});
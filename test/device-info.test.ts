@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { detectInputMode, hasAbsCapability, readDeviceInfo } from '../src/device-info';
+import { DeviceInfo } from '../src/types';
+
+const UNKNOWN: DeviceInfo = {
+  name: '', vendor: '', product: '', bustype: '', driver: '', uniq: '', phys: '', absCapabilities: '',
+};
+
+test('the HID driver decides the mode before the bus type', () => {
+  assert.deepEqual(detectInputMode({ ...UNKNOWN, driver: 'sony', bustype: '0005' }), { mode: 'usb', reason: 'sysfs: hid-sony driver' });
+  assert.equal(detectInputMode({ ...UNKNOWN, driver: 'hid-generic', bustype: '0003' }).mode, 'bluetooth');
+  assert.equal(detectInputMode({ ...UNKNOWN, bustype: '0003' }).mode, 'usb');
+  assert.equal(detectInputMode({ ...UNKNOWN, bustype: '0005' }).mode, 'bluetooth');
+});
+
+test('D-pad hat axes in the ABS capabilities mean hid-sony', () => {
+  // ABS_X, ABS_Y, ABS_Z and ABS_HAT0X / ABS_HAT0Y (0x10, 0x11)
+  const info = { ...UNKNOWN, absCapabilities: '30007' };
+  assert.ok(hasAbsCapability(info, 0x00));
+  assert.ok(hasAbsCapability(info, 0x10));
+  assert.ok(!hasAbsCapability(info, 0x03));
+  assert.deepEqual(detectInputMode(info), { mode: 'usb', reason: 'sysfs: D-pad hat axes (hid-sony)' });
+  assert.equal(detectInputMode({ ...UNKNOWN, absCapabilities: '7' }).mode, 'unknown');
+});
+
+test('multi-word capability masks list the most significant word first', () => {
+  // ABS_MT_SLOT (0x2f) lives in the upper half of a 32-bit-word mask
+  const info = { ...UNKNOWN, absCapabilities: '8000 00000001' };
+  assert.ok(hasAbsCapability(info, 0x00));
+  assert.ok(hasAbsCapability(info, 0x2f));
+  assert.ok(!hasAbsCapability(info, 0x10));
+  assert.ok(!hasAbsCapability(info, 0x60));
+});
+
+test('a path without a sysfs node reads as empty fields and an unknown mode', () => {
+  const info = readDeviceInfo('/tmp/not-an-input-device');
+  assert.deepEqual(info, UNKNOWN);
+  assert.equal(detectInputMode(info).mode, 'unknown');
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EvdevReader, EvdevReaderOptions } from '../src/evdev-reader';
+import { EV_KEY, RawInputEvent } from '../src/types';
+import { DeviceFifo, inputEvent, quiet, wait, waitFor } from './helpers';
+
+/** A reader on a FIFO; stopped and removed after the test */
+function setup(t: { after(fn: () => void): void }, opts: Partial<EvdevReaderOptions> = {}) {
+  const fifo = new DeviceFifo();
+  const reader = new EvdevReader({ devicePath: fifo.path, ...opts });
+  const events: RawInputEvent[] = [];
+  reader.on('raw', (raw) => events.push(raw));
+  reader.start();
+  t.after(() => {
+    reader.stop();
+    fifo.close();
+  });
+  return { fifo, reader, events };
+}
+
+test('the controllerId defaults to the device path', (t) => {
+  quiet(t);
+  const { fifo, reader } = setup(t);
+  assert.equal(reader.controllerId, fifo.path);
+});
+
+test('raw events carry the kernel time', async (t) => {
+  quiet(t);
+  const { fifo, events } = setup(t);
+  fifo.report([[EV_KEY, 0x131, 1]], 1707840000123);
+  await waitFor(() => events.length === 2);
+  assert.deepEqual(events[0], { timeSec: 1707840000, timeUsec: 123000, type: EV_KEY, code: 0x131, value: 1 });
+});
+
+// ─── Partial reads ──────────────────────────────────────────────────────────
+//
+// Unlike evdev, a FIFO may hand over part of an input_event — the rest has to
+// be carried over to the next read.
+
+/** Write `chunks` with pauses in between; resolve with the raw events read */
+async function readChunks(t: { after(fn: () => void): void }, chunks: Buffer[], opts: Partial<EvdevReaderOptions> = {}): Promise<RawInputEvent[]> {
+  const { fifo, events } = setup(t, opts);
+  for (const chunk of chunks) {
+    fifo.write(chunk);
+    await wait(50);
+  }
+  return events;
+}
+
+const EXPECTED = [
+  { timeSec: 1707840000, timeUsec: 1, type: 3, code: 0, value: 200 },
+  { timeSec: 1707840000, timeUsec: 2, type: 3, code: 1, value: -30 },
+  { timeSec: 1707840000, timeUsec: 3, type: 0, code: 0, value: 0 },
+];
+
+function bytes(is32bit = false): Buffer {
+  return Buffer.concat(EXPECTED.map((e) => inputEvent(e.timeSec * 1000 + e.timeUsec / 1000, e.type, e.code, e.value, is32bit)));
+}
+
+test('an input_event split across reads is carried over (64-bit)', async (t) => {
+  quiet(t);
+  const all = bytes();
+  // Split inside the second struct, then inside the third
+  const events = await readChunks(t, [all.subarray(0, 30), all.subarray(30, 60), all.subarray(60)]);
+  assert.deepEqual(events, EXPECTED);
+});
+
+test('an input_event split across reads is carried over (32-bit)', async (t) => {
+  quiet(t);
+  const all = bytes(true);
+  const events = await readChunks(t, [all.subarray(0, 7), all.subarray(7, 25), all.subarray(25)], { is32bit: true });
+  assert.deepEqual(events, EXPECTED);
+});
+
+test('a batch larger than the read buffer is read over several reads', async (t) => {
+  quiet(t);
+  const all = bytes();
+  const events = await readChunks(t, [all.subarray(0, 50), all.subarray(50)], { readBatchSize: 1 });
+  assert.deepEqual(events, EXPECTED);
+});
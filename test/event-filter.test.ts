@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AxisThrottle, filterFrame, resolveNavFilter } from '../src/event-filter';
+import { EV_KEY, PSNavAxis, PSNavAxisEvent, PSNavFrameEvent } from '../src/types';
+
+// ─── resolveNavFilter ───────────────────────────────────────────────────────
+
+test('an empty filter lets everything through', () => {
+  const { filter, warnings } = resolveNavFilter({});
+  assert.deepEqual(warnings, []);
+  assert.equal(filter.buttons, null);
+  assert.equal(filter.axes, null);
+  assert.equal(filter.raw, null);
+  assert.equal(filter.gestures, null);
+  assert.deepEqual(filter.axisIntervalMs, {});
+});
+
+test('unknown entries are dropped with a warning', () => {
+  const { filter, warnings } = resolveNavFilter({
+    buttons: ['cross', 'triangle', 'stick_up'],
+    axes: ['stick_x', 'stick_z'],
+    raw: [EV_KEY, 'EV_ABS'],
+    gestures: ['nope'],
+  } as never);
+  assert.deepEqual([...filter.buttons!], ['cross', 'stick_up']);
+  assert.deepEqual([...filter.axes!], ['stick_x']);
+  assert.deepEqual([...filter.raw!], [EV_KEY]);
+  assert.deepEqual([...filter.gestures!], []);
+  assert.equal(warnings.length, 4);
+});
+
+test('a non-list is not filtered', () => {
+  const { filter, warnings } = resolveNavFilter({ buttons: 'cross' } as never);
+  assert.equal(filter.buttons, null);
+  assert.match(warnings[0], /buttons must be a list/);
+});
+
+test('axisRateHz caps every axis or only the given ones', () => {
+  assert.deepEqual(resolveNavFilter({ axisRateHz: 20 }).filter.axisIntervalMs, { stick_x: 50, stick_y: 50, l2_analog: 50 });
+
+  const { filter, warnings } = resolveNavFilter({ axisRateHz: { stick_x: 10, stick_y: 0, stick_z: 5 } as never });
+  assert.deepEqual(filter.axisIntervalMs, { stick_x: 100 });
+  assert.equal(warnings.length, 2);
+
+  assert.equal(resolveNavFilter({ axisRateHz: -1 }).warnings.length, 1);
+});
+
+// ─── filterFrame ────────────────────────────────────────────────────────────
+
+function frame(): PSNavFrameEvent {
+  return {
+    kind: 'frame',
+    controllerId: 'test',
+    buttons: {} as PSNavFrameEvent['buttons'],
+    axes: {} as PSNavFrameEvent['axes'],
+    changes: [
+      { kind: 'button', controllerId: 'test', button: 'cross', pressed: true, timestamp: 0, dispatchedAt: 0 },
+      { kind: 'axis', controllerId: 'test', axis: 'stick_x', value: 200, timestamp: 0, dispatchedAt: 0 },
+    ],
+    timestamp: 0,
+    dispatchedAt: 0,
+  };
+}
+
+test('filterFrame keeps only the changes the filter lets through', () => {
+  const all = frame();
+  assert.equal(filterFrame(resolveNavFilter({}).filter, all), all);
+
+  const buttonsOnly = filterFrame(resolveNavFilter({ axes: [] }).filter, all)!;
+  assert.deepEqual(buttonsOnly.changes, [all.changes[0]]);
+  assert.equal(all.changes.length, 2);
+
+  assert.equal(filterFrame(resolveNavFilter({ buttons: ['circle'], axes: ['l2_analog'] }).filter, all), null);
+});
+
+// ─── AxisThrottle ───────────────────────────────────────────────────────────
+
+function axis(name: PSNavAxis, value: number, controllerId = 'test'): PSNavAxisEvent {
+  return { kind: 'axis', controllerId, axis: name, value, timestamp: 0, dispatchedAt: 0 };
+}
+
+test('a capped axis sends at once, then only the latest value per interval', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 10_000 });
+  const sent: number[] = [];
+  const throttle = new AxisThrottle({ stick_x: 100 }, (evt) => sent.push(evt.value));
+
+  throttle.push(axis('stick_x', 1));
+  throttle.push(axis('stick_x', 2));
+  throttle.push(axis('stick_x', 3));
+  assert.deepEqual(sent, [1]);
+
+  t.mock.timers.tick(99);
+  assert.deepEqual(sent, [1]);
+  t.mock.timers.tick(1);
+  assert.deepEqual(sent, [1, 3]);
+
+  // Nothing pending: the next change waits for the rest of the interval
+  t.mock.timers.tick(30);
+  throttle.push(axis('stick_x', 4));
+  assert.deepEqual(sent, [1, 3]);
+  t.mock.timers.tick(70);
+  assert.deepEqual(sent, [1, 3, 4]);
+
+  // After a quiet interval a change goes out at once again
+  t.mock.timers.tick(100);
+  throttle.push(axis('stick_x', 5));
+  assert.deepEqual(sent, [1, 3, 4, 5]);
+});
+
+test('uncapped axes and other controllers are not held back', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 10_000 });
+  const sent: string[] = [];
+  const throttle = new AxisThrottle({ stick_x: 100 }, (evt) => sent.push(`${evt.controllerId}:${evt.axis}=${evt.value}`));
+
+  throttle.push(axis('stick_x', 1));
+  throttle.push(axis('stick_y', 1));
+  throttle.push(axis('stick_y', 2));
+  throttle.push(axis('stick_x', 1, 'other'));
+  assert.deepEqual(sent, ['test:stick_x=1', 'test:stick_y=1', 'test:stick_y=2', 'other:stick_x=1']);
+});
+
+test('stop() drops pending values, for one controller or all', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 10_000 });
+  const sent: string[] = [];
+  const throttle = new AxisThrottle({ stick_x: 100 }, (evt) => sent.push(`${evt.controllerId}=${evt.value}`));
+
+  for (const id of ['a', 'b']) {
+    throttle.push(axis('stick_x', 1, id));
+    throttle.push(axis('stick_x', 2, id));
+  }
+  throttle.stop('a');
+  t.mock.timers.tick(100);
+  assert.deepEqual(sent, ['a=1', 'b=1', 'b=2']);
+
+  throttle.push(axis('stick_x', 3, 'b'));
+  throttle.stop();
+  t.mock.timers.tick(100);
+  assert.deepEqual(sent, ['a=1', 'b=1', 'b=2']);
+});
@@ -0,0 +1,104 @@
+import { test, TestContext } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GestureEngine, flickDirection } from '../src/gestures';
+import { PSNavAxis, PSNavButton, PSNavGestureEvent } from '../src/types';
+
+/** An engine on mocked timers, fed events with explicit timestamps */
+function setup(t: TestContext) {
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+  const engine = new GestureEngine('test');
+  const gestures: PSNavGestureEvent[] = [];
+  engine.on('gesture', (g) => gestures.push(g));
+  const button = (button: PSNavButton, pressed: boolean, timestamp: number, synthetic = false) =>
+    engine.feed({ kind: 'button', controllerId: 'test', button, pressed, timestamp, dispatchedAt: timestamp, ...(synthetic && { synthetic }) });
+  const axis = (axis: PSNavAxis, value: number, timestamp: number) =>
+    engine.feed({ kind: 'axis', controllerId: 'test', axis, value, timestamp, dispatchedAt: timestamp });
+  const summary = () => gestures.map((g) => `${g.gesture} ${g.direction ?? g.buttons.join('+')} ${g.duration}`);
+  return { engine, gestures, button, axis, summary };
+}
+
+test('a short press is a tap and a quick second tap is a double-tap', (t) => {
+  const { button, summary } = setup(t);
+  button('cross', true, 0);
+  button('cross', false, 80);
+  button('cross', true, 300);
+  button('cross', false, 350);
+  // Too late after the last tap
+  button('cross', true, 700);
+  button('cross', false, 720);
+  // Another button's tap does not pair with cross
+  button('circle', true, 800);
+  button('circle', false, 820);
+
+  assert.deepEqual(summary(), ['tap cross 80', 'double-tap cross 50', 'tap cross 20', 'tap circle 20']);
+});
+
+test('a long press fires while held and its release is not a tap', (t) => {
+  const { button, summary } = setup(t);
+  button('l1', true, 0);
+  t.mock.timers.tick(499);
+  assert.deepEqual(summary(), []);
+  t.mock.timers.tick(1);
+  assert.deepEqual(summary(), ['long-press l1 500']);
+
+  button('l1', false, 900);
+  button('l1', true, 1000);
+  button('l1', false, 1050);
+  assert.deepEqual(summary(), ['long-press l1 500', 'tap l1 50']);
+});
+
+test('a button pressed while another is held is a chord, and consumes both', (t) => {
+  const { button, summary } = setup(t);
+  button('l1', true, 0);
+  button('cross', true, 100);
+  t.mock.timers.tick(1000);
+  button('cross', false, 1100);
+  button('l1', false, 1200);
+
+  assert.deepEqual(summary(), ['chord cross+l1 0']);
+});
+
+test('a synthetic release ends a press without a gesture', (t) => {
+  const { engine, button, summary } = setup(t);
+  button('circle', true, 0);
+  button('circle', false, 50, true);
+  t.mock.timers.tick(1000);
+  assert.deepEqual(summary(), []);
+
+  // reset() drops held buttons and their timers too
+  button('circle', true, 2000);
+  engine.reset();
+  t.mock.timers.tick(1000);
+  button('circle', false, 3000);
+  assert.deepEqual(summary(), []);
+});
+
+test('a flick must reach the distance in time, once per trip from center', (t) => {
+  const { axis, gestures, summary } = setup(t);
+  axis('stick_x', 200, 0);
+  axis('stick_x', 255, 100);
+  // Still out: no second flick
+  axis('stick_y', 255, 120);
+  axis('stick_x', 128, 200);
+  axis('stick_y', 128, 210);
+
+  // Too slow
+  axis('stick_y', 180, 1000);
+  axis('stick_y', 1, 1200);
+  axis('stick_y', 128, 1300);
+
+  axis('stick_y', 1, 2000);
+
+  assert.deepEqual(summary(), ['flick right 100', 'flick up 0']);
+  assert.equal(gestures[0].angle, 0);
+});
+
+test('flick directions snap to 8 or 4 sectors', () => {
+  assert.equal(flickDirection(Math.PI / 4, 8), 'down-right');
+  assert.equal(flickDirection(Math.PI / 4 - 0.1, 4), 'right');
+  assert.equal(flickDirection(Math.PI / 4 + 0.1, 4), 'down');
+  assert.equal(flickDirection(-Math.PI / 2, 8), 'up');
+  assert.equal(flickDirection(Math.PI, 4), 'left');
+  assert.equal(flickDirection(-Math.PI, 8), 'left');
+  assert.equal(flickDirection(-3 * Math.PI / 4, 8), 'up-left');
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { ChildProcess, execFileSync, spawn } from 'child_process';
+import { EV_SYN } from '../src/types';
+import type { RawTriple } from '../src/mock-source';
+
+// ─── Test helpers ───────────────────────────────────────────────────────────
+
+/** Silence the modules' [tag] console output for the rest of the test */
+export function quiet(t: { mock: { method: (obj: object, name: string, impl: () => void) => unknown } }): void {
+  for (const name of ['log', 'warn', 'error']) t.mock.method(console, name, () => {});
+}
+
+export const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Resolve once `check` returns true; reject after `timeoutMs` */
+export async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const until = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > until) throw new Error(`condition not met within ${timeoutMs}ms`);
+    await wait(10);
+  }
+}
+
+/** One input_event struct; 64-bit layout unless `is32bit` */
+export function inputEvent(ms: number, type: number, code: number, value: number, is32bit = false): Buffer {
+  const timeSec = Math.floor(ms / 1000);
+  const timeUsec = Math.round((ms - timeSec * 1000) * 1000);
+  const buf = Buffer.alloc(is32bit ? 16 : 24);
+  if (is32bit) {
+    buf.writeUInt32LE(timeSec, 0);
+    buf.writeUInt32LE(timeUsec, 4);
+  } else {
+    buf.writeBigUInt64LE(BigInt(timeSec), 0);
+    buf.writeBigUInt64LE(BigInt(timeUsec), 8);
+  }
+  const at = is32bit ? 8 : 16;
+  buf.writeUInt16LE(type, at);
+  buf.writeUInt16LE(code, at + 2);
+  buf.writeInt32LE(value, at + 4);
+  return buf;
+}
+
+/**
+ * A FIFO standing in for an evdev device. It is opened read-write here, so a
+ * reader opening it does not wait for a writer.
+ */
+export class DeviceFifo {
+  public readonly path: string;
+  private readonly dir: string;
+  private fd: number | null;
+
+  constructor() {
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-fifo-'));
+    this.path = path.join(this.dir, 'event0');
+    execFileSync('mkfifo', [this.path]);
+    this.fd = fs.openSync(this.path, fs.constants.O_RDWR);
+  }
+
+  write(bytes: Buffer): void {
+    fs.writeSync(this.fd!, bytes);
+  }
+
+  /** Write events followed by SYN_REPORT, all stamped `ms` */
+  report(events: RawTriple[], ms = Date.now()): void {
+    this.write(Buffer.concat([...events, [EV_SYN, 0, 0] as RawTriple].map(([type, code, value]) => inputEvent(ms, type, code, value))));
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    fs.closeSync(this.fd);
+    this.fd = null;
+    fs.rmSync(this.dir, { recursive: true });
+  }
+}
+
+// ─── Hub ────────────────────────────────────────────────────────────────────
+
+export interface Hub {
+  url: string;
+  /** The hub's only controller: a FIFO it reads as its DEVICE_PATH fallback */
+  fifo: DeviceFifo;
+  controllerId: string;
+  /** Everything the hub logged so far */
+  output(): string;
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/**
+ * Run src/server.ts in a child process with a FIFO as its controller; resolves
+ * once the controller is connected. The hub is stopped after the test.
+ */
+export async function startHub(t: { after(fn: () => Promise<void>): void }, env: Record<string, string> = {}): Promise<Hub> {
+  const fifo = new DeviceFifo();
+  const port = await freePort();
+  // Saved service state goes to a scratch directory, not the checkout
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-hub-'));
+  const child: ChildProcess = spawn(process.execPath, ['--require', 'ts-node/register', 'src/server.ts'], {
+    cwd: path.join(__dirname, '..'),
+    env: {
+      ...process.env,
+      TS_NODE_TRANSPILE_ONLY: '1',
+      PORT: `${port}`,
+      DEVICE_PATH: fifo.path,
+      SERVICE_STATE: path.join(stateDir, 'service-state.json'),
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout!.on('data', (chunk) => (output += chunk));
+  child.stderr!.on('data', (chunk) => (output += chunk));
+  const exited = new Promise((resolve) => child.once('exit', resolve));
+  t.after(async () => {
+    // Not SIGTERM: the read the hub has pending on the FIFO keeps it from exiting
+    child.kill('SIGKILL');
+    await exited;
+    fifo.close();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  const url = `http://127.0.0.1:${port}`;
+  const until = Date.now() + 20_000;
+  let controllerId: string | undefined;
+  while (controllerId === undefined) {
+    if (child.exitCode !== null || Date.now() > until) throw new Error(`hub did not come up with its controller:\n${output}`);
+    await wait(100);
+    controllerId = (await status(url))?.controllers[0]?.controllerId;
+  }
+  return { url, fifo, controllerId, output: () => output };
+}
+
+/** The parts of GET / the tests look at */
+export interface HubStatus {
+  controllers: { controllerId: string }[];
+  [key: string]: unknown;
+}
+
+/** The hub's status endpoint, or null while it is not answering */
+export async function status(url: string): Promise<HubStatus | null> {
+  try {
+    const res = await fetch(`${url}/`);
+    return res.ok ? (await res.json() as HubStatus) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,186 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EvdevReader } from '../src/evdev-reader';
+import { InputMapper, InputMapperOptions } from '../src/input-mapper';
+import { EV_ABS, EV_KEY, EV_SYN, PSNavEvent, PSNavFrameEvent, SYN_DROPPED } from '../src/types';
+import { DEFAULT_STICK_BUTTONS } from '../src/stick-buttons';
+import { DeviceFifo, inputEvent, quiet, wait, waitFor } from './helpers';
+
+/** A mapper over a reader on a FIFO; stopped and removed after the test */
+function setup(t: { after(fn: () => void): void }, opts: InputMapperOptions & { controllerId?: string } = {}) {
+  const fifo = new DeviceFifo();
+  const { controllerId, ...mapperOpts } = opts;
+  const mapper = new InputMapper(new EvdevReader({ devicePath: fifo.path, controllerId }), mapperOpts);
+  const events: PSNavEvent[] = [];
+  const frames: PSNavFrameEvent[] = [];
+  mapper.on('nav', (nav) => events.push(nav));
+  mapper.on('frame', (frame) => frames.push(frame));
+  mapper.start();
+  t.after(() => {
+    mapper.stop();
+    fifo.close();
+  });
+  return { fifo, mapper, events, frames };
+}
+
+test('every mapped event carries the source\'s controllerId', async (t) => {
+  quiet(t);
+  const { fifo, events } = setup(t, { controllerId: 'aa:bb:cc:dd:ee:ff' });
+  fifo.report([[EV_KEY, 0x131, 1], [EV_ABS, 0x00, 200]]);
+  await waitFor(() => events.length === 2);
+  assert.deepEqual(events.map((e) => [e.controllerId, e.kind === 'button' ? e.button : e.axis]), [
+    ['aa:bb:cc:dd:ee:ff', 'circle'],
+    ['aa:bb:cc:dd:ee:ff', 'stick_x'],
+  ]);
+});
+
+test('each SYN_REPORT closes a frame with its changes and the full state', async (t) => {
+  quiet(t);
+  const { fifo, frames } = setup(t, { controllerId: 'test' });
+  fifo.report([[EV_KEY, 0x131, 1], [EV_ABS, 0x00, 200], [EV_ABS, 0x01, 30]]);
+  fifo.report([[EV_KEY, 0x131, 0]]);
+  await waitFor(() => frames.length === 2);
+
+  assert.deepEqual(frames[0].changes.map((c) => (c.kind === 'button' ? c.button : c.axis)), ['circle', 'stick_x', 'stick_y']);
+  assert.equal(frames[0].buttons.circle, true);
+  assert.deepEqual(frames[0].axes, { stick_x: 200, stick_y: 30, l2_analog: 0 });
+
+  assert.equal(frames[1].changes.length, 1);
+  assert.equal(frames[1].buttons.circle, false);
+  assert.deepEqual(frames[1].axes, frames[0].axes);
+});
+
+test('a report without mapped changes sends no frame', async (t) => {
+  quiet(t);
+  const { fifo, frames } = setup(t);
+  // A key the Nav does not have
+  fifo.report([[EV_KEY, 0x2ff, 1]]);
+  fifo.report([[EV_KEY, 0x136, 1]]);
+  await waitFor(() => frames.length === 1);
+  assert.deepEqual(frames[0].changes.map((c) => c.kind === 'button' && c.button), ['l1']);
+});
+
+test('events carry the kernel time and the time they were dispatched', async (t) => {
+  quiet(t);
+  const { fifo, events, frames } = setup(t);
+  const before = Date.now();
+  fifo.report([[EV_KEY, 0x131, 1]], 1707840000123.456);
+  await waitFor(() => frames.length === 1);
+
+  assert.equal(events[0].timestamp, 1707840000123.456);
+  assert.equal(frames[0].timestamp, 1707840000123.456);
+  assert.ok(events[0].dispatchedAt >= before && events[0].dispatchedAt <= Date.now());
+});
+
+test('kernel key repeats are dropped', async (t) => {
+  quiet(t);
+  const { fifo, events } = setup(t);
+  fifo.report([[EV_KEY, 0x220, 1]]);
+  fifo.report([[EV_KEY, 0x220, 2]]);
+  fifo.report([[EV_KEY, 0x220, 2]]);
+  fifo.report([[EV_KEY, 0x220, 0]]);
+  await waitFor(() => events.length === 2);
+  await wait(50);
+  assert.deepEqual(events.map((e) => e.kind === 'button' && `${e.button} ${e.pressed}`), ['dpad_up true', 'dpad_up false']);
+});
+
+// ─── SYN_DROPPED ────────────────────────────────────────────────────────────
+
+/** What the events say, with a * on the synthetic ones */
+function describe(events: PSNavEvent[]): string[] {
+  return events.map((e) => `${e.kind === 'button' ? `${e.button} ${e.pressed}` : `${e.axis} ${e.value}`}${e.synthetic ? ' *' : ''}`);
+}
+
+test('SYN_DROPPED discards the rest of the frame and releases everything held', async (t) => {
+  quiet(t);
+  const { fifo, mapper, events } = setup(t);
+  // Circle first: its USB-only code tells the mapper 0x130 is cross
+  fifo.report([[EV_KEY, 0x131, 1], [EV_KEY, 0x130, 1], [EV_ABS, 0x00, 255]]);
+  await waitFor(() => events.length === 3);
+  events.length = 0;
+
+  fifo.write(inputEvent(Date.now(), EV_SYN, SYN_DROPPED, 0));
+  fifo.report([[EV_KEY, 0x136, 1]]);   // L1 press inside the dropped frame
+  await waitFor(() => events.length === 3);
+
+  assert.deepEqual(describe(events), ['cross false *', 'circle false *', 'stick_x 128 *']);
+  assert.equal(mapper.droppedFrames, 1);
+});
+
+test('input after the resync is mapped again', async (t) => {
+  quiet(t);
+  const { fifo, events } = setup(t);
+  fifo.write(inputEvent(Date.now(), EV_SYN, SYN_DROPPED, 0));
+  fifo.report([]);
+  fifo.report([[EV_KEY, 0x131, 1]]);
+  await waitFor(() => events.length === 1);
+  assert.deepEqual(describe(events), ['circle true']);
+});
+
+test('a resync with nothing held sends no releases', async (t) => {
+  quiet(t);
+  const { fifo, mapper, frames, events } = setup(t);
+  fifo.write(inputEvent(Date.now(), EV_SYN, SYN_DROPPED, 0));
+  fifo.report([]);
+  await waitFor(() => mapper.droppedFrames === 1);
+  await wait(50);
+  assert.deepEqual(events, []);
+  assert.deepEqual(frames, []);
+});
+
+// ─── Input mode ─────────────────────────────────────────────────────────────
+
+test('without sysfs the mode is detected from the first telling input', async (t) => {
+  quiet(t);
+  const { fifo, mapper, events } = setup(t);
+  const modes: string[] = [];
+  mapper.on('mode', (detection) => modes.push(detection.mode));
+  await waitFor(() => mapper.inputMode.reason !== 'device not opened');
+  assert.equal(mapper.inputMode.mode, 'unknown');
+
+  // Negative axis values only exist in the Bluetooth (hid-generic) layout
+  fifo.report([[EV_ABS, 0x00, -127]]);
+  fifo.report([[EV_ABS, 0x00, 200]]);
+  await waitFor(() => events.length === 2);
+  assert.deepEqual(modes, ['bluetooth']);
+  assert.deepEqual(mapper.inputMode, { mode: 'bluetooth', reason: 'heuristic: negative axis value' });
+  assert.deepEqual(events.map((e) => e.kind === 'axis' && e.value), [0, 255]);
+});
+
+// ─── Calibration ────────────────────────────────────────────────────────────
+
+test('a calibration replaces the nominal range in the mode it was recorded in', async (t) => {
+  quiet(t);
+  const { fifo, mapper, events } = setup(t, { controllerId: 'test' });
+  mapper.setCalibration({
+    controllerId: 'test',
+    inputMode: 'usb',
+    axes: { stick_x: { min: 20, max: 220, center: 150 } },
+    createdAt: 0,
+  });
+  const beforeModeKnown = mapper.activeCalibration;
+  assert.equal(beforeModeKnown, null);
+
+  // 200 > 127 switches the mode to USB before the value is mapped
+  fifo.report([[EV_ABS, 0x00, 200]]);
+  fifo.report([[EV_ABS, 0x01, 200]]);
+  await waitFor(() => events.length === 2);
+  assert.equal(mapper.activeCalibration?.controllerId, 'test');
+  assert.deepEqual(events.map((e) => e.kind === 'axis' && [e.axis, e.value]), [['stick_x', 219], ['stick_y', 200]]);
+  assert.deepEqual(mapper.rawAxisValues(), { stick_x: 200, stick_y: 200 });
+});
+
+// ─── Virtual stick buttons ──────────────────────────────────────────────────
+
+test('stick buttons follow the pre-deadzone stick and are released on resync', async (t) => {
+  quiet(t);
+  const { fifo, events } = setup(t, { stickButtons: DEFAULT_STICK_BUTTONS });
+  const buttons = () => events.filter((e) => e.kind === 'button').map((e) => e.kind === 'button' && `${e.button} ${e.pressed}`);
+
+  fifo.report([[EV_ABS, 0x00, 255]]);
+  fifo.report([[EV_ABS, 0x00, 128], [EV_ABS, 0x01, 0]]);
+  fifo.write(inputEvent(Date.now(), EV_SYN, SYN_DROPPED, 0));
+  fifo.report([]);
+  await waitFor(() => buttons().length === 4);
+  assert.deepEqual(buttons(), ['stick_right true', 'stick_right false', 'stick_up true', 'stick_up false']);
+});
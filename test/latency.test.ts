@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LATENCY_BUCKETS_MS, createLatencyHistogram, recordLatencyReport, summarizeLatency } from '../src/latency';
+
+test('samples are binned by upper bound, the rest in the open bucket', () => {
+  const hist = createLatencyHistogram();
+  recordLatencyReport(hist, { samples: [0.5, 1, 1.5, 20, 999, 5000], clockOffset: 12, rtt: 3 });
+
+  const counts = Object.fromEntries(hist.buckets.map((b) => [b.leMs ?? 'more', b.count]));
+  assert.equal(counts[1], 2);
+  assert.equal(counts[2], 1);
+  assert.equal(counts[20], 1);
+  assert.equal(counts[1000], 1);
+  assert.equal(counts.more, 1);
+  assert.equal(hist.buckets.length, LATENCY_BUCKETS_MS.length + 1);
+  assert.equal(hist.count, 6);
+  assert.equal(hist.min, 0.5);
+  assert.equal(hist.max, 5000);
+  assert.equal(hist.clockOffset, 12);
+  assert.equal(hist.rtt, 3);
+});
+
+test('reports add up and skip samples that are not numbers', () => {
+  const hist = createLatencyHistogram();
+  recordLatencyReport(hist, { samples: [4, 6], clockOffset: 0, rtt: 0 });
+  recordLatencyReport(hist, { samples: [NaN, Infinity, '3' as never, 8], clockOffset: NaN, rtt: 1 });
+  recordLatencyReport(hist, { samples: 'nope' } as never);
+
+  assert.equal(hist.count, 3);
+  assert.equal(summarizeLatency(hist).mean, 6);
+  // A bad offset keeps the last good one
+  assert.equal(hist.clockOffset, 0);
+  assert.equal(hist.rtt, 1);
+});
+
+test('an empty histogram summarises without infinities', () => {
+  const summary = summarizeLatency(createLatencyHistogram());
+  assert.equal(summary.min, 0);
+  assert.equal(summary.max, 0);
+  assert.equal(summary.mean, null);
+  assert.doesNotThrow(() => JSON.stringify(summary));
+});
@@ -0,0 +1,179 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileError, ProfileStore, parseProfile, profileMatches } from '../src/mapping-profile';
+import { DEFAULT_PROFILE } from '../src/button-map';
+import { DeviceInfo } from '../src/types';
+import { quiet } from './helpers';
+
+const NAV: DeviceInfo = {
+  name: 'Sony PLAYSTATION(R)3 Controller',
+  vendor: '054c',
+  product: '042f',
+  bustype: '0005',
+  driver: 'sony',
+  uniq: 'aa:bb:cc:dd:ee:ff',
+  phys: '',
+  absCapabilities: '',
+};
+
+function problems(json: unknown): string[] {
+  try {
+    parseProfile(json, 'test.json');
+  } catch (err) {
+    assert.ok(err instanceof ProfileError);
+    assert.equal(err.source, 'test.json');
+    return err.problems;
+  }
+  assert.fail('expected a ProfileError');
+}
+
+test('codes are parsed from hex or decimal and match fields are lower-cased', () => {
+  const profile = parseProfile({
+    name: ' clone ',
+    match: { vendor: '0E8F', driver: 'HID-Generic' },
+    buttons: { '0x130': 'cross', '305': 'circle' },
+    hats: { '0x10': { neg: 'dpad_left', pos: 'dpad_right' } },
+  }, 'clone.json');
+
+  assert.equal(profile.name, 'clone');
+  assert.equal(profile.priority, 0);
+  assert.deepEqual(profile.match, { vendor: '0e8f', driver: 'hid-generic' });
+  assert.deepEqual(profile.buttons, { 0x130: 'cross', 0x131: 'circle' });
+  assert.deepEqual(profile.hats, { 0x10: { neg: 'dpad_left', pos: 'dpad_right' } });
+  assert.equal(profile.source, 'clone.json');
+});
+
+test('an axis range is one pair for every mode or one per mode', () => {
+  const profile = parseProfile({
+    name: 'axes',
+    match: { name: 'nav' },
+    axes: {
+      '0x00': { axis: 'stick_x' },
+      '0x01': { axis: 'stick_y', range: [-512, 511] },
+      '0x02': { axis: 'l2_analog', range: { bluetooth: [-127, 127] } },
+    },
+  }, 'axes.json');
+
+  assert.deepEqual(profile.axes[0x00].range, { unknown: [0, 255], usb: [0, 255], bluetooth: [0, 255] });
+  assert.deepEqual(profile.axes[0x01].range.bluetooth, [-512, 511]);
+  // The mode is unknown until detected — treated like USB
+  assert.deepEqual(profile.axes[0x02].range, { unknown: [0, 255], usb: [0, 255], bluetooth: [-127, 127] });
+});
+
+test('an ambiguous code falls back to its Bluetooth meaning until the mode is known', () => {
+  const profile = parseProfile({
+    name: 'amb',
+    match: { driver: 'sony' },
+    ambiguous: { '0x13c': { usb: 'ps', bluetooth: 'l3' }, '0x130': { usb: 'cross', bluetooth: 'ps', unknown: 'cross' } },
+  }, 'amb.json');
+
+  assert.deepEqual(profile.ambiguous[0x13c], { usb: 'ps', bluetooth: 'l3', unknown: 'l3' });
+  assert.equal(profile.ambiguous[0x130].unknown, 'cross');
+});
+
+test('every schema problem is reported at once', () => {
+  const found = problems({
+    name: '',
+    priority: 'high',
+    match: { vendor: 'sony', colour: 'black' },
+    buttons: { '0x130': 'triangle', 'BTN_A': 'cross' },
+    axes: { '0x00': { axis: 'stick_x', range: [255, 0] } },
+    hats: { '0x10': { neg: 'dpad_left' } },
+    extra: true,
+  });
+
+  assert.deepEqual(found, [
+    'unknown key "extra"',
+    '"name" must be a non-empty string',
+    '"priority" must be a number',
+    'match.vendor must be 4 hex digits (got "sony")',
+    'match: unknown key "colour"',
+    found[5],
+    'buttons: "BTN_A" is not a hex (0x..) or decimal event code',
+    found[7],
+    'hats.0x10: expected { "neg": <button>, "pos": <button> }',
+  ]);
+  assert.match(found[5], /^buttons\.0x130: unknown button "triangle"/);
+  assert.match(found[7], /^axes\.0x00\.range must be/);
+});
+
+test('a profile needs a match block and cannot map a code as both button and ambiguous', () => {
+  assert.deepEqual(problems('nav'), ['profile must be a JSON object']);
+  assert.ok(problems({ name: 'x', match: {} }).includes('"match" needs at least one of: name, vendor, product, driver'));
+  assert.deepEqual(problems({
+    name: 'x',
+    match: { driver: 'sony' },
+    buttons: { '0x130': 'cross' },
+    ambiguous: { '304': { usb: 'cross', bluetooth: 'ps' } },
+  }), ['code 0x130 is in both "buttons" and "ambiguous"']);
+});
+
+test('all given match fields must fit the device', () => {
+  const profile = (match: object) => parseProfile({ name: 'p', match }, 'p.json');
+
+  assert.ok(profileMatches(profile({ name: 'playstation' }), NAV));
+  assert.ok(profileMatches(profile({ vendor: '054c', product: '042f', driver: 'Sony' }), NAV));
+  assert.ok(!profileMatches(profile({ vendor: '054c', product: '0268' }), NAV));
+  assert.ok(!profileMatches(DEFAULT_PROFILE, NAV));
+});
+
+// ─── ProfileStore ───────────────────────────────────────────────────────────
+
+function profileDir(t: { after(fn: () => void): void }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-profiles-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const write = (file: string, json: unknown) =>
+    fs.writeFileSync(path.join(dir, file), typeof json === 'string' ? json : JSON.stringify(json));
+  return { dir, write };
+}
+
+test('select prefers priority, then the more specific match, then the default', (t) => {
+  quiet(t);
+  const { dir, write } = profileDir(t);
+  write('a.json', { name: 'by-driver', match: { driver: 'sony' } });
+  write('b.json', { name: 'by-id', match: { vendor: '054c', product: '042f' } });
+  write('c.json', { name: 'other', match: { vendor: '0e8f' } });
+  const store = new ProfileStore(dir);
+  store.load();
+
+  assert.equal(store.all.length, 3);
+  assert.equal(store.select(NAV).name, 'by-id');
+
+  write('d.json', { name: 'preferred', priority: 5, match: { name: 'controller' } });
+  store.load();
+  assert.equal(store.select(NAV).name, 'preferred');
+
+  const clone = { ...NAV, name: 'Clone', vendor: '1234', driver: 'hid-generic' };
+  assert.equal(store.matches(clone), false);
+  assert.equal(store.select(clone), DEFAULT_PROFILE);
+});
+
+test('an invalid file keeps the version that was loaded before', (t) => {
+  quiet(t);
+  const { dir, write } = profileDir(t);
+  write('nav.json', { name: 'v1', match: { driver: 'sony' } });
+  write('notes.txt', 'not a profile');
+  const store = new ProfileStore(dir);
+  store.load();
+  assert.deepEqual(store.all.map((p) => p.name), ['v1']);
+
+  write('nav.json', '{ "name": "v2", ');
+  write('new.json', { name: 'broken', match: {} });
+  store.load();
+  assert.deepEqual(store.all.map((p) => p.name), ['v1']);
+
+  write('nav.json', { name: 'v2', match: { driver: 'sony' } });
+  store.load();
+  assert.deepEqual(store.all.map((p) => p.name), ['v2']);
+});
+
+test('a missing directory leaves only the built-in profile', (t) => {
+  quiet(t);
+  const store = new ProfileStore(path.join(os.tmpdir(), 'psnav-no-such-dir'));
+  store.load();
+  assert.deepEqual(store.all, []);
+  assert.equal(store.select(NAV), DEFAULT_PROFILE);
+});
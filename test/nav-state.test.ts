@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NavStateTracker } from '../src/nav-state';
+import { PSNavButton, PSNavAxis, PSNavEvent } from '../src/types';
+
+const button = (button: PSNavButton, pressed: boolean, controllerId = 'test'): PSNavEvent =>
+  ({ kind: 'button', controllerId, button, pressed, timestamp: 0, dispatchedAt: 0 });
+const axis = (axis: PSNavAxis, value: number, controllerId = 'test'): PSNavEvent =>
+  ({ kind: 'axis', controllerId, axis, value, timestamp: 0, dispatchedAt: 0 });
+
+test('a snapshot holds every button and axis as last forwarded', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1707840000000 });
+  const tracker = new NavStateTracker();
+  tracker.apply(button('cross', true));
+  tracker.apply(button('stick_up', true));
+  tracker.apply(axis('stick_x', 200));
+  tracker.apply(button('circle', true, 'other'));
+
+  const snapshot = tracker.snapshot('test');
+  assert.equal(snapshot.kind, 'state');
+  assert.equal(snapshot.timestamp, 1707840000000);
+  assert.deepEqual(Object.keys(snapshot.buttons).filter((b) => snapshot.buttons[b as PSNavButton]), ['cross', 'stick_up']);
+  assert.deepEqual(snapshot.axes, { stick_x: 200, stick_y: 128, l2_analog: 0 });
+  // A controller nothing is known about is at rest
+  assert.deepEqual(tracker.snapshot('new').axes, { stick_x: 128, stick_y: 128, l2_analog: 0 });
+});
+
+test('releases bring held buttons and moved axes back to rest', () => {
+  const tracker = new NavStateTracker();
+  tracker.apply(button('l1', true));
+  tracker.apply(button('cross', true));
+  tracker.apply(button('cross', false));
+  tracker.apply(axis('l2_analog', 90));
+
+  const describe = (events: PSNavEvent[]) =>
+    events.map((e) => `${e.kind === 'button' ? `${e.button} ${e.pressed}` : `${e.axis} ${e.value}`}${e.synthetic ? ' *' : ''}`);
+  assert.deepEqual(describe(tracker.releases('test')), ['l1 false *', 'l2_analog 0 *']);
+  // Receivers with their own axis processing get every axis
+  assert.deepEqual(describe(tracker.releases('test', true)), ['l1 false *', 'stick_x 128 *', 'stick_y 128 *', 'l2_analog 0 *']);
+
+  // Releases do not change what is tracked
+  assert.equal(tracker.snapshot('test').buttons.l1, true);
+  tracker.forget('test');
+  assert.deepEqual(tracker.releases('test'), []);
+});
@@ -0,0 +1,186 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, Socket } from 'socket.io';
+import { PSNavClient, PSNavButtonEvent, PSNavClientOptions } from '../src/psnav-client';
+import { quiet, waitFor } from './helpers';
+
+// The client is run against a bare Socket.IO server the test drives by hand.
+
+/** `onSocket` sets up the server side of the connection before the client gets to use it */
+async function setup(
+  t: { after(fn: () => Promise<void>): void },
+  opts: PSNavClientOptions = {},
+  onSocket: (socket: Socket) => void = () => {},
+) {
+  const httpServer = createServer();
+  const io = new Server(httpServer);
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const connected = new Promise<Socket>((resolve) => io.once('connection', (socket) => {
+    onSocket(socket);
+    resolve(socket);
+  }));
+
+  const client = new PSNavClient(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`, { reconnect: false, ...opts });
+  client.connect();
+  const socket = await connected;
+  await waitFor(() => client.isConnected);
+
+  t.after(async () => {
+    client.disconnect();
+    await new Promise((resolve) => io.close(resolve));
+  });
+  return { client, socket };
+}
+
+function button(controllerId: string, button: PSNavButtonEvent['button'], pressed = true): PSNavButtonEvent {
+  return { kind: 'button', controllerId, button, pressed, timestamp: Date.now(), dispatchedAt: Date.now() };
+}
+
+test('state is kept per controller', async (t) => {
+  quiet(t);
+  const { client, socket } = await setup(t);
+  socket.emit('nav:connected', { controllerId: 'left', device: '/dev/input/event5' });
+  socket.emit('nav:button', button('left', 'cross'));
+  socket.emit('nav:axis', { kind: 'axis', controllerId: 'right', axis: 'stick_x', value: 200, timestamp: Date.now(), dispatchedAt: Date.now() });
+  await waitFor(() => client.getControllerState('right') !== undefined);
+
+  assert.equal(client.getControllerState('left')!.buttons.cross, true);
+  assert.equal(client.getControllerState('right')!.buttons.cross, false);
+  assert.equal(client.getControllerState('right')!.axes.stick_x, 200);
+  // The flat snapshot follows the controller that sent the latest event
+  assert.equal(client.axes.stick_x, 200);
+  assert.equal(client.buttons.cross, false);
+
+  socket.emit('nav:disconnected', { controllerId: 'left', device: '/dev/input/event5', reason: 'gone' });
+  await waitFor(() => client.getControllerState('left') === undefined);
+});
+
+test('a controllerId filter only passes that controller\'s events', async (t) => {
+  quiet(t);
+  const { client, socket } = await setup(t);
+  const all: string[] = [];
+  const left: string[] = [];
+  const crossOnRight: boolean[] = [];
+  client.on('button', (evt) => all.push(evt.controllerId));
+  client.on('button', (evt) => left.push(evt.controllerId), 'left');
+  client.onButton('cross', (pressed) => crossOnRight.push(pressed), 'right');
+
+  socket.emit('nav:button', button('left', 'cross'));
+  socket.emit('nav:button', button('right', 'cross'));
+  socket.emit('nav:button', button('right', 'circle'));
+  await waitFor(() => all.length === 3);
+
+  assert.deepEqual(all, ['left', 'right', 'right']);
+  assert.deepEqual(left, ['left']);
+  assert.deepEqual(crossOnRight, [true]);
+});
+
+test('events without a controllerId are not filtered', async (t) => {
+  quiet(t);
+  const { client, socket } = await setup(t);
+  const levels: (number | null)[] = [];
+  client.on('battery', (status) => levels.push(status.level), 'left');
+
+  socket.emit('battery:status', { controllerId: 'right', level: 10, charging: false, source: null, timestamp: 0 });
+  socket.emit('battery:status', { controllerId: null, level: 20, charging: null, source: null, timestamp: 0 });
+  socket.emit('battery:status', { controllerId: 'left', level: 30, charging: false, source: null, timestamp: 0 });
+  await waitFor(() => levels.length === 2);
+  assert.deepEqual(levels, [20, 30]);
+});
+
+test('one callback keeps a filter per event and controller, and off() removes one at a time', async (t) => {
+  quiet(t);
+  const { client, socket } = await setup(t);
+  const seen: string[] = [];
+  const record = (evt: { kind: string; controllerId: string }) => seen.push(`${evt.kind} ${evt.controllerId}`);
+  client.on('button', record, 'left');
+  client.on('button', record, 'right');
+  client.on('axis', record, 'left');
+  const axis = (controllerId: string) => ({ kind: 'axis', controllerId, axis: 'stick_x', value: 200, timestamp: 0, dispatchedAt: 0 });
+
+  socket.emit('nav:button', button('left', 'cross'));
+  socket.emit('nav:button', button('right', 'cross'));
+  socket.emit('nav:axis', axis('right'));
+  socket.emit('nav:axis', axis('left'));
+  await waitFor(() => seen.length === 3);
+  assert.deepEqual(seen, ['button left', 'button right', 'axis left']);
+
+  client.off('button', record, 'left');
+  socket.emit('nav:button', button('left', 'circle'));
+  socket.emit('nav:button', button('right', 'circle'));
+  socket.emit('nav:axis', axis('left'));
+  await waitFor(() => seen.length === 5);
+  assert.deepEqual(seen.slice(3), ['button right', 'axis left']);
+
+  client.off('button', record);
+  socket.emit('nav:button', button('right', 'cross', false));
+  socket.emit('nav:axis', axis('left'));
+  await waitFor(() => seen.length === 6);
+  assert.deepEqual(seen.slice(5), ['axis left']);
+});
+
+/** Answer clock:sync with a hub clock that runs 5s ahead */
+function hubClockAhead(socket: Socket): void {
+  socket.on('clock:sync', (_clientTime: number, ack: (serverTime: number) => void) => ack(Date.now() + 5000));
+}
+
+test('syncClock keeps the offset of the fastest round trip', async (t) => {
+  quiet(t);
+  const { client } = await setup(t, {}, hubClockAhead);
+
+  const sync = await client.syncClock(3);
+  assert.ok(Math.abs(sync.offset - 5000) <= sync.rtt, `offset ${sync.offset}, rtt ${sync.rtt}`);
+  assert.equal(client.clockOffset, sync.offset);
+});
+
+test('with latency on, events are measured against the hub clock and reported', async (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  const { client, socket } = await setup(t, { latency: true }, hubClockAhead);
+  await waitFor(() => client.clockOffset !== null);
+
+  // Happened 100ms ago on the hub clock
+  socket.emit('nav:button', { ...button('left', 'cross'), timestamp: Date.now() + 5000 - 100 });
+  await waitFor(() => client.lastLatency !== null);
+  assert.ok(client.lastLatency! >= 100 && client.lastLatency! < 200, `latency ${client.lastLatency}`);
+
+  const reported = new Promise<{ samples: number[] }>((resolve) => socket.once('latency:report', resolve));
+  t.mock.timers.tick(5000);
+  assert.deepEqual((await reported).samples, [client.lastLatency]);
+});
+
+test('a stick subscription sends its options and keeps the latest vector per controller', async (t) => {
+  quiet(t);
+  const subscribed: unknown[] = [];
+  const { client, socket } = await setup(t, { stick: { yAxis: 'up' } }, (s) => {
+    s.on('subscribe:stick', (...args) => subscribed.push(args));
+  });
+  await waitFor(() => subscribed.length === 1);
+  assert.deepEqual(subscribed, [[true, { yAxis: 'up' }]]);
+
+  const received: number[] = [];
+  client.on('stick', (stick) => received.push(stick.magnitude));
+  socket.emit('nav:stick', {
+    kind: 'stick', controllerId: 'left', x: 0, y: 1, angle: Math.PI / 2, magnitude: 1, l2: 0,
+    timestamp: Date.now(), dispatchedAt: Date.now(),
+  });
+  await waitFor(() => received.length === 1);
+  assert.deepEqual(client.getControllerState('left')!.stick, { x: 0, y: 1, angle: Math.PI / 2, magnitude: 1, l2: 0 });
+});
+
+test('startCalibration resolves with the result for its controller and rejects on disconnect', async (t) => {
+  quiet(t);
+  const { client, socket } = await setup(t);
+  socket.on('calibration:start', (controllerId: string) => {
+    socket.emit('calibration:done', { ok: false, controllerId: 'other', error: 'not this one' });
+    socket.emit('calibration:done', { ok: false, controllerId, error: 'no movement recorded' });
+  });
+  assert.deepEqual(await client.startCalibration('left'), { ok: false, controllerId: 'left', error: 'no movement recorded' });
+
+  socket.removeAllListeners('calibration:start');
+  const pending = client.startCalibration('left');
+  socket.disconnect(true);
+  await assert.rejects(pending, /Disconnected during calibration/);
+});
@@ -0,0 +1,105 @@
+import { TestContext, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ScenarioError, ScenarioSource, createRng, parseScenario } from '../src/scenario';
+import { kernelTime } from '../src/input-source';
+import { RawInputEvent } from '../src/types';
+import { quiet } from './helpers';
+
+// ─── parseScenario ──────────────────────────────────────────────────────────
+
+test('parseScenario fills in the defaults', () => {
+  const scenario = parseScenario({ steps: [{ hold: 'cross' }, { ps: 'tap' }, { axis: 'stick_x', to: [0, 255] }] }, 'test.json');
+  assert.equal(scenario.name, 'test.json');
+  assert.equal(scenario.controllerId, 'mock');
+  assert.equal(scenario.seed, null);
+  assert.equal(scenario.loop, false);
+  assert.deepEqual(scenario.steps, [
+    { hold: 'cross', ms: 100 },
+    { ps: 'tap', ms: 50 },
+    { axis: 'stick_x', to: [0, 255], ms: 0 },
+  ]);
+});
+
+test('parseScenario reports every problem with where it is', () => {
+  assert.throws(
+    () => parseScenario({
+      seed: 1.5,
+      colour: 'red',
+      steps: [
+        { hold: 'triangle' },
+        { chord: ['cross'] },
+        { wait: [900, 300] },
+        { ps: 'tap', ms: 10 },
+        { loop: [{ wait: 10 }], times: 0 },
+        { press: 'cross', release: 'cross' },
+      ],
+    }, 'test.json'),
+    (err: ScenarioError) => {
+      assert.ok(err instanceof ScenarioError);
+      assert.equal(err.source, 'test.json');
+      const problems = err.problems.join('\n');
+      for (const expected of [
+        /unknown key "colour"/,
+        /"seed" must be a whole number/,
+        /steps\[0\]\.hold/,
+        /steps\[1\]\.chord: a chord needs at least two buttons/,
+        /steps\[2\]\.wait/,
+        /steps\[3\]\.ms: only for "hold"/,
+        /steps\[4\]\.times/,
+        /steps\[5\]: a step is an object with one of/,
+      ]) {
+        assert.match(problems, expected);
+      }
+      return true;
+    },
+  );
+  assert.throws(() => parseScenario({ steps: [] }, 'test.json'), ScenarioError);
+});
+
+// ─── createRng / ScenarioSource ─────────────────────────────────────────────
+
+test('createRng gives the same sequence for the same seed', () => {
+  const sequence = (seed: number) => {
+    const rng = createRng(seed);
+    return Array.from({ length: 100 }, rng);
+  };
+  assert.deepEqual(sequence(42), sequence(42));
+  assert.notDeepEqual(sequence(42), sequence(43));
+  assert.ok(sequence(7).every((n) => n >= 0 && n < 1));
+});
+
+const RANDOM_SCENARIO = {
+  steps: [
+    { wait: [10, 500] },
+    { loop: [{ random: [{ hold: 'cross', ms: [20, 200] }, { hold: 'circle' }, { axis: 'stick_x', to: [0, 255], ms: [0, 100] }] }, { wait: [10, 300] }], times: 20 },
+  ],
+};
+
+/** Play a scenario to its end on the mocked clock; the events as [kernel ms, type, code, value] */
+function play(t: TestContext, seed: number): number[][] {
+  const source = new ScenarioSource(parseScenario(RANDOM_SCENARIO, 'random.json'), { seed });
+  const events: RawInputEvent[] = [];
+  const closed: string[] = [];
+  source.on('raw', (raw) => events.push(raw));
+  source.on('close', (reason) => closed.push(reason));
+  source.start();
+  t.mock.timers.tick(60_000);
+  assert.deepEqual(closed, ['end of scenario']);
+  return events.map((raw) => [kernelTime(raw), raw.type, raw.code, raw.value]);
+}
+
+test('a scenario with the same seed produces the same events every run', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const first = play(t, 42);
+  t.mock.timers.reset();
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const second = play(t, 42);
+  t.mock.timers.reset();
+  t.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+  const other = play(t, 43);
+
+  assert.ok(first.length > 40);
+  assert.deepEqual(second, first);
+  assert.notDeepEqual(other, first);
+});
@@ -0,0 +1,556 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { io } from 'socket.io-client';
+import { PSNavClient, PSNavClientOptions, PSNavFrameEvent, PSNavStateEvent } from '../src/psnav-client';
+import { EV_ABS, EV_KEY } from '../src/types';
+import { Hub, quiet, startHub, status, wait, waitFor } from './helpers';
+
+// The hub runs as a child process reading a FIFO as its controller; services
+// connect to it with PSNavClient.
+
+const PS = 0x13c;
+
+/** A PSNavClient on the hub that logs what happens to it; disconnected after the test */
+async function connect(t: { after(fn: () => void): void }, hub: Hub, opts: PSNavClientOptions = {}) {
+  const client = new PSNavClient(hub.url, { reconnect: false, ...opts });
+  const log: string[] = [];
+  client.on('activated', (info) => log.push(`activated ${info.serviceName} ${info.controllerId}`));
+  client.on('deactivated', (info) => log.push(`deactivated ${info.serviceName} ${info.controllerId}`));
+  client.on('button', (evt) => log.push(`${evt.button} ${evt.pressed}`));
+  client.connect();
+  t.after(() => client.disconnect());
+  await waitFor(() => client.isConnected);
+  if (opts.serviceName) await waitFor(() => client.clientList.clients.some((c) => c.serviceName === opts.serviceName));
+  return { client, log };
+}
+
+/** Collect a client's nav:frame events */
+function frames(client: PSNavClient) {
+  const received: PSNavFrameEvent[] = [];
+  client.on('frame', (frame) => received.push(frame));
+  return received;
+}
+
+function pressPs(hub: Hub): void {
+  hub.fifo.report([[EV_KEY, PS, 1]]);
+  hub.fifo.report([[EV_KEY, PS, 0]]);
+}
+
+test('a controller drives the first service that registers and PS cycles its rotation', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const a = await connect(t, hub, { serviceName: 'a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  await waitFor(() => a.client.isActive);
+  assert.equal(b.client.isActive, false);
+
+  pressPs(hub);
+  await waitFor(() => b.client.isActive);
+  assert.deepEqual(a.log, [`activated a ${hub.controllerId}`, `deactivated a ${hub.controllerId}`]);
+  assert.deepEqual(b.client.activeControllers, [hub.controllerId]);
+
+  pressPs(hub);
+  await waitFor(() => a.client.isActive);
+  assert.equal(b.client.isActive, false);
+});
+
+test('the status endpoint lists every controller and the first one\'s device', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const { controllers, device } = (await status(hub.url))!;
+  assert.deepEqual(controllers.map((c) => c.controllerId), [hub.controllerId]);
+  assert.equal(device, hub.fifo.path);
+});
+
+test('input goes to the active service and to unregistered sockets only', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const a = await connect(t, hub, { serviceName: 'a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  const observer = await connect(t, hub);
+  await waitFor(() => a.client.isActive);
+
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  await waitFor(() => observer.log.includes('circle true'));
+  await waitFor(() => a.log.includes('circle true'));
+  await wait(100);
+  assert.ok(!b.log.includes('circle true'));
+});
+
+test('controller: "any" takes a free controller and a bound service waits for its own', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const other = await connect(t, hub, { serviceName: 'other', controller: 'aa:bb:cc:dd:ee:ff' });
+  const any = await connect(t, hub, { serviceName: 'any', controller: 'any' });
+  await waitFor(() => any.client.isActive);
+  assert.equal(other.client.isActive, false);
+
+  // PS only cycles through services this controller may drive
+  pressPs(hub);
+  await wait(200);
+  assert.equal(any.client.isActive, true);
+  assert.equal(other.client.isActive, false);
+  assert.deepEqual(
+    any.client.clientList.focus.map((f) => [f.controllerId, f.activeServiceName]),
+    [[hub.controllerId, 'any']],
+  );
+});
+
+test('when the active service leaves, the controller moves on to the next one', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const a = await connect(t, hub, { serviceName: 'a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  await waitFor(() => a.client.isActive);
+
+  a.client.disconnect();
+  await waitFor(() => b.client.isActive);
+  assert.deepEqual(b.log, [`activated b ${hub.controllerId}`]);
+});
+
+test('nav:frame is only sent to sockets that subscribed', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const subscribed = await connect(t, hub, { serviceName: 'a', frames: true });
+  const plain = await connect(t, hub, { serviceName: 'b' });
+  const subscribedFrames = frames(subscribed.client);
+  const plainFrames = frames(plain.client);
+  await waitFor(() => subscribed.client.isActive);
+
+  hub.fifo.report([[EV_KEY, 0x131, 1], [EV_KEY, 0x136, 1]]);
+  await waitFor(() => subscribedFrames.length === 1);
+  assert.deepEqual(subscribedFrames[0].changes.map((c) => c.kind === 'button' && c.button), ['circle', 'l1']);
+  // Discrete events keep coming alongside frames
+  assert.ok(subscribed.log.includes('circle true'));
+
+  pressPs(hub);
+  await waitFor(() => plain.client.isActive);
+  hub.fifo.report([[EV_KEY, 0x131, 0]]);
+  await waitFor(() => plain.log.includes('circle false'));
+  assert.deepEqual(plainFrames, []);
+});
+
+test('a service with its own axis settings gets its own nav:axis stream', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const radial = await connect(t, hub, { serviceName: 'radial', axes: { deadzone: 'radial', deadzoneSize: 0.5 } });
+  const observer = await connect(t, hub);
+  const axes = (client: PSNavClient) => {
+    const received: string[] = [];
+    client.on('axis', (evt) => received.push(`${evt.axis} ${evt.value}`));
+    return received;
+  };
+  const radialAxes = axes(radial.client);
+  const observerAxes = axes(observer.client);
+  await waitFor(() => radial.client.isActive);
+
+  hub.fifo.report([[EV_ABS, 0x00, 180]]);
+  await waitFor(() => observerAxes.includes('stick_x 180'));
+  await wait(100);
+  assert.deepEqual(radialAxes, []);
+
+  hub.fifo.report([[EV_ABS, 0x01, 180]]);
+  await waitFor(() => radialAxes.length === 2);
+  assert.deepEqual(radialAxes, ['stick_x 180', 'stick_y 180']);
+});
+
+test('gestures go to the focused service, filtered to the types it asked for', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const taps = await connect(t, hub, { serviceName: 'taps', gestures: { types: ['tap'] } });
+  const all = await connect(t, hub, { serviceName: 'all', gestures: {} });
+  const received = (client: PSNavClient) => {
+    const gestures: string[] = [];
+    client.on('gesture', (g) => gestures.push(`${g.gesture} ${g.buttons.join('+')}`));
+    return gestures;
+  };
+  const tapGestures = received(taps.client);
+  const allGestures = received(all.client);
+  await waitFor(() => taps.client.isActive);
+
+  // A chord, then a tap
+  hub.fifo.report([[EV_KEY, 0x136, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 0], [EV_KEY, 0x136, 0]]);
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 0]]);
+  await waitFor(() => tapGestures.length === 1);
+  assert.deepEqual(tapGestures, ['tap circle']);
+
+  pressPs(hub);
+  await waitFor(() => all.client.isActive);
+  hub.fifo.report([[EV_KEY, 0x136, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  await waitFor(() => allGestures.length === 1);
+  assert.deepEqual(allGestures, ['chord circle+l1']);
+});
+
+test('virtual stick buttons are only sent when the hub turns them on', async (t) => {
+  quiet(t);
+  for (const [env, expected] of [[{}, []], [{ STICK_BUTTONS: '4' }, ['stick_right true']]] as const) {
+    const hub = await startHub(t, env);
+    const observer = await connect(t, hub);
+    const axes: number[] = [];
+    observer.client.on('axis', (evt) => axes.push(evt.value));
+    hub.fifo.report([[EV_ABS, 0x00, 255]]);
+    await waitFor(() => axes.includes(255));
+    await wait(100);
+    assert.deepEqual(observer.log, expected);
+  }
+});
+
+test('stick button thresholds without hysteresis fall back to the defaults', async (t) => {
+  quiet(t);
+  const hub = await startHub(t, { STICK_BUTTONS: '4', STICK_BUTTON_PRESS: '0.2', STICK_BUTTON_RELEASE: '0.6' });
+  assert.match(hub.output(), /must satisfy 0 < release < press <= 1 — using 0.3 \/ 0.5/);
+});
+
+test('a bad gesture threshold is reported and replaced by the default', async (t) => {
+  quiet(t);
+  const hub = await startHub(t, { GESTURE_LONG_PRESS_MS: '-5' });
+  assert.match(hub.output(), /GESTURE_LONG_PRESS_MS must be a positive whole number of ms, got "-5" — using 500/);
+});
+
+test('auto-repeat is sent to the service that asked for it until it loses focus', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const repeating = await connect(t, hub, { serviceName: 'menu', repeat: { delayMs: 100, intervalMs: 50 } });
+  const other = await connect(t, hub, { serviceName: 'other' });
+  const repeats = (client: PSNavClient) => {
+    let count = 0;
+    client.on('button', (evt) => {
+      if (evt.repeat) count++;
+    });
+    return () => count;
+  };
+  const menuRepeats = repeats(repeating.client);
+  const otherRepeats = repeats(other.client);
+  await waitFor(() => repeating.client.isActive);
+
+  hub.fifo.report([[EV_KEY, 0x220, 1]]);
+  await waitFor(() => menuRepeats() >= 3);
+
+  pressPs(hub);
+  await waitFor(() => other.client.isActive);
+  const afterFocusLoss = menuRepeats();
+  await wait(300);
+  assert.equal(menuRepeats(), afterFocusLoss);
+  assert.equal(otherRepeats(), 0);
+});
+
+test('PS chords from the system bindings file switch services and are not forwarded', async (t) => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-bindings-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'system-bindings.json');
+  fs.writeFileSync(file, JSON.stringify({ chords: { circle: { focus: 'c' }, dpad_left: 'previous' } }));
+
+  const hub = await startHub(t, { SYSTEM_BINDINGS: file });
+  const a = await connect(t, hub, { serviceName: 'a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  const c = await connect(t, hub, { serviceName: 'c' });
+  await waitFor(() => a.client.isActive);
+
+  hub.fifo.report([[EV_KEY, PS, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 0], [EV_KEY, PS, 0]]);
+  await waitFor(() => c.client.isActive);
+
+  hub.fifo.report([[EV_KEY, PS, 1]]);
+  hub.fifo.report([[EV_KEY, 0x222, 1]]);
+  hub.fifo.report([[EV_KEY, 0x222, 0], [EV_KEY, PS, 0]]);
+  await waitFor(() => b.client.isActive);
+  await wait(100);
+
+  // The chord buttons reached none of the services
+  assert.deepEqual(c.log, [`activated c ${hub.controllerId}`, `deactivated c ${hub.controllerId}`]);
+  assert.deepEqual(a.log, [`activated a ${hub.controllerId}`, `deactivated a ${hub.controllerId}`]);
+  assert.deepEqual(b.log, [`activated b ${hub.controllerId}`]);
+});
+
+test('holding PS opens the switcher, the D-pad moves it and releasing PS switches', async (t) => {
+  quiet(t);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-bindings-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'system-bindings.json');
+  fs.writeFileSync(file, JSON.stringify({ longPressMs: 100 }));
+
+  const hub = await startHub(t, { SYSTEM_BINDINGS: file });
+  const a = await connect(t, hub, { serviceName: 'a' });
+  await connect(t, hub, { serviceName: 'b' });
+  const c = await connect(t, hub, { serviceName: 'c' });
+  const observer = await connect(t, hub);
+  const states: string[] = [];
+  observer.client.on('switcher', (s) => states.push(`${s.open} ${s.clients[s.highlightedIndex]?.serviceName}`));
+  await waitFor(() => a.client.isActive);
+
+  hub.fifo.report([[EV_KEY, PS, 1]]);
+  await waitFor(() => states.length === 1);
+  assert.ok(observer.client.switchers[hub.controllerId].open);
+  hub.fifo.report([[EV_KEY, 0x221, 1]]);
+  hub.fifo.report([[EV_KEY, 0x221, 0]]);
+  hub.fifo.report([[EV_KEY, 0x221, 1]]);
+  hub.fifo.report([[EV_KEY, 0x221, 0]]);
+  hub.fifo.report([[EV_KEY, PS, 0]]);
+  await waitFor(() => c.client.isActive);
+
+  assert.deepEqual(states, ['true a', 'true b', 'true c', 'false undefined']);
+  assert.equal(observer.client.switchers[hub.controllerId], undefined);
+  // The D-pad drove the switcher, not the service
+  assert.deepEqual(a.log, [`activated a ${hub.controllerId}`, `deactivated a ${hub.controllerId}`]);
+});
+
+test('a malformed register is rejected with an error ack', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const socket = io(hub.url, { reconnection: false });
+  t.after(() => socket.close());
+  const register = (...args: unknown[]) => socket.emitWithAck('register', ...args);
+
+  assert.deepEqual(await register('svc', null), { ok: false, error: 'options must be an object' });
+  assert.deepEqual(await register('', {}), { ok: false, error: 'serviceName must be a non-empty string' });
+  assert.deepEqual(await register('svc', { controller: 7 }), { ok: false, error: 'controller must be a controllerId, "any" or null' });
+  assert.deepEqual(await register('svc', { controller: 'any' }), { ok: true });
+});
+
+// ─── Focus stack ────────────────────────────────────────────────────────────
+
+test('request-focus stacks on top of the holder and yield hands focus back', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const media = await connect(t, hub, { serviceName: 'media' });
+  const phone = await connect(t, hub, { serviceName: 'phone' });
+  await waitFor(() => media.client.isActive);
+
+  assert.deepEqual(await phone.client.requestFocus({ reason: 'incoming call' }), {
+    ok: true, controllerId: hub.controllerId, activeServiceName: 'phone',
+  });
+  await waitFor(() => phone.client.isActive);
+  await waitFor(() => media.client.clientList.focus[0]?.stack.length === 2);
+  assert.deepEqual(media.client.clientList.focus[0].stack, [
+    { serviceName: 'media', priority: 0, reason: null },
+    { serviceName: 'phone', priority: 1, reason: 'incoming call' },
+  ]);
+
+  assert.equal((await phone.client.yieldFocus()).activeServiceName, 'media');
+  await waitFor(() => media.client.isActive);
+  assert.deepEqual(await media.client.yieldFocus(), {
+    ok: false, controllerId: hub.controllerId, activeServiceName: 'media', error: 'no previous holder to return focus to',
+  });
+});
+
+test('a higher-priority holder keeps focus against requests and activate', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const media = await connect(t, hub, { serviceName: 'media' });
+  const alarm = await connect(t, hub, { serviceName: 'alarm' });
+  const chat = await connect(t, hub, { serviceName: 'chat' });
+  await waitFor(() => media.client.isActive);
+
+  assert.ok((await alarm.client.requestFocus({ priority: 5 })).ok);
+  const denied = await chat.client.requestFocus({ priority: 2 });
+  assert.equal(denied.ok, false);
+  assert.equal(denied.error, 'focus is held by "alarm" at priority 5');
+  assert.equal((await media.client.activate('chat')).ok, false);
+  assert.equal((await media.client.activate('nope')).error, `no connected controller for "nope"`);
+
+  // The holder itself may switch; that replaces the stack
+  assert.deepEqual(await alarm.client.activate('chat'), { ok: true, controllerId: hub.controllerId, activeServiceName: 'chat' });
+  await waitFor(() => chat.client.isActive);
+  await waitFor(() => chat.client.clientList.focus[0]?.stack.length === 1);
+});
+
+test('when a focus holder leaves, the controller returns to the one below', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const a = await connect(t, hub, { serviceName: 'a' });
+  await connect(t, hub, { serviceName: 'b' });
+  const popup = await connect(t, hub, { serviceName: 'popup' });
+  await waitFor(() => a.client.isActive);
+
+  await popup.client.requestFocus();
+  await waitFor(() => popup.client.isActive);
+  popup.client.disconnect();
+  // Back to a, not on to the next service in the rotation
+  await waitFor(() => a.log.length === 3);
+  assert.deepEqual(a.log, [
+    `activated a ${hub.controllerId}`, `deactivated a ${hub.controllerId}`, `activated a ${hub.controllerId}`,
+  ]);
+});
+
+// ─── Reconnects ─────────────────────────────────────────────────────────────
+
+test('a service that drops off keeps its place and focus for the grace period', async (t) => {
+  quiet(t);
+  const hub = await startHub(t, { RECONNECT_GRACE_MS: '5000' });
+  const first = io(hub.url, { reconnection: false });
+  t.after(() => first.close());
+  first.emit('register', 'a', { token: 'token-a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  await waitFor(() => b.client.clientList.focus[0]?.activeServiceName === 'a');
+
+  // A network drop, not a disconnect() — the hub only sees the transport close
+  first.io.engine.close();
+  await waitFor(() => b.client.clientList.clients.some((c) => c.serviceName === 'a' && !c.connected));
+  assert.equal(b.client.isActive, false);
+
+  const again = await connect(t, hub, { serviceName: 'a', token: 'token-a' });
+  await waitFor(() => again.client.isActive && b.client.clientList.clients.every((c) => c.connected));
+  assert.deepEqual(b.client.clientList.clients.map((c) => c.serviceName), ['a', 'b']);
+  assert.deepEqual(b.log, []);
+});
+
+test('a service that disconnects on purpose gives up its place right away', async (t) => {
+  quiet(t);
+  const hub = await startHub(t, { RECONNECT_GRACE_MS: '5000' });
+  const a = await connect(t, hub, { serviceName: 'a', token: 'token-a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  await waitFor(() => a.client.isActive);
+
+  a.client.disconnect();
+  await waitFor(() => b.client.isActive);
+  assert.deepEqual(b.client.clientList.clients.map((c) => c.serviceName), ['b']);
+});
+
+// ─── Roles ──────────────────────────────────────────────────────────────────
+
+test('observers get every input and PS, listeners only PS, and neither takes focus', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const observer = await connect(t, hub, { serviceName: 'logger', role: 'observer' });
+  const listener = await connect(t, hub, { serviceName: 'led', role: 'listener' });
+  const a = await connect(t, hub, { serviceName: 'a' });
+  await connect(t, hub, { serviceName: 'b' });
+  await waitFor(() => a.client.isActive);
+
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  pressPs(hub);
+  await waitFor(() => !a.client.isActive);
+  hub.fifo.report([[EV_KEY, 0x131, 0]]);
+  await waitFor(() => observer.log.includes('circle false'));
+  await wait(100);
+
+  assert.deepEqual(observer.log, ['circle true', 'ps true', 'ps false', 'circle false']);
+  assert.deepEqual(listener.log, ['ps true', 'ps false']);
+  assert.deepEqual(a.client.clientList.clients.map((c) => [c.serviceName, c.role]), [
+    ['logger', 'observer'], ['led', 'listener'], ['a', 'exclusive'], ['b', 'exclusive'],
+  ]);
+  assert.deepEqual(await observer.client.requestFocus(), {
+    ok: false, controllerId: null, activeServiceName: null, error: '"logger" is registered as observer and cannot take focus',
+  });
+  assert.equal((await a.client.activate('led')).error, '"led" is registered as listener and cannot take focus');
+});
+
+test('a socket\'s event filter drops the buttons it did not ask for', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const filtered = await connect(t, hub, { filter: { buttons: ['circle'] } });
+  const all = await connect(t, hub);
+
+  hub.fifo.report([[EV_KEY, 0x136, 1]]);
+  hub.fifo.report([[EV_KEY, 0x131, 1]]);
+  await waitFor(() => filtered.log.length === 1 && all.log.length === 2);
+  assert.deepEqual(filtered.log, ['circle true']);
+
+  filtered.client.setFilter(null);
+  await wait(100);
+  hub.fifo.report([[EV_KEY, 0x136, 0]]);
+  await waitFor(() => filtered.log.length === 2);
+  assert.deepEqual(filtered.log, ['circle true', 'l1 false']);
+});
+
+test('a service losing focus gets releases, the next one a snapshot of what is held', async (t) => {
+  quiet(t);
+  const hub = await startHub(t);
+  const a = await connect(t, hub, { serviceName: 'a' });
+  const b = await connect(t, hub, { serviceName: 'b' });
+  const snapshots: PSNavStateEvent[] = [];
+  b.client.on('state', (state) => snapshots.push(state));
+  await waitFor(() => a.client.isActive);
+
+  hub.fifo.report([[EV_KEY, 0x131, 1], [EV_ABS, 0x00, 200]]);
+  await waitFor(() => a.log.includes('circle true') && a.client.axes.stick_x === 200);
+  const aAxes: number[] = [];
+  a.client.on('axis', (evt) => aAxes.push(evt.value));
+  pressPs(hub);
+  await waitFor(() => b.client.isActive && snapshots.length > 0);
+  await waitFor(() => a.log.includes('circle false'));
+
+  assert.deepEqual(aAxes, [128]);
+  assert.equal(a.client.buttons.circle, false);
+  const snapshot = snapshots.at(-1)!;
+  assert.equal(snapshot.buttons.circle, true);
+  assert.equal(snapshot.axes.stick_x, 200);
+  assert.equal(b.client.getControllerState(hub.controllerId)!.buttons.circle, true);
+});
+
+// ─── Captures ───────────────────────────────────────────────────────────────
+
+test('captures are refused unless the hub has an ADMIN_TOKEN and the request sends it', async (t) => {
+  quiet(t);
+  const disabled = await startHub(t);
+  const plain = await connect(t, disabled);
+  assert.deepEqual(await plain.client.startCapture({ adminToken: '' }), { ok: false, error: 'capture disabled (the hub has no ADMIN_TOKEN)' });
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-captures-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const hub = await startHub(t, { ADMIN_TOKEN: 'admin', CAPTURE_DIR: dir });
+  const admin = await connect(t, hub);
+  assert.deepEqual(await admin.client.startCapture({ adminToken: 'wrong' }), { ok: false, error: 'admin token required' });
+
+  const started = await admin.client.startCapture({ adminToken: 'admin' });
+  assert.equal(started.ok, true);
+  assert.deepEqual(await admin.client.stopCapture({ adminToken: 'admin' }), started);
+  assert.ok(fs.existsSync(started.files![hub.controllerId]));
+});
+
+// ─── Virtual pad ────────────────────────────────────────────────────────────
+
+/** A /pad socket; resolves with its pad:ready info or its connect error */
+function connectPad(t: { after(fn: () => void): void }, hub: Hub, auth: object) {
+  const socket = io(`${hub.url}/pad`, { path: '/pad/socket.io', auth, reconnection: false });
+  t.after(() => socket.close());
+  const result = new Promise<{ controllerId: string } | Error>((resolve) => {
+    socket.once('pad:ready', resolve);
+    socket.once('connect_error', resolve);
+  });
+  return { socket, result };
+}
+
+test('the pad namespace needs the hub\'s PAD_TOKEN', async (t) => {
+  quiet(t);
+  const disabled = await startHub(t);
+  assert.match(`${await connectPad(t, disabled, { token: 'x' }).result}`, /virtual pad disabled/);
+
+  const hub = await startHub(t, { PAD_TOKEN: 'secret' });
+  assert.match(`${await connectPad(t, hub, { token: 'wrong' }).result}`, /invalid pad token/);
+  assert.match(`${await connectPad(t, hub, { token: 'secret', name: 'no spaces' }).result}`, /name must be/);
+});
+
+test('a virtual pad is a controller like any other', async (t) => {
+  quiet(t);
+  const hub = await startHub(t, { PAD_TOKEN: 'secret' });
+  const observer = await connect(t, hub);
+  const from: string[] = [];
+  observer.client.on('button', (evt) => from.push(evt.controllerId));
+
+  const pad = connectPad(t, hub, { token: 'secret' });
+  assert.deepEqual(await pad.result, { controllerId: 'virtual-1', device: `pad:${pad.socket.id}` });
+  pad.socket.emit('pad:report', { buttons: { circle: true } });
+  await waitFor(() => observer.log.includes('circle true'));
+  assert.deepEqual(from, ['virtual-1']);
+
+  // A named pad is kept under the virtual- prefix too
+  const named = connectPad(t, hub, { token: 'secret', name: 'bench' });
+  assert.deepEqual(await named.result, { controllerId: 'virtual-bench', device: `pad:${named.socket.id}` });
+  named.socket.close();
+
+  pad.socket.close();
+  const controllers = async () => (await status(hub.url))!.controllers.map((c) => c.controllerId);
+  const until = Date.now() + 2000;
+  while ((await controllers()).length > 1 && Date.now() < until) await wait(50);
+  assert.deepEqual(await controllers(), [hub.controllerId]);
+});
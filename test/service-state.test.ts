@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceStateStore } from '../src/service-state';
+import { quiet } from './helpers';
+
+/** A store on a scratch file, optionally saved with `json` first */
+function setup(t: { after(fn: () => void): void }, json?: unknown) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-state-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'service-state.json');
+  if (json !== undefined) fs.writeFileSync(file, typeof json === 'string' ? json : JSON.stringify(json));
+  const store = new ServiceStateStore(file);
+  store.load();
+  const saved = () => (fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null);
+  return { store, file, saved };
+}
+
+test('registered services take the saved slots in their current order', (t) => {
+  quiet(t);
+  const { store, saved } = setup(t, { rotation: ['a', 'b', 'c'], active: { left: 'b' } });
+  assert.equal(store.rank('c'), 2);
+  assert.equal(store.rank('d'), -1);
+  assert.equal(store.lastActive('left'), 'b');
+  assert.equal(store.lastActive('right'), null);
+
+  // b is not registered and keeps its slot; d is new and goes ahead of the next known service
+  store.update(['d', 'c', 'a'], { left: null, right: 'd' });
+  store.close();
+  assert.deepEqual(saved(), { rotation: ['d', 'c', 'b', 'a'], active: { left: 'b', right: 'd' } });
+});
+
+test('nothing is written until something changes, and nothing after close', (t) => {
+  quiet(t);
+  const { store, saved } = setup(t);
+  store.update([], {});
+  store.close();
+  assert.equal(saved(), null);
+
+  store.update(['a'], {});
+  assert.equal(saved(), null);
+});
+
+test('changes are saved once after a quiet period', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { store, saved } = setup(t);
+  store.update(['a'], {});
+  store.update(['a', 'b'], { left: 'a' });
+  t.mock.timers.tick(499);
+  assert.equal(saved(), null);
+  t.mock.timers.tick(1);
+  assert.deepEqual(saved(), { rotation: ['a', 'b'], active: { left: 'a' } });
+});
+
+test('over the limit, absent services at the end are forgotten first', (t) => {
+  quiet(t);
+  const old = Array.from({ length: 64 }, (_, i) => `old-${i}`);
+  const { store, saved } = setup(t, { rotation: old, active: {} });
+  store.update(['old-0', 'new-1', 'new-2'], {});
+  store.close();
+
+  const { rotation } = saved();
+  assert.equal(rotation.length, 64);
+  assert.deepEqual(rotation.slice(0, 3), ['old-0', 'old-1', 'old-2']);
+  assert.deepEqual(rotation.slice(-3), ['old-61', 'new-1', 'new-2']);
+});
+
+test('an unreadable file starts an empty rotation', (t) => {
+  quiet(t);
+  const { store } = setup(t, '{ "rotation": [');
+  assert.equal(store.rank('a'), -1);
+  assert.equal(store.lastActive('left'), null);
+});
+
+test('malformed entries are dropped when loading', (t) => {
+  quiet(t);
+  const { store } = setup(t, { rotation: ['a', 7, null, 'b'], active: { left: 'a', right: { token: 'b' } } });
+  assert.equal(store.rank('b'), 1);
+  assert.equal(store.lastActive('left'), 'a');
+  assert.equal(store.lastActive('right'), null);
+
+  const { store: nothing } = setup(t, 'null');
+  assert.equal(nothing.rank('a'), -1);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DEFAULT_STICK_BUTTONS, StickButtons } from '../src/stick-buttons';
+
+// Deflection is (value - 128) / 127: press 0.5 ≈ 192, release 0.3 ≈ 167
+
+test('a direction presses at the press threshold and releases only below the release one', () => {
+  const stick = new StickButtons(DEFAULT_STICK_BUTTONS);
+  assert.deepEqual(stick.update(180, 128), []);
+  assert.deepEqual(stick.update(200, 128), [{ button: 'stick_right', pressed: true }]);
+  assert.deepEqual(stick.update(180, 128), []);
+  assert.deepEqual(stick.update(170, 128), []);
+  assert.deepEqual(stick.update(160, 128), [{ button: 'stick_right', pressed: false }]);
+});
+
+test('y grows downwards', () => {
+  const stick = new StickButtons(DEFAULT_STICK_BUTTONS);
+  assert.deepEqual(stick.update(128, 255), [{ button: 'stick_down', pressed: true }]);
+  assert.deepEqual(stick.update(128, 0), [
+    { button: 'stick_down', pressed: false },
+    { button: 'stick_up', pressed: true },
+  ]);
+});
+
+test('4-way keeps the held direction until another clearly dominates', () => {
+  const stick = new StickButtons(DEFAULT_STICK_BUTTONS);
+  assert.deepEqual(stick.update(220, 128), [{ button: 'stick_right', pressed: true }]);
+  // Up pulls harder than right, but not by the switch margin
+  assert.deepEqual(stick.update(220, 20), []);
+  // Now it does: releases come before presses
+  assert.deepEqual(stick.update(220, 0), [
+    { button: 'stick_right', pressed: false },
+    { button: 'stick_up', pressed: true },
+  ]);
+});
+
+test('4-way never holds two directions around the whole circle', () => {
+  const stick = new StickButtons(DEFAULT_STICK_BUTTONS);
+  const held = new Set<string>();
+  for (let degrees = 0; degrees < 720; degrees += 5) {
+    const angle = (degrees * Math.PI) / 180;
+    for (const { button, pressed } of stick.update(128 + 127 * Math.cos(angle), 128 + 127 * Math.sin(angle))) {
+      if (pressed) held.add(button);
+      else held.delete(button);
+    }
+    assert.equal(held.size, 1, `at ${degrees}°`);
+  }
+});
+
+test('8-way holds both buttons of a diagonal', () => {
+  const stick = new StickButtons({ ...DEFAULT_STICK_BUTTONS, directions: 8 });
+  assert.deepEqual(stick.update(230, 25), [
+    { button: 'stick_right', pressed: true },
+    { button: 'stick_up', pressed: true },
+  ]);
+  assert.deepEqual(stick.update(230, 128), [{ button: 'stick_up', pressed: false }]);
+});
+
+test('reset forgets held directions', () => {
+  const stick = new StickButtons(DEFAULT_STICK_BUTTONS);
+  stick.update(255, 128);
+  stick.reset();
+  assert.deepEqual(stick.update(255, 128), [{ button: 'stick_right', pressed: true }]);
+});
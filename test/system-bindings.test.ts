@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_SYSTEM_BINDINGS,
+  SystemAction,
+  SystemBindingsError,
+  SystemBindingsStore,
+  SystemChords,
+  parseSystemBindings,
+} from '../src/system-bindings';
+import { PSNavButton, PSNavButtonEvent } from '../src/types';
+import { quiet } from './helpers';
+
+// ─── parseSystemBindings ────────────────────────────────────────────────────
+
+test('missing keys keep their defaults', () => {
+  const bindings = parseSystemBindings({ tap: 'none' }, 'test.json');
+  assert.equal(bindings.tap, 'none');
+  assert.equal(bindings.longPress, DEFAULT_SYSTEM_BINDINGS.longPress);
+  assert.equal(bindings.longPressMs, DEFAULT_SYSTEM_BINDINGS.longPressMs);
+  assert.deepEqual(bindings.chords, DEFAULT_SYSTEM_BINDINGS.chords);
+  assert.equal(bindings.source, 'test.json');
+});
+
+test('chords replace the default chords and accept focus actions', () => {
+  const bindings = parseSystemBindings({ chords: { cross: { focus: 'music' }, stick_up: 'previous' } }, 'test.json');
+  assert.deepEqual(bindings.chords, { cross: { focus: 'music' }, stick_up: 'previous' });
+});
+
+test('every problem is reported at once', () => {
+  assert.throws(
+    () => parseSystemBindings({
+      tapp: 'next',
+      longPressMs: -1,
+      longPress: 'passthrough',
+      chords: { ps: 'next', cross: { focus: '' } },
+    }, 'test.json'),
+    (err: SystemBindingsError) => {
+      assert.ok(err instanceof SystemBindingsError);
+      assert.equal(err.problems.length, 5);
+      assert.match(err.problems.join('\n'), /unknown key "tapp"/);
+      assert.match(err.problems.join('\n'), /"passthrough" is only possible for "tap"/);
+      assert.match(err.problems.join('\n'), /unknown button "ps"/);
+      return true;
+    },
+  );
+});
+
+test('a non-object is rejected', () => {
+  assert.throws(() => parseSystemBindings([], 'test.json'), SystemBindingsError);
+});
+
+// ─── SystemChords ───────────────────────────────────────────────────────────
+
+function setup(json: object) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psnav-bindings-'));
+  const file = path.join(dir, 'system-bindings.json');
+  fs.writeFileSync(file, JSON.stringify(json));
+  const store = new SystemBindingsStore(file);
+  store.load();
+  fs.rmSync(dir, { recursive: true });
+
+  const actions: SystemAction[] = [];
+  const forwarded: PSNavButtonEvent[] = [];
+  const chords = new SystemChords('test', store, {
+    action: (action) => actions.push(action),
+    forward: (evt) => forwarded.push(evt),
+  });
+  let now = 0;
+  const press = (button: PSNavButton, pressed: boolean): [PSNavButtonEvent, boolean] => {
+    const evt: PSNavButtonEvent = { kind: 'button', controllerId: 'test', button, pressed, timestamp: now, dispatchedAt: now++ };
+    return [evt, chords.handle(evt)];
+  };
+  return { chords, actions, forwarded, press };
+}
+
+test('a PS tap runs the tap action on release', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { actions, press } = setup({ tap: 'next' });
+  assert.equal(press('ps', true)[1], true);
+  assert.deepEqual(actions, []);
+  assert.equal(press('ps', false)[1], true);
+  assert.deepEqual(actions, ['next']);
+});
+
+test('holding PS runs the long-press action once and no tap', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { actions, press } = setup({ longPress: 'previous', longPressMs: 500 });
+  press('ps', true);
+  t.mock.timers.tick(499);
+  assert.deepEqual(actions, []);
+  t.mock.timers.tick(1);
+  assert.deepEqual(actions, ['previous']);
+  press('ps', false);
+  assert.deepEqual(actions, ['previous']);
+});
+
+test('a chord runs its action and swallows the button press and release', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { actions, press } = setup({ chords: { cross: { focus: 'music' } } });
+  press('ps', true);
+  assert.equal(press('cross', true)[1], true);
+  press('ps', false);
+  assert.equal(press('cross', false)[1], true);
+  assert.deepEqual(actions, [{ focus: 'music' }]);
+  // Without PS held the button is not touched
+  assert.equal(press('cross', true)[1], false);
+  // The chord cancelled the long press
+  t.mock.timers.tick(10_000);
+  assert.deepEqual(actions, [{ focus: 'music' }]);
+});
+
+test('passthrough forwards the PS press and release on release', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { actions, forwarded, press } = setup({ tap: 'passthrough' });
+  const [down] = press('ps', true);
+  assert.deepEqual(forwarded, []);
+  const [up] = press('ps', false);
+  assert.deepEqual(forwarded, [down, up]);
+  assert.deepEqual(actions, []);
+});
+
+test('consumed() marks the events that were handled', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { chords, press } = setup({});
+  const [ps] = press('ps', true);
+  const [l1] = press('l1', true);
+  assert.equal(chords.consumed(ps), true);
+  assert.equal(chords.consumed(l1), false);
+});
+
+test('claim() consumes a press and swallows its release', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { chords, press } = setup({});
+  const [down] = press('dpad_down', true);
+  chords.claim(down);
+  assert.equal(chords.consumed(down), true);
+  assert.equal(press('dpad_down', false)[1], true);
+  assert.equal(press('dpad_down', true)[1], false);
+});
+
+test('maskHeld() reports PS and chord buttons as released while they are held', (t) => {
+  quiet(t);
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const { chords, press } = setup({ chords: { cross: 'next' } });
+  const held = (...buttons: PSNavButton[]) => Object.fromEntries(buttons.map((b) => [b, true])) as Record<PSNavButton, boolean>;
+
+  const free = held('l1');
+  assert.equal(chords.maskHeld(free), free);
+
+  press('ps', true);
+  press('cross', true);
+  press('l1', true);
+  assert.deepEqual(chords.maskHeld(held('ps', 'cross', 'l1')), { ps: false, cross: false, l1: true });
+  // The chord button stays masked until it is released
+  press('ps', false);
+  assert.deepEqual(chords.maskHeld(held('cross', 'l1')), { cross: false, l1: true });
+  press('cross', false);
+  assert.deepEqual(chords.maskHeld(held('l1')), { l1: true });
+});
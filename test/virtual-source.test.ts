@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { VirtualSource } from '../src/virtual-source';
+import { EV_ABS, EV_KEY, EV_SYN, PadReport, RawInputEvent, SYN_REPORT } from '../src/types';
+
+/** A started virtual source and the [type, code, value] of what it emits */
+function setup() {
+  const source = new VirtualSource('pad:test', 'virtual-1');
+  const emitted: [number, number, number][] = [];
+  const closed: string[] = [];
+  source.on('raw', ({ type, code, value }: RawInputEvent) => emitted.push([type, code, value]));
+  source.on('close', (reason) => closed.push(reason));
+  source.start();
+  return { source, emitted, closed };
+}
+
+test('a pad report becomes one hid-sony input report', () => {
+  const { source, emitted } = setup();
+  source.report({ buttons: { cross: true, dpad_left: false }, axes: { stick_x: 200 } });
+  assert.deepEqual(emitted, [
+    [EV_KEY, 0x130, 1],
+    [EV_KEY, 0x222, 0],
+    [EV_ABS, 0x00, 200],
+    [EV_SYN, SYN_REPORT, 0],
+  ]);
+});
+
+test('unknown, virtual and malformed inputs are ignored and axes clamped', () => {
+  const { source, emitted } = setup();
+  source.report({ buttons: { triangle: true, stick_up: true, circle: 'yes' } } as never);
+  source.report(null as unknown as PadReport);
+  assert.deepEqual(emitted, []);
+
+  source.report({ axes: { stick_x: -20, stick_y: 300.4, l2_analog: NaN, stick_z: 1 } as never });
+  assert.deepEqual(emitted, [[EV_ABS, 0x00, 0], [EV_ABS, 0x01, 255], [EV_SYN, SYN_REPORT, 0]]);
+});
+
+test('reports are only applied while the source is open, and it closes once', () => {
+  const { source, emitted, closed } = setup();
+  source.stop('pad disconnected');
+  source.stop();
+  source.report({ buttons: { cross: true } });
+  assert.deepEqual(emitted, []);
+  assert.deepEqual(closed, ['pad disconnected']);
+});